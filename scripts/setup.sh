@@ -7,6 +7,7 @@
 #   - Pub/Sub topics (main + dead letter)
 #   - Dead letter subscriptions (pull, 7-day retention)
 #   - Dead letter IAM bindings
+#   - Cloud Scheduler job driving the outbox relay
 #
 # Prerequisites:
 #   - gcloud CLI authenticated
@@ -27,7 +28,7 @@ echo "Region:  $REGION"
 echo ""
 
 # ── Enable APIs ─────────────────────────────────────────────
-echo "[1/6] Enabling APIs..."
+echo "[1/7] Enabling APIs..."
 gcloud services enable \
   cloudfunctions.googleapis.com \
   pubsub.googleapis.com \
@@ -36,24 +37,27 @@ gcloud services enable \
   run.googleapis.com \
   eventarc.googleapis.com \
   artifactregistry.googleapis.com \
+  cloudscheduler.googleapis.com \
   --project="$PROJECT_ID"
 
 # ── Firestore ──────────────────────────────────────────────
-echo "[2/6] Creating Firestore database..."
+echo "[2/7] Creating Firestore database..."
 gcloud firestore databases create \
   --location="$REGION" \
   --project="$PROJECT_ID" 2>/dev/null || echo "  (already exists)"
 
 # ── Pub/Sub Topics ─────────────────────────────────────────
-echo "[3/6] Creating Pub/Sub topics..."
-for TOPIC in reasoning-requested action-requested reasoning-dead-letter action-dead-letter; do
+echo "[3/7] Creating Pub/Sub topics..."
+for TOPIC in reasoning-requested action-requested response-requested reasoning-dead-letter action-dead-letter response-dead-letter outbox-relay-tick state-changed state-changed-dead-letter gc-tick watchdog-tick; do
   gcloud pubsub topics create "$TOPIC" \
     --project="$PROJECT_ID" 2>/dev/null || echo "  $TOPIC (already exists)"
 done
 
 # ── Dead Letter Pull Subscriptions ─────────────────────────
-echo "[4/6] Creating dead letter pull subscriptions..."
-for PAIR in "reasoning-dead-letter:reasoning-dead-letter-sub" "action-dead-letter:action-dead-letter-sub"; do
+echo "[4/7] Creating dead letter pull subscriptions..."
+for PAIR in "reasoning-dead-letter:reasoning-dead-letter-sub" "action-dead-letter:action-dead-letter-sub" \
+  "response-dead-letter:response-dead-letter-sub" \
+  "state-changed-dead-letter:state-changed-dead-letter-sub"; do
   TOPIC="${PAIR%%:*}"
   SUB="${PAIR##*:}"
   gcloud pubsub subscriptions create "$SUB" \
@@ -64,12 +68,12 @@ for PAIR in "reasoning-dead-letter:reasoning-dead-letter-sub" "action-dead-lette
 done
 
 # ── Deploy Functions ───────────────────────────────────────
-echo "[5/6] Building and deploying Cloud Functions..."
+echo "[5/7] Building and deploying Cloud Functions..."
 npm run build
 npm run deploy:all
 
 # ── Dead Letter Policy on Eventarc Subscriptions ───────────
-echo "[6/6] Configuring dead letter policies..."
+echo "[6/7] Configuring dead letter policies..."
 PROJECT_NUMBER=$(gcloud projects describe "$PROJECT_ID" --format="value(projectNumber)")
 PUBSUB_SA="serviceAccount:service-${PROJECT_NUMBER}@gcp-sa-pubsub.iam.gserviceaccount.com"
 
@@ -84,8 +88,20 @@ EXECUTOR_SUB=$(gcloud pubsub subscriptions list \
   --format="value(name)" \
   --project="$PROJECT_ID" | head -1 | xargs basename)
 
+RESPONDER_SUB=$(gcloud pubsub subscriptions list \
+  --filter="topic:response-requested AND NOT topic:dead-letter" \
+  --format="value(name)" \
+  --project="$PROJECT_ID" | head -1 | xargs basename)
+
+NOTIFIER_SUB=$(gcloud pubsub subscriptions list \
+  --filter="topic:state-changed AND NOT topic:dead-letter" \
+  --format="value(name)" \
+  --project="$PROJECT_ID" | head -1 | xargs basename)
+
 # Apply dead letter policy (max 5 attempts)
-for PAIR in "$REASONER_SUB:reasoning-dead-letter" "$EXECUTOR_SUB:action-dead-letter"; do
+for PAIR in "$REASONER_SUB:reasoning-dead-letter" "$EXECUTOR_SUB:action-dead-letter" \
+  "$RESPONDER_SUB:response-dead-letter" \
+  "$NOTIFIER_SUB:state-changed-dead-letter"; do
   SUB="${PAIR%%:*}"
   DLT="${PAIR##*:}"
   gcloud pubsub subscriptions update "$SUB" \
@@ -95,20 +111,43 @@ for PAIR in "$REASONER_SUB:reasoning-dead-letter" "$EXECUTOR_SUB:action-dead-let
 done
 
 # Grant Pub/Sub SA permissions for dead letter forwarding
-for TOPIC in reasoning-dead-letter action-dead-letter; do
+for TOPIC in reasoning-dead-letter action-dead-letter response-dead-letter state-changed-dead-letter; do
   gcloud pubsub topics add-iam-policy-binding "$TOPIC" \
     --member="$PUBSUB_SA" \
     --role="roles/pubsub.publisher" \
     --project="$PROJECT_ID"
 done
 
-for SUB in "$REASONER_SUB" "$EXECUTOR_SUB"; do
+for SUB in "$REASONER_SUB" "$EXECUTOR_SUB" "$RESPONDER_SUB" "$NOTIFIER_SUB"; do
   gcloud pubsub subscriptions add-iam-policy-binding "$SUB" \
     --member="$PUBSUB_SA" \
     --role="roles/pubsub.subscriber" \
     --project="$PROJECT_ID"
 done
 
+# ── Outbox Relay, GC and Watchdog Schedules ────────────────
+echo "[7/7] Scheduling outbox relay, garbage collection and watchdog..."
+gcloud scheduler jobs create pubsub outbox-relay-tick \
+  --schedule="* * * * *" \
+  --topic=outbox-relay-tick \
+  --message-body="tick" \
+  --location="$REGION" \
+  --project="$PROJECT_ID" 2>/dev/null || echo "  outbox-relay-tick (already exists)"
+
+gcloud scheduler jobs create pubsub gc-tick \
+  --schedule="17 * * * *" \
+  --topic=gc-tick \
+  --message-body="{}" \
+  --location="$REGION" \
+  --project="$PROJECT_ID" 2>/dev/null || echo "  gc-tick (already exists)"
+
+gcloud scheduler jobs create pubsub watchdog-tick \
+  --schedule="*/5 * * * *" \
+  --topic=watchdog-tick \
+  --message-body="tick" \
+  --location="$REGION" \
+  --project="$PROJECT_ID" 2>/dev/null || echo "  watchdog-tick (already exists)"
+
 echo ""
 echo "=== Setup complete ==="
 echo "API: https://${REGION}-${PROJECT_ID}.cloudfunctions.net/api"
@@ -0,0 +1,99 @@
+/**
+ * Local stub of an OpenAI-compatible chat-completions endpoint.
+ *
+ * Lets the openai reasoning provider run fully offline:
+ *
+ *   npm run build && npm run stub:llm
+ *   REASONING_PROVIDER=openai LLM_BASE_URL=http://localhost:8089/v1 ...
+ *
+ * Answers come from the same keyword matcher as the mock provider; user
+ * messages after the first are answers to its clarification questions.
+ * Requests without JSON mode (composing a reply) get a canned reply quoting
+ * the tool results.
+ * Markers in the user message force the failure modes the provider must handle:
+ *   [stub:timeout]     – never answers (client-side timeout)
+ *   [stub:error]       – HTTP 500 (retryable provider error)
+ *   [stub:bad-request] – HTTP 400 (permanent provider error)
+ *   [stub:malformed]   – HTTP 200 with non-JSON model output
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { keywordPlan } from '../shared/reasoning';
+
+interface ChatCompletionRequest {
+  model?: string;
+  response_format?: { type: string };
+  messages?: Array<{ role: string; content: string }>;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function completion(model: string, content: string): Record<string, unknown> {
+  return {
+    id: `chatcmpl-stub-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+  };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    sendJson(res, 404, { error: { message: 'Not found' } });
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+
+  let body: ChatCompletionRequest;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    sendJson(res, 400, { error: { message: 'Request body is not JSON' } });
+    return;
+  }
+
+  const model = body.model || 'stub';
+  const [userMessage, ...answers] = (body.messages ?? []).filter((m) => m.role === 'user');
+  const content = userMessage?.content ?? '';
+
+  if (content.includes('[stub:timeout]')) return;                 // hold the socket open
+  if (content.includes('[stub:error]')) {
+    sendJson(res, 500, { error: { message: 'Stubbed upstream failure' } });
+    return;
+  }
+  if (content.includes('[stub:bad-request]')) {
+    sendJson(res, 400, { error: { message: 'Stubbed invalid request' } });
+    return;
+  }
+  if (content.includes('[stub:malformed]')) {
+    sendJson(res, 200, completion(model, 'Sure! Here is the intent: {action: search'));
+    return;
+  }
+
+  if (!body.response_format) {
+    const results = answers[answers.length - 1]?.content ?? '';
+    sendJson(res, 200, completion(model, `Here is what the tools returned. ${results.slice(0, 300)}`));
+    return;
+  }
+  sendJson(res, 200, completion(model, JSON.stringify(keywordPlan(content, answers.map((m) => m.content)))));
+}
+
+export function startLlmStubServer(port: number): Promise<Server> {
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err) => sendJson(res, 500, { error: { message: err.message } }));
+  });
+  return new Promise((resolve) => server.listen(port, () => resolve(server)));
+}
+
+if (require.main === module) {
+  const port = Number(process.env.LLM_STUB_PORT) || 8089;
+  startLlmStubServer(port).then(() => {
+    process.stdout.write(`LLM stub listening on http://localhost:${port}/v1\n`);
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Local runner – the whole pipeline in one process, no GCP project needed.
+ *
+ *   npm run dev
+ *
+ * Uses the in-memory store and event bus: the api function is served over
+ * HTTP, and events are delivered in-process to the same reasoner and executor
+ * handlers that are deployed as Cloud Functions (reasoner, executor, responder, notifier). The outbox sweep and
+ * the watchdog that Cloud Scheduler triggers in production run on timers. State is lost on exit.
+ * Two API keys for the LOCAL_TENANT_ID tenant (with piiAccess) are issued at startup and logged:
+ * one to post messages and one to decide approvals.
+ *
+ * With REASONING_PROVIDER=openai and no LLM_BASE_URL, the local LLM stub is
+ * started as well, so the OpenAI adapter can be exercised offline.
+ */
+
+import { app } from '../functions/api';
+import { reasonerHandler } from '../functions/reasoner';
+import { executorHandler } from '../functions/executor';
+import { responderHandler } from '../functions/responder';
+import { notifierHandler } from '../functions/notifier';
+import { getEventBus, InMemoryEventBus, issueApiKey, runWatchdog, sweepOutbox, log } from '../shared';
+import { startLlmStubServer } from './llm-stub-server';
+
+process.env.STORAGE_BACKEND ||= 'memory';
+process.env.EVENT_BUS ||= 'memory';
+// Local webhook receivers usually have no TLS
+process.env.WEBHOOK_ALLOW_HTTP ||= 'true';
+// ...and run on localhost
+process.env.WEBHOOK_ALLOW_PRIVATE ||= 'true';
+// Spans are appended to TRACE_FILE (default traces.jsonl)
+process.env.TRACE_EXPORTER ||= 'file';
+
+const PORT = Number(process.env.PORT) || 8080;
+const TOPIC_REASONING = process.env.TOPIC_REASONING || 'reasoning-requested';
+const TOPIC_ACTION = process.env.TOPIC_ACTION || 'action-requested';
+const TOPIC_RESPONSE = process.env.TOPIC_RESPONSE || 'response-requested';
+const TOPIC_STATE_CHANGED = process.env.TOPIC_STATE_CHANGED || 'state-changed';
+const LOCAL_TENANT_ID = process.env.LOCAL_TENANT_ID || 'local';
+const OUTBOX_SWEEP_INTERVAL_MS = Number(process.env.OUTBOX_SWEEP_INTERVAL_MS) || 10_000;
+const WATCHDOG_INTERVAL_MS = Number(process.env.WATCHDOG_INTERVAL_MS) || 60_000;
+
+async function main(): Promise<void> {
+  const bus = getEventBus();
+  if (bus instanceof InMemoryEventBus) {
+    // Same wiring as the Eventarc triggers created by the deploy scripts
+    bus.subscribe(TOPIC_REASONING, 'reasoner', reasonerHandler);
+    bus.subscribe(TOPIC_ACTION, 'executor', executorHandler);
+    bus.subscribe(TOPIC_RESPONSE, 'responder', responderHandler);
+    bus.subscribe(TOPIC_STATE_CHANGED, 'notifier', notifierHandler);
+  }
+
+  setInterval(() => {
+    sweepOutbox().catch((err) => {
+      log.error('Outbox sweep failed', { handler: 'local', error: err.message });
+    });
+  }, OUTBOX_SWEEP_INTERVAL_MS).unref();
+
+  setInterval(() => {
+    runWatchdog().catch((err) => {
+      log.error('Watchdog run failed', { handler: 'local', error: err.message });
+    });
+  }, WATCHDOG_INTERVAL_MS).unref();
+
+  if (process.env.REASONING_PROVIDER === 'openai' && !process.env.LLM_BASE_URL) {
+    const stubPort = Number(process.env.LLM_STUB_PORT) || 8089;
+    await startLlmStubServer(stubPort);
+    process.env.LLM_BASE_URL = `http://localhost:${stubPort}/v1`;
+    log.info('Started local LLM stub', { handler: 'local', url: process.env.LLM_BASE_URL });
+  }
+
+  // The in-memory store starts empty, so there is no key to reuse
+  const { key } = await issueApiKey(LOCAL_TENANT_ID, 'local development', true);
+  // A second key, as the key that posted a message cannot approve it
+  const { key: approverKey } = await issueApiKey(LOCAL_TENANT_ID, 'local approver', true, true);
+  log.info('Issued local API keys', { handler: 'local', tenantId: LOCAL_TENANT_ID, apiKey: key, approverKey });
+
+  app.listen(PORT, () => {
+    log.info('Local pipeline listening', {
+      handler: 'local',
+      url: `http://localhost:${PORT}`,
+      storage: process.env.STORAGE_BACKEND,
+      eventBus: bus.name,
+    });
+  });
+}
+
+main().catch((err) => {
+  log.error('Local runner failed to start', { handler: 'local', error: err.message });
+  process.exit(1);
+});
@@ -3,37 +3,88 @@
  *
  * Responsibilities:
  * 1. Accept user messages via POST /messages
- * 2. Deduplicate via client idempotency key (X-Idempotency-Key header)
- * 3. Create conversation + persist message to Firestore
- * 4. Publish reasoning_requested event to Pub/Sub
- * 5. Transition state: RECEIVED → REASONING_REQUESTED
+ * 2. Deduplicate via client idempotency key (X-Idempotency-Key header):
+ *    a retry replays the original response, a reused key with a different
+ *    body gets 422, a retry while the original is in flight gets 409
+ * 3. Create conversation (or reuse an existing one) and open a new turn –
+ *    unless a turn of the conversation is in NEEDS_CLARIFICATION: the
+ *    message then answers its question and that turn resumes reasoning
+ * 4. Persist message to Firestore (the only copy of the original content;
+ *    events carry it tokenised with PII_TOKENIZE=true, see shared/pii.ts)
+ * 5. Transition the turn RECEIVED → REASONING_REQUESTED and, in the same
+ *    transaction, write the reasoning_requested event to the outbox
+ * 6. Relay the outbox entry to Pub/Sub
  *
- * GET /conversations/:id returns current conversation state (for verification).
+ * /messages and /conversations require a tenant API key; a caller only sees
+ * and extends its own tenant's conversations. POST /messages is rate limited
+ * per key and per IP and counts against the key's daily quota.
+ * /conversations routes read a conversation, its subcollections and its
+ * progress as Server-Sent Events, and approve or reject intents awaiting
+ * approval.
+ * /documents routes manage the knowledge base used by the search tool
+ * (shared by all tenants, so admin only).
+ * /admin routes inspect, replay and purge dead-lettered events.
+ * /webhooks routes manage outbound webhook subscriptions.
+ * /metrics serves the pipeline metrics in the Prometheus text format (admin).
+ *
+ * Every request is traced (W3C traceparent, see routes/tracing.ts); the
+ * trace follows the request's events through the pipeline.
  */
 
 import { http } from '@google-cloud/functions-framework';
 import express, { Request, Response } from 'express';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import {
   AgentEvent,
+  UserMessage,
+  StaleTransitionError,
   createConversation,
   getConversation,
+  openTurn,
   transitionState,
   saveMessage,
   claimIdempotencyKey,
-  logEvent,
-  publishEvent,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  findTurnAwaitingClarification,
+  answerClarification,
+  EVENT_SCHEMA_VERSIONS,
+  eventContent,
   log,
 } from '../shared';
+import { conversationsRouter } from './routes/conversations';
+import { approvalsRouter } from './routes/approvals';
+import { documentsRouter } from './routes/documents';
+import { adminRouter } from './routes/admin';
+import { webhooksRouter } from './routes/webhooks';
+import { requireApiKey, tenantOf } from './routes/auth';
+import { chargeMessageQuota, rateLimitMessages, refundMessageQuota } from './routes/rate-limit';
+import { traceRequests } from './routes/tracing';
+import { metricsRouter } from './routes/metrics';
 
-const app = express();
-app.use(express.json());
+export const app = express();
+// Behind Google's front end: req.ip is the address it appended to X-Forwarded-For
+app.set('trust proxy', 1);
+app.use(traceRequests);
+app.use(express.json({ limit: '1mb' }));
+app.use(['/messages', '/conversations'], requireApiKey);
 
 const TOPIC_REASONING = process.env.TOPIC_REASONING || 'reasoning-requested';
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/** Hash of the fields that define a message request; key reuse must match it. */
+function requestFingerprint(content: string, conversationId: string | undefined): string {
+  return createHash('sha256').update(JSON.stringify({ content, conversationId: conversationId ?? null })).digest('hex');
+}
 
 // ── POST /messages ─────────────────────────────────────────
 
-app.post('/messages', async (req: Request, res: Response): Promise<void> => {
+app.post('/messages', rateLimitMessages, async (req: Request, res: Response): Promise<void> => {
+  const tenantId = tenantOf(res);
+  const idempotencyKey = req.headers['x-idempotency-key'] as string | undefined;
+  let keyClaimed = false;
+  let quotaCharged = false;
   try {
     const { content, conversationId: existingConvId } = req.body;
     if (!content || typeof content !== 'string') {
@@ -41,87 +92,181 @@ app.post('/messages', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (existingConvId !== undefined && (typeof existingConvId !== 'string' || !existingConvId)) {
+      res.status(400).json({ error: 'Invalid "conversationId" field' });
+      return;
+    }
+    if (idempotencyKey !== undefined && (!idempotencyKey || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+      res.status(400).json({ error: `X-Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+      return;
+    }
+    if (existingConvId && !(await getConversation(existingConvId, tenantId))) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+
     // Create or reuse conversation
-    const conversationId = existingConvId || uuidv4();
+    const conversationId: string = existingConvId || uuidv4();
     const messageId = uuidv4();
 
     // Client idempotency — transactional claim to prevent TOCTOU race
-    const idempotencyKey = req.headers['x-idempotency-key'] as string | undefined;
     if (idempotencyKey) {
-      const claim = await claimIdempotencyKey(idempotencyKey, messageId);
-      if (!claim.isNew) {
-        log.info('Duplicate request detected', { handler: 'api', conversationId, idempotencyKey });
-        res.status(200).json({
-          messageId: claim.existingMessageId,
-          duplicate: true,
-          message: 'Request already processed',
-        });
-        return;
+      const claim = await claimIdempotencyKey(
+        tenantId, idempotencyKey, requestFingerprint(content, existingConvId), messageId,
+      );
+      switch (claim.outcome) {
+        case 'completed':
+          log.info('Duplicate request, replaying response', { handler: 'api', tenantId, idempotencyKey });
+          res.status(claim.response.status).set('Idempotent-Replayed', 'true').json(claim.response.body);
+          return;
+        case 'in_flight':
+          res.status(409).json({ error: 'A request with this idempotency key is still being processed' });
+          return;
+        case 'mismatch':
+          log.warn('Idempotency key reused with a different body', { handler: 'api', tenantId, idempotencyKey });
+          res.status(422).json({ error: 'Idempotency key was already used with a different request body' });
+          return;
+      }
+      keyClaimed = true;
+    }
+
+    // Only validated requests that are not replays count against the daily quota
+    if (!(await chargeMessageQuota(res))) {
+      if (keyClaimed) await releaseIdempotencyKey(tenantId, idempotencyKey!);
+      return;
+    }
+    quotaCharged = true;
+
+    const respond = async (body: Record<string, unknown>): Promise<void> => {
+      if (idempotencyKey) {
+        await completeIdempotencyKey(tenantId, idempotencyKey, { status: 201, body });
       }
+      res.status(201).json(body);
+    };
+
+    // A turn waiting for clarification takes the message as the answer to its question
+    const waiting = existingConvId ? await findTurnAwaitingClarification(conversationId) : null;
+    if (waiting) {
+      const answer: UserMessage = {
+        messageId,
+        conversationId,
+        tenantId,
+        role: 'user',
+        content,
+        turnMessageId: waiting.messageId,
+        createdAt: new Date().toISOString(),
+        idempotencyKey,
+      };
+      const event = await answerClarification(waiting, answer);
+      log.info('Answered clarification', { handler: 'api', conversationId, messageId, turnMessageId: waiting.messageId });
+      await respond({
+        messageId,
+        conversationId,
+        turnNumber: waiting.turnNumber,
+        turnMessageId: waiting.messageId,
+        eventId: event.eventId,
+        state: 'REASONING_REQUESTED',
+      });
+      return;
     }
 
     if (!existingConvId) {
-      await createConversation(conversationId);
-      log.info('Created conversation', { handler: 'api', conversationId });
+      await createConversation(conversationId, tenantId);
+      log.info('Created conversation', { handler: 'api', tenantId, conversationId });
     }
 
+    // Every message opens its own turn with its own state machine
+    const turn = await openTurn(conversationId, messageId);
+    log.info('Opened turn', { handler: 'api', conversationId, messageId, turnNumber: turn.turnNumber });
+
     // Persist message
     await saveMessage({
       messageId,
       conversationId,
+      tenantId,
+      role: 'user',
       content,
+      apiKeyId: res.locals.apiKeyId as string,
       createdAt: new Date().toISOString(),
       idempotencyKey,
     });
     log.info('Saved message', { handler: 'api', conversationId, messageId });
 
-    // Build and publish event
+    // Build event; it is published through the outbox with the transition.
+    // Only the message document keeps the original content.
     const eventId = uuidv4();
+    const payload = { content: eventContent(content, tenantId) };
     const event: AgentEvent = {
       eventId,
       eventType: 'reasoning_requested',
+      schemaVersion: EVENT_SCHEMA_VERSIONS.reasoning_requested,
+      tenantId,
       conversationId,
       messageId,
       timestamp: new Date().toISOString(),
       producer: 'api',
-      payload: { content },
+      payload,
     };
 
-    await logEvent(conversationId, eventId, 'reasoning_requested', { content });
-    await publishEvent(TOPIC_REASONING, event);
-
-    // Transition state
-    await transitionState(conversationId, 'REASONING_REQUESTED');
+    await transitionState(conversationId, messageId, 'REASONING_REQUESTED', {
+      producer: 'api',
+      events: [{ eventId, eventType: 'reasoning_requested', payload }],
+      outbox: [{ topic: TOPIC_REASONING, event }],
+    });
 
-    res.status(201).json({
+    await respond({
       messageId,
       conversationId,
+      turnNumber: turn.turnNumber,
       eventId,
       state: 'REASONING_REQUESTED',
     });
   } catch (err: any) {
-    log.error('Error processing message', { handler: 'api', error: err.message });
-    res.status(500).json({ error: err.message });
-  }
-});
-
-// ── GET /conversations/:id ─────────────────────────────────
-
-app.get('/conversations/:id', async (req: Request, res: Response): Promise<void> => {
-  try {
-    const conversationId = req.params.id as string;
-    const conversation = await getConversation(conversationId);
-    if (!conversation) {
-      res.status(404).json({ error: 'Conversation not found' });
+    if (!(err instanceof StaleTransitionError)) {
+      log.error('Error processing message', { handler: 'api', error: err.message });
+    }
+    if (quotaCharged) {
+      // A failed request is retried by the client; it must not use up the quota
+      await refundMessageQuota(res).catch((refundErr) => {
+        log.error('Failed to refund message quota', { handler: 'api', tenantId, error: refundErr.message });
+      });
+    }
+    if (keyClaimed) {
+      // Let the client's retry run again instead of waiting out the in-flight timeout
+      await releaseIdempotencyKey(tenantId, idempotencyKey!).catch((releaseErr) => {
+        log.error('Failed to release idempotency key', { handler: 'api', tenantId, error: releaseErr.message });
+      });
+    }
+    if (err instanceof StaleTransitionError) {
+      // Another message answered the question first
+      res.status(409).json({ error: 'The clarification question was answered concurrently; retry the message' });
       return;
     }
-    res.json(conversation);
-  } catch (err: any) {
-    log.error('Error fetching conversation', { handler: 'api', error: err.message });
     res.status(500).json({ error: err.message });
   }
 });
 
+// ── Conversations ──────────────────────────────────────────
+
+app.use(conversationsRouter);
+app.use(approvalsRouter);
+
+// ── Knowledge Base ─────────────────────────────────────────
+
+app.use(documentsRouter);
+
+// ── Admin ──────────────────────────────────────────────────
+
+app.use(adminRouter);
+
+// ── Metrics ────────────────────────────────────────────────
+
+app.use(metricsRouter);
+
+// ── Webhooks ───────────────────────────────────────────────
+
+app.use(webhooksRouter);
+
 // ── Health ─────────────────────────────────────────────────
 
 app.get('/health', (_req, res) => {
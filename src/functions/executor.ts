@@ -6,11 +6,29 @@
  * Responsibilities:
  * 1. Receive action_requested events via Pub/Sub trigger
  * 2. Check idempotency receipt (skip duplicates)
- * 3. Execute deterministic tool call (simulated)
- * 4. Persist action result to Firestore
- * 5. Transition state to ACTION_COMPLETED (or FAILED_EXECUTION)
+ * 3. Dispatch the tool call through the tool registry (shared/tools), after
+ *    counting it against the tenant's daily quota for the tool
+ * 4. Persist the attempt's action result and transition state in one
+ *    transaction: ACTION_COMPLETED, RETRYING or FAILED_EXECUTION
+ * 5. On ACTION_COMPLETED, request the reply (response_requested via the
+ *    outbox) from the responder
  *
- * Tool calls are DETERMINISTIC and MOCKED: same intent → same result.
+ * Retries: a failure the tool marks as retryable moves the turn to RETRYING
+ * and schedules the next attempt as a delayed action_requested event in the
+ * outbox (exponential backoff with jitter). After TOOL_MAX_ATTEMPTS, or on a
+ * permanent failure, the turn ends in FAILED_EXECUTION. Every attempt is
+ * stored in the actions subcollection.
+ *
+ * Plans: an event for a plan step (payload.stepId) runs only while that step
+ * is the plan's current one. References to earlier steps' outputs are
+ * resolved first; when the step succeeds, the next step's action_requested
+ * event is written with the transition back to ACTION_REQUESTED. A step that
+ * fails for good ends the turn in FAILED_EXECUTION and skips the rest.
+ *
+ * PII tokens in the parameters (PII_TOKENIZE=true) are replaced by the
+ * original values from the turn's messages just before the tool runs.
+ *
+ * Built-in tools are DETERMINISTIC: same intent → same result.
  * This guarantees idempotent execution even without receipt checks,
  * but receipts provide defense-in-depth.
  *
@@ -23,100 +41,120 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   AgentEvent,
   ActionResult,
+  Turn,
   claimReceipt,
   completeReceipt,
-  logEvent,
-  saveActionResult,
   findActionResultByIntentId,
+  listSuccessfulActions,
+  getConversation,
+  getIntent,
+  getTurn,
+  getMessage,
   transitionState,
   MessagePublishedData,
-  decodeEventData,
+  decodeOrQuarantine,
+  trackDeliveryFailures,
+  traceHandler,
+  executeTool,
+  getTool,
+  consumeDailyQuota,
+  ToolOutcome,
+  backoffDelayMs,
+  ReasoningIntent,
+  StepOutput,
+  PlanReferenceError,
+  resolveReferences,
+  nextStep,
+  actionRequestPayload,
+  advancePlan,
+  EVENT_SCHEMA_VERSIONS,
+  containsPiiTokens,
+  piiTokenMap,
+  detokenizePii,
   log,
 } from '../shared';
 
+const TOPIC_ACTION = process.env.TOPIC_ACTION || 'action-requested';
+const TOPIC_RESPONSE = process.env.TOPIC_RESPONSE || 'response-requested';
+/** Total executor attempts per action, including the first */
+const TOOL_MAX_ATTEMPTS = Number(process.env.TOOL_MAX_ATTEMPTS) || 3;
+const TOOL_RETRY_BASE_DELAY_MS = Number(process.env.TOOL_RETRY_BASE_DELAY_MS) || 5_000;
+const TOOL_RETRY_MAX_DELAY_MS = Number(process.env.TOOL_RETRY_MAX_DELAY_MS) || 5 * 60_000;
+/** Per-tenant daily execution quotas, e.g. "search=500,translate=200"; override the tools' dailyQuota */
+const TOOL_DAILY_QUOTAS: Record<string, number> = Object.fromEntries(
+  (process.env.TOOL_DAILY_QUOTAS || '')
+    .split(',')
+    .map((entry) => entry.split('=').map((s) => s.trim()))
+    .filter(([name, limit]) => name && Number(limit) > 0)
+    .map(([name, limit]) => [name, Number(limit)]),
+);
+
+// ── Tool Quotas ────────────────────────────────────────────
+
+/** Count one execution of `action` for the tenant; a refusal becomes a permanent QUOTA_EXCEEDED failure. */
+async function checkToolQuota(tenantId: string, action: string): Promise<ToolOutcome | null> {
+  const limit = TOOL_DAILY_QUOTAS[action] ?? getTool(action)?.dailyQuota;
+  if (!limit) return null;
+  const quota = await consumeDailyQuota(`tool:${tenantId}:${action}`, limit);
+  if (quota.allowed) return null;
+  return {
+    success: false,
+    result: {},
+    error: `Daily quota of ${limit} ${action} executions exhausted (resets in ${quota.resetSeconds}s)`,
+    errorCode: 'QUOTA_EXCEEDED',
+  };
+}
+
+// ── Plan Steps ─────────────────────────────────────────────
 
+/** Resolve references to earlier steps; an unresolvable one becomes a permanent UNRESOLVED_REFERENCE failure. */
+async function resolveStepParameters(
+  intent: ReasoningIntent,
+  parameters: Record<string, unknown>,
+): Promise<{ parameters: Record<string, unknown> } | { refusal: ToolOutcome }> {
+  const outputs: Record<string, StepOutput> = {};
+  for (const done of await listSuccessfulActions(intent.conversationId, intent.intentId)) {
+    const step = intent.steps?.find((s) => s.stepId === done.stepId);
+    if (step) outputs[step.stepId] = { action: step.action, result: done.result };
+  }
+  try {
+    return { parameters: resolveReferences(parameters, outputs) };
+  } catch (err) {
+    if (!(err instanceof PlanReferenceError)) throw err;
+    return { refusal: { success: false, result: {}, error: err.message, errorCode: 'UNRESOLVED_REFERENCE' } };
+  }
+}
 
-// ── Deterministic Tool Calls ───────────────────────────────
+// ── PII Tokens ─────────────────────────────────────────────
 
 /**
- * Simulates tool execution. Deterministic: same input → same output.
- * In production, these would call real external APIs/tools.
- *
- * Why deterministic: ensures idempotent execution regardless of
- * how many times the same event is delivered.
+ * Parameters with PII tokens (see shared/pii.ts) replaced by the values they
+ * stand for, rebuilt from the turn's message and its clarification answers.
+ * The detokenised parameters are only passed to the tool, never stored.
  */
-function executeTool(
-  action: string,
+async function detokenizeParameters(
+  tenantId: string,
+  turn: Turn | null,
+  conversationId: string,
+  messageId: string,
   parameters: Record<string, unknown>,
-): { success: boolean; result: Record<string, unknown>; error?: string } {
-  switch (action) {
-    case 'search':
-      return {
-        success: true,
-        result: {
-          tool: 'search',
-          query: parameters.query,
-          results: [
-            { title: 'Result 1', snippet: 'Relevant information found for the query.' },
-            { title: 'Result 2', snippet: 'Additional context from another source.' },
-          ],
-          totalResults: 2,
-        },
-      };
-
-    case 'calculate':
-      return {
-        success: true,
-        result: {
-          tool: 'calculate',
-          expression: parameters.expression,
-          answer: 42,
-          note: 'Mocked calculation – always returns 42 for determinism.',
-        },
-      };
-
-    case 'summarize':
-      return {
-        success: true,
-        result: {
-          tool: 'summarize',
-          inputLength: String(parameters.text || '').length,
-          summary: 'This is a mocked summary of the provided text.',
-        },
-      };
-
-    case 'translate':
-      return {
-        success: true,
-        result: {
-          tool: 'translate',
-          targetLang: parameters.targetLang || 'en',
-          translation: 'This is a mocked translation output.',
-        },
-      };
-
-    default:
-      return {
-        success: false,
-        result: {},
-        error: `Unknown action: ${action}`,
-      };
-  }
+): Promise<Record<string, unknown>> {
+  if (!containsPiiTokens(parameters)) return parameters;
+  const messageIds = [messageId, ...(turn?.clarifications ?? []).flatMap((c) => c.answerMessageId ?? [])];
+  const messages = await Promise.all(messageIds.map((id) => getMessage(conversationId, id)));
+  const tokens = piiTokenMap(messages.flatMap((m) => (m ? [m.content] : [])), tenantId);
+  return detokenizePii(parameters, tokens);
 }
 
 // ── Pub/Sub Trigger Handler ────────────────────────────────
 
-cloudEvent<MessagePublishedData>('executor', async (event: CloudEvent<MessagePublishedData>) => {
-  let agentEvent: AgentEvent;
-  try {
-    agentEvent = decodeEventData(event.data);
-  } catch (err: any) {
-    log.error('Failed to decode message', { handler: 'executor', error: err.message });
-    return;
-  }
+async function handleActionRequested(event: CloudEvent<MessagePublishedData>): Promise<void> {
+  // Messages that break the event contract are quarantined and acked
+  const agentEvent = await decodeOrQuarantine('executor', event.data, 'action_requested');
+  if (!agentEvent) return;
 
   const { eventId, conversationId, messageId, payload } = agentEvent;
-  log.info('Received event', { handler: 'executor', eventId, conversationId, messageId, eventType: agentEvent.eventType });
+  log.info('Received event', { handler: 'executor', eventId, tenantId: agentEvent.tenantId, conversationId, messageId, eventType: agentEvent.eventType });
 
   // Idempotency check via transactional receipt
   const isNew = await claimReceipt(eventId, { handler: 'executor', conversationId, messageId });
@@ -125,22 +163,63 @@ cloudEvent<MessagePublishedData>('executor', async (event: CloudEvent<MessagePub
     return;
   }
 
-  const action = payload.action as string;
-  const parameters = (payload.parameters as Record<string, unknown>) || {};
-  const intentId = payload.intentId as string;
+  // Events must stay within the tenant that owns the conversation
+  if (!(await getConversation(conversationId, agentEvent.tenantId))) {
+    log.error('Conversation not found for event tenant, skipping', {
+      handler: 'executor', eventId, tenantId: agentEvent.tenantId, conversationId,
+    });
+    await completeReceipt(eventId);
+    return;
+  }
+
+  const turn = await getTurn(conversationId, messageId);
+  if (turn && turn.state !== 'ACTION_REQUESTED' && turn.state !== 'RETRYING') {
+    log.info('Turn no longer awaiting execution, skipping', { handler: 'executor', eventId, conversationId, state: turn.state });
+    await completeReceipt(eventId);
+    return;
+  }
+
+  const { action, intentId, stepId } = payload;
+  let { parameters } = payload;
+  const attempt = payload.attempt ?? 1;
 
-  // Defense-in-depth: check if a result already exists for this intent
-  const alreadyExecuted = await findActionResultByIntentId(conversationId, intentId);
+  // Plan steps run one at a time, in order
+  const plan = turn?.plan;
+  let intent: ReasoningIntent | null = null;
+  if (stepId) {
+    intent = await getIntent(conversationId, intentId);
+    if (!intent || !plan || plan.currentStepId !== stepId) {
+      log.info('Plan step no longer current, skipping', {
+        handler: 'executor', eventId, conversationId, intentId, stepId, currentStepId: plan?.currentStepId,
+      });
+      await completeReceipt(eventId);
+      return;
+    }
+  }
+
+  // Defense-in-depth: check if a result already exists for this attempt
+  const alreadyExecuted = await findActionResultByIntentId(conversationId, intentId, attempt, stepId);
   if (alreadyExecuted) {
     log.warn('Action result already exists for intent, skipping execution', {
-      handler: 'executor', eventId, conversationId, intentId,
+      handler: 'executor', eventId, conversationId, intentId, stepId, attempt,
     });
     await completeReceipt(eventId);
     return;
   }
 
-  // Execute deterministic tool call
-  const { success, result, error } = executeTool(action, parameters);
+  let refusal: ToolOutcome | null = null;
+  if (intent) {
+    const resolved = await resolveStepParameters(intent, parameters);
+    if ('refusal' in resolved) refusal = resolved.refusal;
+    else parameters = resolved.parameters;
+  }
+
+  // Execute tool call via the registry, unless the tenant's quota for it is used up
+  refusal ??= await checkToolQuota(agentEvent.tenantId, action);
+  if (!refusal) {
+    parameters = await detokenizeParameters(agentEvent.tenantId, turn, conversationId, messageId, parameters);
+  }
+  const { success, result, error, errorCode, retryable } = refusal ?? await executeTool(action, parameters);
 
   const actionResult: ActionResult = {
     actionId: uuidv4(),
@@ -151,21 +230,135 @@ cloudEvent<MessagePublishedData>('executor', async (event: CloudEvent<MessagePub
     executedAt: new Date().toISOString(),
     success,
     error,
+    errorCode,
+    stepId,
+    attempt,
+    retryable: success ? undefined : retryable ?? false,
+  };
+  const executedEntry = {
+    eventId: uuidv4(),
+    eventType: 'action_executed',
+    payload: { sourceEventId: eventId, actionId: actionResult.actionId, stepId, attempt, success, errorCode },
   };
+  // Plan progress once this step has finished for good (not used when it is retried)
+  const planProgress = stepId && plan ? advancePlan(plan, stepId, actionResult.actionId, success) : undefined;
+  const planEntries = planProgress && planProgress.status !== 'running' ? [{
+    eventId: uuidv4(),
+    eventType: planProgress.status === 'completed' ? 'plan_completed' : 'plan_failed',
+    payload: {
+      intentId,
+      completedSteps: planProgress.completedSteps,
+      totalSteps: planProgress.totalSteps,
+      failedStepId: success ? undefined : stepId,
+    },
+  }] : [];
 
-  await saveActionResult(actionResult);
-  await logEvent(conversationId, eventId, 'action_executed', {
-    actionId: actionResult.actionId,
-    success,
-  });
+  const next = success && intent && stepId ? nextStep(intent, stepId) : undefined;
+  if (next) {
+    const nextEvent: AgentEvent = {
+      eventId: uuidv4(),
+      eventType: 'action_requested',
+      schemaVersion: EVENT_SCHEMA_VERSIONS.action_requested,
+      tenantId: agentEvent.tenantId,
+      conversationId,
+      messageId,
+      timestamp: new Date().toISOString(),
+      producer: 'executor',
+      payload: actionRequestPayload(intent!, next),
+    };
+    await transitionState(conversationId, messageId, 'ACTION_REQUESTED', {
+      producer: 'executor',
+      actionResult,
+      execution: { attempts: 0, nextAttemptAt: null },
+      plan: planProgress,
+      events: [
+        executedEntry,
+        { eventId: nextEvent.eventId, eventType: 'action_requested', payload: { intentId, stepId: next.stepId, action: next.action } },
+      ],
+      outbox: [{ topic: TOPIC_ACTION, event: nextEvent }],
+    });
+    await completeReceipt(eventId);
+    log.info('Plan step completed, next step requested', {
+      handler: 'executor', eventId, conversationId, actionId: actionResult.actionId, stepId, nextStepId: next.stepId,
+    });
+    return;
+  }
 
   if (success) {
-    await transitionState(conversationId, 'ACTION_COMPLETED');
+    const responseEvent: AgentEvent = {
+      eventId: uuidv4(),
+      eventType: 'response_requested',
+      schemaVersion: EVENT_SCHEMA_VERSIONS.response_requested,
+      tenantId: agentEvent.tenantId,
+      conversationId,
+      messageId,
+      timestamp: new Date().toISOString(),
+      producer: 'executor',
+      payload: { intentId, actionId: actionResult.actionId },
+    };
+    await transitionState(conversationId, messageId, 'ACTION_COMPLETED', {
+      producer: 'executor',
+      actionResult,
+      execution: { attempts: attempt, nextAttemptAt: null },
+      plan: planProgress,
+      events: [
+        executedEntry,
+        ...planEntries,
+        { eventId: responseEvent.eventId, eventType: 'response_requested', payload: responseEvent.payload },
+      ],
+      outbox: [{ topic: TOPIC_RESPONSE, event: responseEvent }],
+    });
     await completeReceipt(eventId);
-    log.info('Action completed', { handler: 'executor', eventId, conversationId, actionId: actionResult.actionId });
-  } else {
-    await transitionState(conversationId, 'FAILED_EXECUTION');
+    log.info('Action completed', { handler: 'executor', eventId, conversationId, actionId: actionResult.actionId, attempt });
+    return;
+  }
+
+  if (retryable && attempt < TOOL_MAX_ATTEMPTS) {
+    const nextAttemptAt = new Date(Date.now() + backoffDelayMs(attempt, TOOL_RETRY_BASE_DELAY_MS, TOOL_RETRY_MAX_DELAY_MS)).toISOString();
+    actionResult.nextAttemptAt = nextAttemptAt;
+    const retryEvent: AgentEvent = {
+      eventId: uuidv4(),
+      eventType: 'action_requested',
+      schemaVersion: EVENT_SCHEMA_VERSIONS.action_requested,
+      tenantId: agentEvent.tenantId,
+      conversationId,
+      messageId,
+      timestamp: new Date().toISOString(),
+      producer: 'executor',
+      payload: { ...payload, attempt: attempt + 1 },
+    };
+
+    await transitionState(conversationId, messageId, 'RETRYING', {
+      producer: 'executor',
+      actionResult,
+      execution: { attempts: attempt, nextAttemptAt },
+      events: [
+        executedEntry,
+        { eventId: retryEvent.eventId, eventType: 'action_retry_scheduled', payload: { attempt: attempt + 1, nextAttemptAt, errorCode } },
+      ],
+      outbox: [{ topic: TOPIC_ACTION, event: retryEvent, availableAt: nextAttemptAt }],
+    });
     await completeReceipt(eventId);
-    log.error('Action failed', { handler: 'executor', eventId, conversationId, actionId: actionResult.actionId, error });
+    log.warn('Action failed, retry scheduled', {
+      handler: 'executor', eventId, conversationId, actionId: actionResult.actionId, attempt, nextAttemptAt, error, errorCode,
+    });
+    return;
   }
-});
+
+  await transitionState(conversationId, messageId, 'FAILED_EXECUTION', {
+    producer: 'executor',
+    actionResult,
+    execution: { attempts: attempt, nextAttemptAt: null },
+    plan: planProgress,
+    events: [executedEntry, ...planEntries],
+  });
+  await completeReceipt(eventId);
+  log.error(retryable ? 'Action failed, retries exhausted' : 'Action failed', {
+    handler: 'executor', eventId, conversationId, actionId: actionResult.actionId, attempt, error, errorCode,
+  });
+}
+
+/** Each delivery is a span in the event's trace; errors that nack the message are recorded for dead-letter inspection */
+export const executorHandler = traceHandler('executor', trackDeliveryFailures('executor', handleActionRequested));
+
+cloudEvent<MessagePublishedData>('executor', executorHandler);
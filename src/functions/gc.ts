@@ -0,0 +1,74 @@
+/**
+ * Garbage Collection Function – Cloud Functions 2nd Gen Pub/Sub Trigger
+ *
+ * Triggered by: gc-tick topic (Cloud Scheduler, hourly)
+ *
+ * Deletes receipts, idempotency keys, outbox entries and other bookkeeping
+ * documents past their retention, and idle conversations with their
+ * subcollections (see shared/gc.ts). A run stops after GC_TIME_BUDGET_MS and
+ * the next tick resumes from the saved checkpoints.
+ *
+ * The tick message may carry JSON options, e.g. {"dryRun": true} or
+ * {"collections": ["receipts"]}. A body that does not match them is logged
+ * and turns the run into a dry run over all collections, so a mistyped
+ * option never deletes anything. GC_DRY_RUN=true makes every run a dry run.
+ * Errors are logged and the tick is acked – the next tick retries.
+ */
+
+import { cloudEvent } from '@google-cloud/functions-framework';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { z } from 'zod';
+import { MessagePublishedData, GcOptions, GC_COLLECTIONS, runGarbageCollection, traceHandler, log } from '../shared';
+
+const TickOptionsSchema = z.object({
+  dryRun: z.boolean().optional(),
+  collections: z.array(z.string().refine((c) => GC_COLLECTIONS.includes(c), {
+    message: `must be one of: ${GC_COLLECTIONS.join(', ')}`,
+  })).optional(),
+}).strict();
+
+/** Options from the tick body; a body that is not valid options yields a dry run. */
+function tickOptions(data: MessagePublishedData | undefined): GcOptions {
+  const raw = data?.message?.data;
+  if (!raw) return {};
+  const body = Buffer.from(raw, 'base64').toString('utf-8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    log.warn('GC tick body is not JSON; running a dry run', { handler: 'gc', body: body.slice(0, 200) });
+    return { dryRun: true };
+  }
+  const result = TickOptionsSchema.safeParse(parsed);
+  if (!result.success) {
+    log.warn('Invalid GC tick options; running a dry run', {
+      handler: 'gc',
+      issues: result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`),
+    });
+    return { dryRun: true };
+  }
+  return result.data;
+}
+
+// ── Pub/Sub Trigger Handler ────────────────────────────────
+
+export async function gcHandler(event: CloudEvent<MessagePublishedData>): Promise<void> {
+  const options = tickOptions(event.data);
+  if (process.env.GC_DRY_RUN === 'true') options.dryRun = true;
+
+  try {
+    const report = await runGarbageCollection(options);
+    log.info(report.dryRun ? 'GC dry run finished' : 'GC run finished', {
+      handler: 'gc',
+      runId: report.runId,
+      dryRun: report.dryRun,
+      collections: report.collections.map(({ collection, matched, deleted, complete }) => ({
+        collection, matched, deleted, complete,
+      })),
+    });
+  } catch (err: any) {
+    log.error('GC run failed', { handler: 'gc', error: err.message });
+  }
+}
+
+cloudEvent<MessagePublishedData>('gc', traceHandler('gc', gcHandler));
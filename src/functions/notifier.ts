@@ -0,0 +1,65 @@
+/**
+ * Notifier Function – Cloud Functions 2nd Gen Pub/Sub Trigger
+ *
+ * Triggered by: state-changed topic
+ *
+ * Responsibilities:
+ * 1. Receive state_changed events (one per transitionState call) and
+ *    webhook_delivery_requested events (scheduled webhook retries)
+ * 2. Check idempotency receipt (skip duplicates)
+ * 3. Fan a state change out to every matching webhook subscription, or
+ *    re-attempt a single failed delivery
+ *
+ * Delivery failures are recorded in the webhook's delivery log and retried
+ * through the outbox; they never nack the message.
+ */
+
+import { cloudEvent } from '@google-cloud/functions-framework';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import {
+  claimReceipt,
+  completeReceipt,
+  MessagePublishedData,
+  decodeOrQuarantine,
+  trackDeliveryFailures,
+  traceHandler,
+  dispatchStateChange,
+  attemptDelivery,
+  log,
+} from '../shared';
+
+// ── Pub/Sub Trigger Handler ────────────────────────────────
+
+async function handleNotification(event: CloudEvent<MessagePublishedData>): Promise<void> {
+  // Messages that break the event contract are quarantined and acked
+  const agentEvent = await decodeOrQuarantine('notifier', event.data, 'state_changed', 'webhook_delivery_requested');
+  if (!agentEvent) return;
+
+  const { eventId, conversationId, messageId } = agentEvent;
+
+  const isNew = await claimReceipt(eventId, { handler: 'notifier', conversationId, messageId });
+  if (!isNew) {
+    log.info('Duplicate event, skipping', { handler: 'notifier', eventId });
+    return;
+  }
+
+  switch (agentEvent.eventType) {
+    case 'state_changed': {
+      const matched = await dispatchStateChange(agentEvent);
+      if (matched > 0) {
+        log.info('State change dispatched to webhooks', { handler: 'notifier', eventId, conversationId, webhooks: matched });
+      }
+      break;
+    }
+    case 'webhook_delivery_requested':
+      await attemptDelivery(agentEvent.payload.webhookId, agentEvent.payload.deliveryId);
+      break;
+  }
+
+  await completeReceipt(eventId);
+}
+
+/** Each delivery is a span in the event's trace; errors that nack the message are recorded for dead-letter inspection */
+export const notifierHandler = traceHandler('notifier', trackDeliveryFailures('notifier', handleNotification));
+
+cloudEvent<MessagePublishedData>('notifier', notifierHandler);
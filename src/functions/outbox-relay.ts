@@ -0,0 +1,28 @@
+/**
+ * Outbox Relay Function – Cloud Functions 2nd Gen Pub/Sub Trigger
+ *
+ * Triggered by: outbox-relay-tick topic (Cloud Scheduler, every minute)
+ *
+ * Events are written to the outbox in the same transaction as the state
+ * transition that produced them and normally published right after commit.
+ * If the producer crashed in between, the entry stays pending; this function
+ * re-publishes such stranded entries (see shared/outbox.ts).
+ *
+ * The tick message carries no data. Failures are recorded on the outbox
+ * entries and retried on the next tick, so the function always acks.
+ */
+
+import { cloudEvent } from '@google-cloud/functions-framework';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { MessagePublishedData, sweepOutbox, traceHandler, log } from '../shared';
+
+// ── Pub/Sub Trigger Handler ────────────────────────────────
+
+export async function outboxRelayHandler(_event: CloudEvent<MessagePublishedData>): Promise<void> {
+  const { published, failed } = await sweepOutbox();
+  if (published || failed) {
+    log.info('Outbox sweep finished', { handler: 'outboxRelay', published, failed });
+  }
+}
+
+cloudEvent<MessagePublishedData>('outboxRelay', traceHandler('outboxRelay', outboxRelayHandler));
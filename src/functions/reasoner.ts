@@ -6,14 +6,27 @@
  * Responsibilities:
  * 1. Receive reasoning_requested events via Pub/Sub trigger
  * 2. Check idempotency receipt (skip duplicates)
- * 3. Simulate mock LLM reasoning → produce structured intent JSON
+ * 3. Ask the configured reasoning provider for a structured intent (one
+ *    action, or a multi-step plan)
  * 4. Validate intent against schema
- * 5. If valid → publish action_requested event, transition to ACTION_REQUESTED
+ *    If the provider asks a clarification question instead → store it as an
+ *    assistant message and move to NEEDS_CLARIFICATION; the user's answer
+ *    brings the turn back here (see shared/clarifications.ts)
+ * 5. If valid → transition to ACTION_REQUESTED, writing the intent and the
+ *    action_requested event (via the outbox) in the same transaction; for a
+ *    plan the event requests its first step and the turn records the plan's
+ *    progress (the executor requests the following steps)
+ *    If an approval rule matches (shared/approvals.ts) → AWAITING_APPROVAL
+ *    instead, with a pending approval and no action_requested event
  * 6. If invalid → store rejected intent, transition to FAILED_VALIDATION
  *
- * Reasoning is MOCKED: a deterministic function that maps message content
- * to a structured intent. This keeps the system testable and predictable.
- * Case study explicitly states no real LLM integration is required.
+ * Reasoning is pluggable (see shared/reasoning.ts). The default provider is
+ * the deterministic keyword mock, which keeps the system testable and
+ * predictable; REASONING_PROVIDER=openai switches to a chat-completions API.
+ *
+ * Provider failures are split in two: transient ones (timeouts, 429/5xx)
+ * release the receipt and nack so Pub/Sub retries; permanent ones (malformed
+ * model output, 4xx) are stored as an invalid intent → FAILED_VALIDATION.
  *
  * Ack/Nack: returning normally = ack, throwing = nack (Pub/Sub retries).
  */
@@ -25,100 +38,42 @@ import {
   AgentEvent,
   claimReceipt,
   completeReceipt,
-  logEvent,
-  saveIntent,
+  releaseReceipt,
+  getConversation,
+  getTurn,
   transitionState,
-  publishEvent,
   validateIntent,
+  validateClarification,
+  ValidationResult,
   ReasoningIntent,
+  approvalReasons,
+  requestApproval,
+  CLARIFICATION_MAX_QUESTIONS,
+  clarificationContext,
+  askClarification,
+  actionRequestPayload,
+  startPlan,
   MessagePublishedData,
-  decodeEventData,
+  decodeOrQuarantine,
+  trackDeliveryFailures,
+  traceHandler,
+  getReasoningProvider,
+  ReasoningProviderError,
+  EVENT_SCHEMA_VERSIONS,
   log,
 } from '../shared';
 
 const TOPIC_ACTION = process.env.TOPIC_ACTION || 'action-requested';
 
-// ── Mock Reasoning ─────────────────────────────────────────
-
-/**
- * Simulates LLM reasoning. Deterministic: same input → same output.
- * In production this would call an actual LLM API.
- *
- * The mock demonstrates the contract between reasoning and execution:
- * content keywords → structured intent with action + parameters.
- */
-function mockReasoning(
-  content: string,
-  conversationId: string,
-  messageId: string,
-): Record<string, unknown> {
-  const lower = content.toLowerCase();
-
-  if (lower.includes('search') || lower.includes('find')) {
-    return {
-      intentId: uuidv4(),
-      conversationId,
-      messageId,
-      action: 'search',
-      parameters: { query: content },
-      confidence: 0.92,
-    };
-  }
-  if (lower.includes('calculate') || lower.includes('compute') || lower.includes('math')) {
-    return {
-      intentId: uuidv4(),
-      conversationId,
-      messageId,
-      action: 'calculate',
-      parameters: { expression: content },
-      confidence: 0.88,
-    };
-  }
-  if (lower.includes('summarize') || lower.includes('summary')) {
-    return {
-      intentId: uuidv4(),
-      conversationId,
-      messageId,
-      action: 'summarize',
-      parameters: { text: content },
-      confidence: 0.85,
-    };
-  }
-  if (lower.includes('translate')) {
-    return {
-      intentId: uuidv4(),
-      conversationId,
-      messageId,
-      action: 'translate',
-      parameters: { text: content, targetLang: 'en' },
-      confidence: 0.90,
-    };
-  }
-
-  // Default: still produces a valid intent (search fallback)
-  return {
-    intentId: uuidv4(),
-    conversationId,
-    messageId,
-    action: 'search',
-    parameters: { query: content },
-    confidence: 0.60,
-  };
-}
-
 // ── Pub/Sub Trigger Handler ────────────────────────────────
 
-cloudEvent<MessagePublishedData>('reasoner', async (event: CloudEvent<MessagePublishedData>) => {
-  let agentEvent: AgentEvent;
-  try {
-    agentEvent = decodeEventData(event.data);
-  } catch (err: any) {
-    log.error('Failed to decode message', { handler: 'reasoner', error: err.message });
-    return;
-  }
+async function handleReasoningRequested(event: CloudEvent<MessagePublishedData>): Promise<void> {
+  // Messages that break the event contract are quarantined and acked
+  const agentEvent = await decodeOrQuarantine('reasoner', event.data, 'reasoning_requested');
+  if (!agentEvent) return;
 
   const { eventId, conversationId, messageId, payload } = agentEvent;
-  log.info('Received event', { handler: 'reasoner', eventId, conversationId, messageId, eventType: agentEvent.eventType });
+  log.info('Received event', { handler: 'reasoner', eventId, tenantId: agentEvent.tenantId, conversationId, messageId, eventType: agentEvent.eventType });
 
   // Idempotency check via transactional receipt
   const isNew = await claimReceipt(eventId, { handler: 'reasoner', conversationId, messageId });
@@ -127,61 +82,171 @@ cloudEvent<MessagePublishedData>('reasoner', async (event: CloudEvent<MessagePub
     return;
   }
 
-  // Simulate reasoning
-  const content = (payload.content as string) || '';
-  const rawIntent = mockReasoning(content, conversationId, messageId);
+  // Events must stay within the tenant that owns the conversation
+  if (!(await getConversation(conversationId, agentEvent.tenantId))) {
+    log.error('Conversation not found for event tenant, skipping', {
+      handler: 'reasoner', eventId, tenantId: agentEvent.tenantId, conversationId,
+    });
+    await completeReceipt(eventId);
+    return;
+  }
+
+  // A reclaimed receipt may belong to a run that committed but crashed before
+  // completing it – the turn has then already moved on.
+  const turn = await getTurn(conversationId, messageId);
+  if (turn && turn.state !== 'REASONING_REQUESTED') {
+    log.info('Turn already past reasoning, skipping', { handler: 'reasoner', eventId, conversationId, state: turn.state });
+    await completeReceipt(eventId);
+    return;
+  }
+
+  // Reason about the message
+  const { content } = payload;
+  const provider = getReasoningProvider();
+  let rawIntent: Record<string, unknown>;
+  let validation: ValidationResult;
+  try {
+    rawIntent = await provider.reason({ content, conversationId, messageId, clarifications: clarificationContext(turn) });
+    // Validate intent schema before execution
+    validation = validateIntent(rawIntent);
+  } catch (err: any) {
+    if (!(err instanceof ReasoningProviderError) || err.retryable) {
+      log.warn('Reasoning failed transiently, releasing receipt for retry', {
+        handler: 'reasoner', eventId, conversationId, provider: provider.name, error: err.message,
+      });
+      await releaseReceipt(eventId);
+      throw err;
+    }
+    log.warn('Reasoning provider returned unusable output', {
+      handler: 'reasoner', eventId, conversationId, provider: provider.name, kind: err.kind, error: err.message,
+    });
+    rawIntent = { intentId: uuidv4() };
+    validation = { valid: false, error: `${err.kind}: ${err.message}` };
+  }
 
-  // Validate intent schema before execution
-  const validation = validateIntent(rawIntent);
+  // The provider could not tell what the user wants and asks instead
+  if (rawIntent.clarification !== undefined) {
+    const asked = turn?.clarifications?.length ?? 0;
+    const question = validateClarification(rawIntent.clarification);
+    if (question.valid && asked < CLARIFICATION_MAX_QUESTIONS) {
+      const { message, clarification, entry } = askClarification({ conversationId, messageId }, agentEvent.tenantId, question.data!);
+      await transitionState(conversationId, messageId, 'NEEDS_CLARIFICATION', {
+        producer: 'reasoner',
+        clarification,
+        messages: [message],
+        events: [
+          {
+            eventId: uuidv4(),
+            eventType: 'reasoning_completed',
+            payload: { sourceEventId: eventId, clarification: true, provider: provider.name },
+          },
+          entry,
+        ],
+      });
+      await completeReceipt(eventId);
+      log.info('Asked for clarification', { handler: 'reasoner', eventId, conversationId, messageId, questions: asked + 1 });
+      return;
+    }
+    validation = {
+      valid: false,
+      error: question.valid
+        ? `Intent still unclear after ${asked} clarification question(s)`
+        : `clarification: ${question.error}`,
+    };
+  }
 
   const intentDoc: ReasoningIntent = {
     intentId: (rawIntent.intentId as string) || uuidv4(),
     conversationId,
     messageId,
-    action: (rawIntent.action as string) || 'unknown',
-    parameters: (rawIntent.parameters as Record<string, unknown>) || {},
+    // A plan repeats its first step's action, as its parameters do
+    action: validation.data?.action ?? ((rawIntent.action as string) || 'unknown'),
+    parameters: validation.data?.parameters ?? ((rawIntent.parameters as Record<string, unknown>) || {}),
     confidence: (rawIntent.confidence as number) || 0,
+    steps: validation.data?.steps,
     createdAt: new Date().toISOString(),
     valid: validation.valid,
     validationError: validation.error,
   };
 
-  await saveIntent(intentDoc);
-  await logEvent(conversationId, eventId, 'reasoning_completed', {
-    intentId: intentDoc.intentId,
-    valid: validation.valid,
-  });
+  const completedEntry = {
+    eventId: uuidv4(),
+    eventType: 'reasoning_completed',
+    payload: {
+      sourceEventId: eventId,
+      intentId: intentDoc.intentId,
+      valid: validation.valid,
+      provider: provider.name,
+    },
+  };
 
   if (!validation.valid) {
     log.warn('Intent validation failed', { handler: 'reasoner', eventId, conversationId, intentId: intentDoc.intentId, error: validation.error });
-    await transitionState(conversationId, 'FAILED_VALIDATION');
+    await transitionState(conversationId, messageId, 'FAILED_VALIDATION', {
+      producer: 'reasoner',
+      intent: intentDoc,
+      events: [completedEntry],
+    });
     await completeReceipt(eventId);
     return;
   }
 
-  // Transition to INTENT_VALIDATED first
-  await transitionState(conversationId, 'INTENT_VALIDATED');
+  // Intents matching an approval rule wait for a human decision
+  const reasons = approvalReasons(intentDoc);
+  if (reasons.length) {
+    const { approval, entry } = requestApproval(intentDoc, reasons);
+    await transitionState(conversationId, messageId, ['INTENT_VALIDATED', 'AWAITING_APPROVAL'], {
+      producer: 'reasoner',
+      intent: intentDoc,
+      approval,
+      events: [completedEntry, entry],
+    });
+    await completeReceipt(eventId);
+    log.info('Intent awaiting approval', { handler: 'reasoner', eventId, conversationId, intentId: intentDoc.intentId, reasons });
+    return;
+  }
 
-  // Publish action_requested event for executor
+  // action_requested event for the executor, published through the outbox
   const actionEventId = uuidv4();
   const actionEvent: AgentEvent = {
     eventId: actionEventId,
     eventType: 'action_requested',
+    schemaVersion: EVENT_SCHEMA_VERSIONS.action_requested,
+    tenantId: agentEvent.tenantId,
     conversationId,
     messageId,
     timestamp: new Date().toISOString(),
     producer: 'reasoner',
-    payload: {
-      intentId: intentDoc.intentId,
-      action: intentDoc.action,
-      parameters: intentDoc.parameters,
-      confidence: intentDoc.confidence,
-    },
+    payload: actionRequestPayload(intentDoc, intentDoc.steps?.[0]),
   };
 
-  await publishEvent(TOPIC_ACTION, actionEvent);
-  await transitionState(conversationId, 'ACTION_REQUESTED');
+  // INTENT_VALIDATED → ACTION_REQUESTED in one transaction with the intent and outbox entry
+  await transitionState(conversationId, messageId, ['INTENT_VALIDATED', 'ACTION_REQUESTED'], {
+    producer: 'reasoner',
+    intent: intentDoc,
+    plan: intentDoc.steps ? startPlan(intentDoc) : undefined,
+    events: [
+      completedEntry,
+      {
+        eventId: actionEventId,
+        eventType: 'action_requested',
+        payload: {
+          intentId: intentDoc.intentId,
+          stepId: intentDoc.steps?.[0].stepId,
+          action: intentDoc.steps?.[0].action ?? intentDoc.action,
+        },
+      },
+    ],
+    outbox: [{ topic: TOPIC_ACTION, event: actionEvent }],
+  });
   await completeReceipt(eventId);
 
-  log.info('Published action_requested', { handler: 'reasoner', eventId: actionEventId, conversationId, intentId: intentDoc.intentId });
-});
+  log.info('Requested action', {
+    handler: 'reasoner', eventId: actionEventId, conversationId, intentId: intentDoc.intentId, steps: intentDoc.steps?.length,
+  });
+}
+
+/** Each delivery is a span in the event's trace; errors that nack the message are recorded for dead-letter inspection */
+export const reasonerHandler = traceHandler('reasoner', trackDeliveryFailures('reasoner', handleReasoningRequested));
+
+cloudEvent<MessagePublishedData>('reasoner', reasonerHandler);
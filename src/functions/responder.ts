@@ -0,0 +1,117 @@
+/**
+ * Responder Function – Cloud Functions 2nd Gen Pub/Sub Trigger
+ *
+ * Triggered by: response-requested topic
+ *
+ * Responsibilities:
+ * 1. Receive response_requested events (written by the executor when a
+ *    turn reaches ACTION_COMPLETED)
+ * 2. Check idempotency receipt (skip duplicates)
+ * 3. Compose the reply from the turn's action results – with the tools'
+ *    templates or the reasoning provider (see shared/responses.ts)
+ * 4. Store the reply as an assistant message and transition
+ *    ACTION_COMPLETED → RESPONDED in one transaction
+ *
+ * Composition never fails the turn: a provider error falls back to the
+ * templates. Storage errors nack the message so Pub/Sub retries.
+ *
+ * Ack/Nack: returning normally = ack, throwing = nack (Pub/Sub retries).
+ */
+
+import { cloudEvent } from '@google-cloud/functions-framework';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  UserMessage,
+  claimReceipt,
+  completeReceipt,
+  getConversation,
+  getTurn,
+  getMessage,
+  getIntent,
+  listSuccessfulActions,
+  transitionState,
+  composeReply,
+  MessagePublishedData,
+  decodeOrQuarantine,
+  trackDeliveryFailures,
+  traceHandler,
+  log,
+} from '../shared';
+
+// ── Pub/Sub Trigger Handler ────────────────────────────────
+
+async function handleResponseRequested(event: CloudEvent<MessagePublishedData>): Promise<void> {
+  // Messages that break the event contract are quarantined and acked
+  const agentEvent = await decodeOrQuarantine('responder', event.data, 'response_requested');
+  if (!agentEvent) return;
+
+  const { eventId, conversationId, messageId, payload } = agentEvent;
+  log.info('Received event', { handler: 'responder', eventId, tenantId: agentEvent.tenantId, conversationId, messageId, eventType: agentEvent.eventType });
+
+  // Idempotency check via transactional receipt
+  const isNew = await claimReceipt(eventId, { handler: 'responder', conversationId, messageId });
+  if (!isNew) {
+    log.info('Duplicate event, skipping', { handler: 'responder', eventId });
+    return;
+  }
+
+  // Events must stay within the tenant that owns the conversation
+  if (!(await getConversation(conversationId, agentEvent.tenantId))) {
+    log.error('Conversation not found for event tenant, skipping', {
+      handler: 'responder', eventId, tenantId: agentEvent.tenantId, conversationId,
+    });
+    await completeReceipt(eventId);
+    return;
+  }
+
+  const turn = await getTurn(conversationId, messageId);
+  if (!turn || turn.state !== 'ACTION_COMPLETED') {
+    log.info('Turn not awaiting a response, skipping', { handler: 'responder', eventId, conversationId, state: turn?.state });
+    await completeReceipt(eventId);
+    return;
+  }
+
+  const { intentId } = payload;
+  const [intent, message, results] = await Promise.all([
+    getIntent(conversationId, intentId),
+    getMessage(conversationId, messageId),
+    listSuccessfulActions(conversationId, intentId),
+  ]);
+  if (!intent) {
+    log.error('Intent for response not found, skipping', { handler: 'responder', eventId, conversationId, intentId });
+    await completeReceipt(eventId);
+    return;
+  }
+
+  const { content, composedBy } = await composeReply(message?.content ?? '', agentEvent.tenantId, intent, results);
+  const reply: UserMessage = {
+    messageId: uuidv4(),
+    conversationId,
+    tenantId: agentEvent.tenantId,
+    role: 'assistant',
+    content,
+    composedBy,
+    turnMessageId: messageId,
+    createdAt: new Date().toISOString(),
+  };
+
+  await transitionState(conversationId, messageId, 'RESPONDED', {
+    producer: 'responder',
+    expectedState: 'ACTION_COMPLETED',
+    reply,
+    events: [{
+      eventId: uuidv4(),
+      eventType: 'response_composed',
+      payload: { sourceEventId: eventId, replyMessageId: reply.messageId, composedBy },
+    }],
+  });
+  await completeReceipt(eventId);
+
+  log.info('Responded', { handler: 'responder', eventId, conversationId, messageId, replyMessageId: reply.messageId, composedBy });
+}
+
+/** Each delivery is a span in the event's trace; errors that nack the message are recorded for dead-letter inspection */
+export const responderHandler = traceHandler('responder', trackDeliveryFailures('responder', handleResponseRequested));
+
+cloudEvent<MessagePublishedData>('responder', responderHandler);
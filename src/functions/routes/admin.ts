@@ -0,0 +1,260 @@
+/**
+ * Admin routes (mounted on the api function).
+ *
+ * GET  /admin/dead-letters/:queue         – dead-lettered messages with decoded AgentEvent,
+ *                                           delivery attempts and last error
+ * POST /admin/dead-letters/:queue/replay  – re-publish selected messages under new eventIds
+ * POST /admin/dead-letters/:queue/purge   – drop selected (or all) messages
+ * GET  /admin/quarantine                  – messages consumers rejected as invalid events,
+ *                                           newest first, optionally ?handler=
+ * POST   /admin/api-keys                  – issue a tenant API key (returned once),
+ *                                           optionally with "piiAccess": true
+ *                                           and/or "approver": true
+ * GET    /admin/api-keys                  – list keys, optionally ?tenantId=
+ * DELETE /admin/api-keys/:keyId           – revoke a key
+ * POST   /admin/gc                        – run garbage collection now
+ *                                           (dry run unless "dryRun": false)
+ *
+ * `:queue` is one of DEAD_LETTER_QUEUES (reasoning, action, response,
+ * state-changed). Every route requires `Authorization: Bearer <ADMIN_TOKEN>`;
+ * without ADMIN_TOKEN configured the admin API is disabled.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import {
+  DEAD_LETTER_QUEUES,
+  listDeadLetterEvents,
+  replayDeadLetters,
+  purgeDeadLetters,
+  listQuarantinedEvents,
+  TENANT_ID_PATTERN,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+  GC_COLLECTIONS,
+  runGarbageCollection,
+  log,
+} from '../../shared';
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+const MAX_SELECTED_MESSAGES = 100;
+const MAX_KEY_NAME_LENGTH = 100;
+
+export const adminRouter = Router();
+
+function tokenMatches(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    res.status(403).json({ error: 'Admin API is disabled (ADMIN_TOKEN not set)' });
+    return;
+  }
+  const header = req.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  if (!token || !tokenMatches(token, adminToken)) {
+    res.status(401).json({ error: 'Invalid or missing admin token' });
+    return;
+  }
+  next();
+}
+
+adminRouter.use('/admin', requireAdmin);
+
+/** Resolve `:queue` to its source topic, or answer 404. */
+function queueTopic(req: Request, res: Response): string | undefined {
+  const topic = DEAD_LETTER_QUEUES[req.params.queue as string];
+  if (!topic) {
+    res.status(404).json({ error: `Unknown queue (expected one of: ${Object.keys(DEAD_LETTER_QUEUES).join(', ')})` });
+  }
+  return topic;
+}
+
+function isMessageIdList(value: unknown): value is string[] {
+  return Array.isArray(value)
+    && value.length > 0
+    && value.length <= MAX_SELECTED_MESSAGES
+    && value.every((id) => typeof id === 'string' && id.length > 0);
+}
+
+// ── GET /admin/dead-letters/:queue ─────────────────────────
+
+adminRouter.get('/admin/dead-letters/:queue', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const topic = queueTopic(req, res);
+    if (!topic) return;
+
+    const limit = req.query.limit === undefined ? DEFAULT_LIST_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      res.status(400).json({ error: `"limit" must be an integer between 1 and ${MAX_LIST_LIMIT}` });
+      return;
+    }
+
+    const messages = await listDeadLetterEvents(topic, limit);
+    res.json({ queue: req.params.queue, topic, messages });
+  } catch (err: any) {
+    log.error('Error listing dead letters', { handler: 'admin', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── POST /admin/dead-letters/:queue/replay ─────────────────
+
+adminRouter.post('/admin/dead-letters/:queue/replay', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const topic = queueTopic(req, res);
+    if (!topic) return;
+
+    const { messageIds } = req.body ?? {};
+    if (!isMessageIdList(messageIds)) {
+      res.status(400).json({ error: `"messageIds" must be a non-empty array of at most ${MAX_SELECTED_MESSAGES} ids` });
+      return;
+    }
+
+    const result = await replayDeadLetters(topic, messageIds);
+    res.json(result);
+  } catch (err: any) {
+    log.error('Error replaying dead letters', { handler: 'admin', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── POST /admin/dead-letters/:queue/purge ──────────────────
+
+adminRouter.post('/admin/dead-letters/:queue/purge', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const topic = queueTopic(req, res);
+    if (!topic) return;
+
+    // Purging everything must be explicit: { "all": true }
+    const { messageIds, all } = req.body ?? {};
+    if (all !== true && !isMessageIdList(messageIds)) {
+      res.status(400).json({ error: 'Provide "messageIds" or "all": true' });
+      return;
+    }
+
+    const purged = await purgeDeadLetters(topic, all === true ? undefined : messageIds);
+    res.json({ purged });
+  } catch (err: any) {
+    log.error('Error purging dead letters', { handler: 'admin', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── GET /admin/quarantine ──────────────────────────────────
+
+adminRouter.get('/admin/quarantine', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = req.query.limit === undefined ? DEFAULT_LIST_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      res.status(400).json({ error: `"limit" must be an integer between 1 and ${MAX_LIST_LIMIT}` });
+      return;
+    }
+    const { handler } = req.query;
+    if (handler !== undefined && typeof handler !== 'string') {
+      res.status(400).json({ error: 'Invalid "handler"' });
+      return;
+    }
+
+    res.json({ events: await listQuarantinedEvents(limit, handler) });
+  } catch (err: any) {
+    log.error('Error listing quarantined events', { handler: 'admin', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── POST /admin/api-keys ───────────────────────────────────
+
+adminRouter.post('/admin/api-keys', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { tenantId, name, piiAccess, approver } = req.body ?? {};
+    if (typeof tenantId !== 'string' || !TENANT_ID_PATTERN.test(tenantId)) {
+      res.status(400).json({ error: '"tenantId" must be 1-64 letters, digits, "_" or "-"' });
+      return;
+    }
+    if (name !== undefined && (typeof name !== 'string' || name.length > MAX_KEY_NAME_LENGTH)) {
+      res.status(400).json({ error: `"name" must be a string of at most ${MAX_KEY_NAME_LENGTH} characters` });
+      return;
+    }
+    if (piiAccess !== undefined && typeof piiAccess !== 'boolean') {
+      res.status(400).json({ error: '"piiAccess" must be a boolean' });
+      return;
+    }
+    if (approver !== undefined && typeof approver !== 'boolean') {
+      res.status(400).json({ error: '"approver" must be a boolean' });
+      return;
+    }
+
+    const { apiKey, key } = await issueApiKey(tenantId, name || '', piiAccess ?? false, approver ?? false);
+    log.info('Issued API key', {
+      handler: 'admin', tenantId, keyId: apiKey.keyId, piiAccess: apiKey.piiAccess, approver: apiKey.approver,
+    });
+    res.status(201).json({ ...apiKey, key });
+  } catch (err: any) {
+    log.error('Error issuing API key', { handler: 'admin', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── GET /admin/api-keys ────────────────────────────────────
+
+adminRouter.get('/admin/api-keys', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { tenantId } = req.query;
+    if (tenantId !== undefined && (typeof tenantId !== 'string' || !TENANT_ID_PATTERN.test(tenantId))) {
+      res.status(400).json({ error: 'Invalid "tenantId"' });
+      return;
+    }
+    res.json({ apiKeys: await listApiKeys(tenantId) });
+  } catch (err: any) {
+    log.error('Error listing API keys', { handler: 'admin', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── DELETE /admin/api-keys/:keyId ──────────────────────────
+
+adminRouter.delete('/admin/api-keys/:keyId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const apiKey = await revokeApiKey(req.params.keyId as string);
+    if (!apiKey) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+    log.warn('Revoked API key', { handler: 'admin', tenantId: apiKey.tenantId, keyId: apiKey.keyId });
+    res.json(apiKey);
+  } catch (err: any) {
+    log.error('Error revoking API key', { handler: 'admin', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── POST /admin/gc ─────────────────────────────────────────
+
+adminRouter.post('/admin/gc', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { dryRun = true, collections } = req.body ?? {};
+    if (typeof dryRun !== 'boolean') {
+      res.status(400).json({ error: '"dryRun" must be a boolean' });
+      return;
+    }
+    if (collections !== undefined
+      && (!Array.isArray(collections) || !collections.every((c) => GC_COLLECTIONS.includes(c)))) {
+      res.status(400).json({ error: `"collections" must be an array of: ${GC_COLLECTIONS.join(', ')}` });
+      return;
+    }
+
+    const report = await runGarbageCollection({ dryRun, collections });
+    if (!dryRun) log.warn('GC run triggered by admin', { handler: 'admin', runId: report.runId });
+    res.json(report);
+  } catch (err: any) {
+    log.error('Error running garbage collection', { handler: 'admin', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
@@ -0,0 +1,125 @@
+/**
+ * Approval routes (mounted on the api function).
+ *
+ * POST /conversations/:id/approve  – approve a turn awaiting approval, optionally
+ *                                    with edited parameters
+ * POST /conversations/:id/reject   – reject it; the turn ends in REJECTED
+ *
+ * Body: { messageId?, actor?, comment?, parameters? | steps? }. Without
+ * messageId the conversation's only pending approval is decided. `parameters`
+ * replaces a single action's parameters, `steps` maps step ids of a plan to
+ * new parameters; both are validated like the reasoner's output. Decisions
+ * are recorded with the caller's API key and `actor` (see shared/approvals.ts).
+ *
+ * Routes require a tenant API key issued as `approver` (see auth.ts), other
+ * than the key that posted the message; conversations of other tenants
+ * answer 404. Pending approvals are listed by
+ * GET /conversations/:id/approvals.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  ApprovalError,
+  ApprovalErrorKind,
+  StaleTransitionError,
+  decideApproval,
+  getConversation,
+  log,
+} from '../../shared';
+import { tenantOf, piiView } from './auth';
+
+const MAX_TEXT_LENGTH = 500;
+
+const ERROR_STATUS: Record<ApprovalErrorKind, number> = {
+  not_found: 404,
+  not_pending: 409,
+  ambiguous: 400,
+  invalid_parameters: 422,
+  forbidden: 403,
+};
+
+export const approvalsRouter = Router();
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalText(value: unknown): boolean {
+  return value === undefined || (typeof value === 'string' && value.length > 0 && value.length <= MAX_TEXT_LENGTH);
+}
+
+function decisionHandler(approve: boolean) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (res.locals.approver !== true) {
+        res.status(403).json({ error: 'This API key may not decide approvals' });
+        return;
+      }
+      const { messageId, actor, comment, parameters, steps } = req.body ?? {};
+
+      if (messageId !== undefined && (typeof messageId !== 'string' || messageId.length === 0)) {
+        res.status(400).json({ error: 'Invalid "messageId" field' });
+        return;
+      }
+      if (!optionalText(actor) || !optionalText(comment)) {
+        res.status(400).json({ error: `"actor" and "comment" must be strings of at most ${MAX_TEXT_LENGTH} characters` });
+        return;
+      }
+      if (!approve && (parameters !== undefined || steps !== undefined)) {
+        res.status(400).json({ error: 'Parameters can only be edited when approving' });
+        return;
+      }
+      if (parameters !== undefined && !isObject(parameters)) {
+        res.status(400).json({ error: '"parameters" must be an object' });
+        return;
+      }
+      if (steps !== undefined && (!isObject(steps) || !Object.values(steps).every(isObject))) {
+        res.status(400).json({ error: '"steps" must map step ids to parameter objects' });
+        return;
+      }
+
+      const conversation = await getConversation(req.params.id as string, tenantOf(res));
+      if (!conversation) {
+        res.status(404).json({ error: 'Conversation not found' });
+        return;
+      }
+
+      const approval = await decideApproval(conversation, messageId, {
+        approve,
+        apiKeyId: res.locals.apiKeyId as string,
+        actor,
+        comment,
+        parameters,
+        steps: steps as Record<string, Record<string, unknown>> | undefined,
+      });
+      log.info(approve ? 'Intent approved' : 'Intent rejected', {
+        handler: 'api',
+        tenantId: conversation.tenantId,
+        conversationId: conversation.conversationId,
+        messageId: approval.messageId,
+        apiKeyId: res.locals.apiKeyId,
+        edited: !!approval.approved,
+      });
+      res.json(piiView(res, approval));
+    } catch (err: any) {
+      if (err instanceof ApprovalError) {
+        res.status(ERROR_STATUS[err.kind]).json({ error: err.message });
+        return;
+      }
+      if (err instanceof StaleTransitionError) {
+        res.status(409).json({ error: 'Approval was decided concurrently' });
+        return;
+      }
+      log.error('Error deciding approval', { handler: 'api', error: err.message });
+      res.status(500).json({ error: err.message });
+    }
+  };
+}
+
+// ── POST /conversations/:id/approve ────────────────────────
+
+approvalsRouter.post('/conversations/:id/approve', decisionHandler(true));
+
+// ── POST /conversations/:id/reject ─────────────────────────
+
+approvalsRouter.post('/conversations/:id/reject', decisionHandler(false));
@@ -0,0 +1,42 @@
+/**
+ * Tenant authentication for the public api routes.
+ *
+ * Callers send `Authorization: Bearer <api key>`; keys are issued per tenant
+ * through the admin API. The caller's tenant is exposed to route handlers
+ * via tenantOf(res), and every conversation read or write is scoped to it.
+ * Route handlers pass what they return through piiView(res, …): keys
+ * without piiAccess read it with PII redacted (see shared/pii.ts).
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { authenticateApiKey, redactFields, log } from '../../shared';
+
+export async function requireApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const header = req.headers.authorization ?? '';
+    const key = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    const apiKey = key ? await authenticateApiKey(key) : null;
+    if (!apiKey) {
+      res.status(401).json({ error: 'Invalid or missing API key' });
+      return;
+    }
+    res.locals.tenantId = apiKey.tenantId;
+    res.locals.apiKeyId = apiKey.keyId;
+    res.locals.piiAccess = apiKey.piiAccess === true;
+    res.locals.approver = apiKey.approver === true;
+    next();
+  } catch (err: any) {
+    log.error('Error authenticating request', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+}
+
+/** Tenant of the authenticated caller (set by requireApiKey). */
+export function tenantOf(res: Response): string {
+  return res.locals.tenantId as string;
+}
+
+/** `data` as the caller may read it: PII redacted unless its key has piiAccess. */
+export function piiView<T>(res: Response, data: T): T {
+  return res.locals.piiAccess === true ? data : redactFields(data);
+}
@@ -0,0 +1,239 @@
+/**
+ * Conversation read routes (mounted on the api function).
+ *
+ * GET /conversations/:id                 – conversation document;
+ *                                          ?expand=timeline adds a merged timeline
+ * GET /conversations/:id/stream          – Server-Sent Events stream of the
+ *                                          conversation's progress
+ * GET /conversations/:id/:collection     – one page of messages, turns,
+ *                                          transitions, intents, actions, events
+ *                                          or approvals
+ *
+ * All routes require a tenant API key (see auth.ts); conversations of other
+ * tenants answer 404. Keys without piiAccess read everything with PII
+ * redacted – message content included.
+ *
+ * Subcollection pages take `limit` (1–100, default 20), `order` (asc|desc,
+ * default asc, by timestamp / sequence) and `cursor` (the previous page's
+ * `nextCursor`).
+ *
+ * The stream follows the conversation's transitions log (a snapshot listener
+ * on conversations/{id}/transitions). For every transition it sends the
+ * intent or action result written with it, then the state change itself:
+ *
+ *   event: intent   data: ReasoningIntent
+ *   event: action   data: ActionResult
+ *   id: <sequence>
+ *   event: state    data: TransitionRecord
+ *
+ * Only `state` events carry an id, so a client resuming with Last-Event-ID
+ * receives a transition's intent/action again if it missed the transition.
+ * When a transition leaves the conversation IDLE the stream sends `end` and
+ * closes. Streams are also closed after STREAM_MAX_DURATION_MS (below the
+ * function timeout); EventSource clients reconnect and resume.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  TransitionRecord,
+  ConversationCollection,
+  CONVERSATION_COLLECTIONS,
+  InvalidCursorError,
+  listConversationCollection,
+  getConversationTimeline,
+  getConversation,
+  getIntent,
+  getActionResult,
+  watchTransitions,
+  log,
+} from '../../shared';
+import { tenantOf, piiView } from './auth';
+
+const STREAM_MAX_DURATION_MS = Number(process.env.STREAM_MAX_DURATION_MS) || 50_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+/** Reconnect delay suggested to EventSource clients */
+const RETRY_MS = 2_000;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const EXPANSIONS = ['timeline'];
+
+export const conversationsRouter = Router();
+
+function sendEvent(res: Response, event: string, data: unknown, id?: number): void {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// ── GET /conversations/:id ─────────────────────────────────
+
+conversationsRouter.get('/conversations/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = req.params.id as string;
+    const expand = typeof req.query.expand === 'string' ? req.query.expand.split(',').filter(Boolean) : [];
+    const unknown = expand.filter((e) => !EXPANSIONS.includes(e));
+    if (unknown.length || (req.query.expand !== undefined && typeof req.query.expand !== 'string')) {
+      res.status(400).json({ error: `Invalid "expand" (supported: ${EXPANSIONS.join(', ')})` });
+      return;
+    }
+
+    const conversation = await getConversation(conversationId, tenantOf(res));
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    if (!expand.includes('timeline')) {
+      res.json(piiView(res, conversation));
+      return;
+    }
+
+    const { entries, truncated } = await getConversationTimeline(conversationId);
+    res.json(piiView(res, { ...conversation, timeline: entries, timelineTruncated: truncated }));
+  } catch (err: any) {
+    log.error('Error fetching conversation', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── GET /conversations/:id/stream ──────────────────────────
+
+conversationsRouter.get('/conversations/:id/stream', async (req: Request, res: Response): Promise<void> => {
+  const conversationId = req.params.id as string;
+  try {
+    const rawLastEventId = req.header('last-event-id') ?? req.query.lastEventId;
+    const lastEventId = rawLastEventId === undefined ? 0 : Number(rawLastEventId);
+    if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+      res.status(400).json({ error: 'Last-Event-ID must be a non-negative integer' });
+      return;
+    }
+
+    const conversation = await getConversation(conversationId, tenantOf(res));
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const startSequence = conversation.sequence ?? 0;
+    if (conversation.status === 'IDLE' && startSequence <= lastEventId) {
+      sendEvent(res, 'end', { conversationId, state: conversation.state, status: conversation.status });
+      res.end();
+      return;
+    }
+
+    let closed = false;
+    let lastSent = lastEventId;
+    let pending = Promise.resolve();
+
+    const close = (): void => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+      clearTimeout(maxDuration);
+      res.end();
+    };
+
+    const emit = async (record: TransitionRecord): Promise<void> => {
+      if (closed || record.sequence <= lastSent) return;
+      const [intent, action] = await Promise.all([
+        record.intentId ? getIntent(conversationId, record.intentId) : null,
+        record.actionId ? getActionResult(conversationId, record.actionId) : null,
+      ]);
+      if (closed) return;
+      if (intent) sendEvent(res, 'intent', piiView(res, intent));
+      if (action) sendEvent(res, 'action', piiView(res, action));
+      sendEvent(res, 'state', piiView(res, record), record.sequence);
+      lastSent = record.sequence;
+
+      // Earlier IDLE records are history; only a transition at or after the
+      // point the stream started can end it
+      if (record.conversationStatus === 'IDLE' && record.sequence >= startSequence) {
+        sendEvent(res, 'end', { conversationId, state: record.to, status: record.conversationStatus });
+        close();
+      }
+    };
+
+    const unsubscribe = watchTransitions(
+      conversationId,
+      lastEventId,
+      (records) => {
+        // Emit strictly in order, even when intent/action lookups are in flight
+        pending = pending
+          .then(async () => {
+            for (const record of records) await emit(record);
+          })
+          .catch((err) => {
+            log.error('Error streaming conversation', { handler: 'api', conversationId, error: err.message });
+            close();
+          });
+      },
+      (err) => {
+        log.error('Conversation listener failed', { handler: 'api', conversationId, error: err.message });
+        close();
+      },
+    );
+    const heartbeat = setInterval(() => res.write(': keepalive\n\n'), HEARTBEAT_INTERVAL_MS);
+    const maxDuration = setTimeout(close, STREAM_MAX_DURATION_MS);
+    req.on('close', close);
+  } catch (err: any) {
+    log.error('Error opening conversation stream', { handler: 'api', conversationId, error: err.message });
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).json({ error: err.message });
+    }
+  }
+});
+
+// ── GET /conversations/:id/:collection ─────────────────────
+
+conversationsRouter.get('/conversations/:id/:collection', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const conversationId = req.params.id as string;
+    const collection = req.params.collection as ConversationCollection;
+    if (!CONVERSATION_COLLECTIONS.includes(collection)) {
+      res.status(404).json({ error: `Unknown collection (expected one of: ${CONVERSATION_COLLECTIONS.join(', ')})` });
+      return;
+    }
+
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      res.status(400).json({ error: `"limit" must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+      return;
+    }
+    const order = req.query.order ?? 'asc';
+    if (order !== 'asc' && order !== 'desc') {
+      res.status(400).json({ error: '"order" must be "asc" or "desc"' });
+      return;
+    }
+    const cursor = req.query.cursor;
+    if (cursor !== undefined && typeof cursor !== 'string') {
+      res.status(400).json({ error: 'Invalid "cursor"' });
+      return;
+    }
+
+    if (!(await getConversation(conversationId, tenantOf(res)))) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+
+    const page = await listConversationCollection(conversationId, collection, { limit, order, cursor });
+    res.json({ ...page, items: piiView(res, page.items) });
+  } catch (err: any) {
+    if (err instanceof InvalidCursorError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    log.error('Error listing conversation collection', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
@@ -0,0 +1,91 @@
+/**
+ * Knowledge base routes (mounted on the api function).
+ *
+ * POST   /documents      – ingest (or replace) a document for the search tool
+ * GET    /documents/:id  – document metadata
+ * DELETE /documents/:id  – remove a document and its index entries
+ *
+ * The knowledge base is shared by all tenants, so these routes require the
+ * admin token.
+ */
+
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ingestDocument, getDocument, deleteDocument, log } from '../../shared';
+import { requireAdmin } from './admin';
+
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const MAX_CONTENT_LENGTH = 500_000;
+
+export const documentsRouter = Router();
+
+documentsRouter.use('/documents', requireAdmin);
+
+documentsRouter.post('/documents', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { title, content, source, documentId: requestedId } = req.body ?? {};
+    if (!content || typeof content !== 'string') {
+      res.status(400).json({ error: 'Missing or invalid "content" field' });
+      return;
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      res.status(413).json({ error: `"content" exceeds ${MAX_CONTENT_LENGTH} characters` });
+      return;
+    }
+    if (title !== undefined && typeof title !== 'string') {
+      res.status(400).json({ error: 'Invalid "title" field' });
+      return;
+    }
+    if (source !== undefined && typeof source !== 'string') {
+      res.status(400).json({ error: 'Invalid "source" field' });
+      return;
+    }
+    if (requestedId !== undefined && (typeof requestedId !== 'string' || !DOCUMENT_ID_PATTERN.test(requestedId))) {
+      res.status(400).json({ error: 'Invalid "documentId" field (allowed: letters, digits, "_" and "-")' });
+      return;
+    }
+
+    const documentId: string = requestedId || uuidv4();
+    const document = await ingestDocument({
+      documentId,
+      title: title || documentId,
+      content,
+      source,
+    });
+    log.info('Ingested document', { handler: 'api', documentId, chunkCount: document.chunkCount });
+    res.status(201).json(document);
+  } catch (err: any) {
+    log.error('Error ingesting document', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+documentsRouter.get('/documents/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const document = await getDocument(req.params.id as string);
+    if (!document) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+    res.json(document);
+  } catch (err: any) {
+    log.error('Error fetching document', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+documentsRouter.delete('/documents/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const documentId = req.params.id as string;
+    const deleted = await deleteDocument(documentId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Document not found' });
+      return;
+    }
+    log.info('Deleted document', { handler: 'api', documentId });
+    res.status(204).end();
+  } catch (err: any) {
+    log.error('Error deleting document', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
@@ -0,0 +1,26 @@
+/**
+ * Prometheus scrape endpoint of the api function.
+ *
+ * GET /metrics answers the metrics recorded by the api instance that serves
+ * the request (see shared/metrics.ts) in the Prometheus text format. Other
+ * functions keep their own registries, so deployed this is not a pipeline
+ * view – that comes from METRICS_LOG log entries. Metric names and label
+ * values are not tenant data, but the endpoint is an operator tool, so it
+ * takes the admin token like /admin (configure it as the scrape job's bearer
+ * token).
+ */
+
+import { Router, Request, Response } from 'express';
+import { renderMetrics, log } from '../../shared';
+import { requireAdmin } from './admin';
+
+export const metricsRouter = Router();
+
+metricsRouter.get('/metrics', requireAdmin, (_req: Request, res: Response): void => {
+  try {
+    res.type('text/plain; version=0.0.4').send(renderMetrics());
+  } catch (err: any) {
+    log.error('Error rendering metrics', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
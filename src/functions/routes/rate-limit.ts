@@ -0,0 +1,95 @@
+/**
+ * Rate limiting for POST /messages (runs after requireApiKey).
+ *
+ * Each request takes a token from two buckets – first one per client IP,
+ * then one per API key. The key's daily message quota is charged later, by
+ * the handler: only for requests that passed validation and are not
+ * idempotent replays, and refunded if the request then fails. The most
+ * constrained limit is reported in the RateLimit-Limit / -Remaining / -Reset
+ * headers (IETF draft); a refused request gets 429 with Retry-After.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { LimitDecision, takeToken, consumeDailyQuota, refundDailyQuota, log } from '../../shared';
+
+const KEY_BUCKET = {
+  capacity: Number(process.env.RATE_LIMIT_KEY_BURST) || 20,
+  refillPerSecond: Number(process.env.RATE_LIMIT_KEY_PER_SECOND) || 1,
+};
+const IP_BUCKET = {
+  capacity: Number(process.env.RATE_LIMIT_IP_BURST) || 40,
+  refillPerSecond: Number(process.env.RATE_LIMIT_IP_PER_SECOND) || 2,
+};
+const DAILY_MESSAGE_QUOTA = Number(process.env.DAILY_MESSAGE_QUOTA) || 5_000;
+
+function setRateLimitHeaders(res: Response, decision: LimitDecision): void {
+  res.set({
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(decision.resetSeconds),
+  });
+}
+
+/** The decision closest to running out */
+function mostConstrained(decisions: LimitDecision[]): LimitDecision {
+  return decisions.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+function messageQuotaId(res: Response): string {
+  return `messages:${res.locals.apiKeyId as string}`;
+}
+
+export async function rateLimitMessages(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const keyId = res.locals.apiKeyId as string;
+    const ip = req.ip ?? 'unknown';
+
+    // The key bucket is only charged once the IP bucket allows the request,
+    // so requests refused per IP do not drain the key's shared budget
+    const buckets = [await takeToken(`ip:${ip}`, IP_BUCKET)];
+    if (buckets[0].allowed) buckets.push(await takeToken(`key:${keyId}`, KEY_BUCKET));
+    const refused = buckets.find((d) => !d.allowed);
+    if (refused) {
+      setRateLimitHeaders(res, refused);
+      res.set('Retry-After', String(refused.retryAfterSeconds));
+      log.warn('Rate limit exceeded', { handler: 'api', tenantId: res.locals.tenantId, keyId, ip });
+      res.status(429).json({ error: 'Rate limit exceeded', retryAfterSeconds: refused.retryAfterSeconds });
+      return;
+    }
+
+    res.locals.rateLimit = mostConstrained(buckets);
+    setRateLimitHeaders(res, res.locals.rateLimit);
+    next();
+  } catch (err: any) {
+    log.error('Error checking rate limits', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+}
+
+/**
+ * Count a validated, non-replayed message against the key's daily quota.
+ * Answers 429 and returns false once the quota is exhausted.
+ */
+export async function chargeMessageQuota(res: Response): Promise<boolean> {
+  const quota = await consumeDailyQuota(messageQuotaId(res), DAILY_MESSAGE_QUOTA);
+  if (!quota.allowed) {
+    setRateLimitHeaders(res, quota);
+    res.set('Retry-After', String(quota.retryAfterSeconds));
+    log.warn('Daily message quota exhausted', { handler: 'api', tenantId: res.locals.tenantId, keyId: res.locals.apiKeyId });
+    res.status(429).json({
+      error: `Daily message quota of ${quota.limit} exhausted`,
+      retryAfterSeconds: quota.retryAfterSeconds,
+    });
+    return false;
+  }
+
+  // Report whichever limit is closest to running out
+  const bucket = res.locals.rateLimit as LimitDecision | undefined;
+  setRateLimitHeaders(res, mostConstrained(bucket ? [bucket, quota] : [quota]));
+  return true;
+}
+
+/** Give back the quota charged for a message whose request failed, so retrying it costs nothing. */
+export async function refundMessageQuota(res: Response): Promise<void> {
+  await refundDailyQuota(messageQuotaId(res));
+}
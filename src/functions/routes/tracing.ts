@@ -0,0 +1,29 @@
+/**
+ * Request tracing for the api function (mounted before every route).
+ *
+ * Each request is a server span – continuing the caller's W3C
+ * `traceparent` header, or starting a new trace – that stays active for the
+ * route's handlers, so the events a request writes carry its context through
+ * Pub/Sub. The response's `traceresponse` header names the span, so a client
+ * can look up the trace of its request.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { startSpan, runInSpan, formatTraceparent } from '../../shared';
+
+export function traceRequests(req: Request, res: Response, next: NextFunction): void {
+  const span = startSpan(`${req.method} ${req.path}`, {
+    kind: 'server',
+    parent: req.headers.traceparent as string | undefined,
+    attributes: { 'http.method': req.method, 'http.target': req.originalUrl },
+  });
+  res.set('traceresponse', formatTraceparent(span.context));
+
+  // 'close' also fires for aborted requests and ended SSE streams
+  res.once('close', () => {
+    span.setAttributes({ 'http.status_code': res.statusCode, 'http.route': req.route?.path });
+    if (res.statusCode >= 500) span.fail(`HTTP ${res.statusCode}`);
+    span.end();
+  });
+  runInSpan(span, next);
+}
@@ -0,0 +1,150 @@
+/**
+ * Webhook subscription routes (mounted on the api function).
+ *
+ * POST   /webhooks                  – register a webhook; the response carries
+ *                                     its signing secret (only returned here)
+ * GET    /webhooks                  – list webhooks
+ * GET    /webhooks/:id              – one webhook
+ * DELETE /webhooks/:id              – remove a webhook and its delivery log
+ * GET    /webhooks/:id/deliveries   – recent deliveries with every attempt
+ *
+ * A webhook receives every state change (of one tenant, with `tenantId`)
+ * unless `states` and/or `eventTypes` are given; then a transition is
+ * delivered when it enters one of the states or logged one of the event
+ * types. Routes require the admin token.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  ConversationState,
+  CONVERSATION_STATES,
+  TENANT_ID_PATTERN,
+  createWebhook,
+  getWebhook,
+  listWebhooks,
+  deleteWebhook,
+  listDeliveries,
+  invalidWebhookUrl,
+  log,
+} from '../../shared';
+import { requireAdmin } from './admin';
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export const webhooksRouter = Router();
+
+webhooksRouter.use('/webhooks', requireAdmin);
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.length > 0);
+}
+
+// ── POST /webhooks ─────────────────────────────────────────
+
+webhooksRouter.post('/webhooks', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { url, tenantId, states, eventTypes, description } = req.body ?? {};
+
+    if (typeof url !== 'string') {
+      res.status(400).json({ error: 'Missing required field: url' });
+      return;
+    }
+    const urlError = await invalidWebhookUrl(url);
+    if (urlError) {
+      res.status(400).json({ error: urlError });
+      return;
+    }
+    if (tenantId !== undefined && (typeof tenantId !== 'string' || !TENANT_ID_PATTERN.test(tenantId))) {
+      res.status(400).json({ error: 'Invalid "tenantId" field' });
+      return;
+    }
+    if (states !== undefined
+      && (!isStringList(states) || !states.every((s) => CONVERSATION_STATES.includes(s as ConversationState)))) {
+      res.status(400).json({ error: `"states" must be an array of: ${CONVERSATION_STATES.join(', ')}` });
+      return;
+    }
+    if (eventTypes !== undefined && !isStringList(eventTypes)) {
+      res.status(400).json({ error: '"eventTypes" must be an array of strings' });
+      return;
+    }
+    if (description !== undefined
+      && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+      res.status(400).json({ error: `"description" must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` });
+      return;
+    }
+
+    const webhook = await createWebhook({ url, tenantId, states, eventTypes, description });
+    log.info('Webhook created', { handler: 'api', webhookId: webhook.webhookId, host: new URL(url).host });
+    res.status(201).json(webhook);
+  } catch (err: any) {
+    log.error('Error creating webhook', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── GET /webhooks ──────────────────────────────────────────
+
+webhooksRouter.get('/webhooks', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ webhooks: await listWebhooks() });
+  } catch (err: any) {
+    log.error('Error listing webhooks', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── GET /webhooks/:id ──────────────────────────────────────
+
+webhooksRouter.get('/webhooks/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhook = await getWebhook(req.params.id as string);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json(webhook);
+  } catch (err: any) {
+    log.error('Error fetching webhook', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── DELETE /webhooks/:id ───────────────────────────────────
+
+webhooksRouter.delete('/webhooks/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhookId = req.params.id as string;
+    if (!(await deleteWebhook(webhookId))) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    log.info('Webhook deleted', { handler: 'api', webhookId });
+    res.status(204).end();
+  } catch (err: any) {
+    log.error('Error deleting webhook', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ── GET /webhooks/:id/deliveries ───────────────────────────
+
+webhooksRouter.get('/webhooks/:id/deliveries', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const webhookId = req.params.id as string;
+    const limit = req.query.limit === undefined ? DEFAULT_LIST_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      res.status(400).json({ error: `"limit" must be an integer between 1 and ${MAX_LIST_LIMIT}` });
+      return;
+    }
+    if (!(await getWebhook(webhookId))) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+    res.json({ deliveries: await listDeliveries(webhookId, limit) });
+  } catch (err: any) {
+    log.error('Error listing webhook deliveries', { handler: 'api', error: err.message });
+    res.status(500).json({ error: err.message });
+  }
+});
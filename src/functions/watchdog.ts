@@ -0,0 +1,32 @@
+/**
+ * Watchdog Function – Cloud Functions 2nd Gen Pub/Sub Trigger
+ *
+ * Triggered by: watchdog-tick topic (Cloud Scheduler, every 5 minutes)
+ *
+ * Finds turns that have stayed in RECEIVED, REASONING_REQUESTED,
+ * INTENT_VALIDATED, ACTION_REQUESTED or RETRYING past their deadline and
+ * re-emits the event they are waiting for, or moves them to TIMED_OUT once
+ * re-driving has not helped (see shared/watchdog.ts).
+ *
+ * Errors are logged and the tick is acked – the next tick retries.
+ */
+
+import { cloudEvent } from '@google-cloud/functions-framework';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { MessagePublishedData, runWatchdog, traceHandler, log } from '../shared';
+
+// ── Pub/Sub Trigger Handler ────────────────────────────────
+
+export async function watchdogHandler(_event: CloudEvent<MessagePublishedData>): Promise<void> {
+  try {
+    const report = await runWatchdog();
+    const { runId, conversationsScanned, stuckTurns, redriven, timedOut, skipped, complete } = report;
+    log.info('Watchdog run finished', {
+      handler: 'watchdog', runId, conversationsScanned, stuckTurns, redriven, timedOut, skipped, complete,
+    });
+  } catch (err: any) {
+    log.error('Watchdog run failed', { handler: 'watchdog', error: err.message });
+  }
+}
+
+cloudEvent<MessagePublishedData>('watchdog', traceHandler('watchdog', watchdogHandler));
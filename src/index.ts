@@ -1,10 +1,15 @@
 /**
  * Cloud Functions entry point.
  *
- * Registers all three functions for GCP Cloud Functions 2nd gen deployment:
- * - api:      HTTP trigger  – accepts user messages
- * - reasoner: Pub/Sub trigger (reasoning-requested topic) – simulates LLM reasoning
- * - executor: Pub/Sub trigger (action-requested topic) – executes tool calls
+ * Registers all functions for GCP Cloud Functions 2nd gen deployment:
+ * - api:         HTTP trigger  – accepts user messages
+ * - reasoner:    Pub/Sub trigger (reasoning-requested topic) – simulates LLM reasoning
+ * - executor:    Pub/Sub trigger (action-requested topic) – executes tool calls
+ * - responder:   Pub/Sub trigger (response-requested topic) – composes the assistant's reply
+ * - outboxRelay: Pub/Sub trigger (outbox-relay-tick topic, Cloud Scheduler) – re-publishes stranded outbox entries
+ * - notifier:    Pub/Sub trigger (state-changed topic) – delivers outbound webhooks
+ * - gc:          Pub/Sub trigger (gc-tick topic, Cloud Scheduler) – deletes expired bookkeeping and idle conversations
+ * - watchdog:    Pub/Sub trigger (watchdog-tick topic, Cloud Scheduler) – re-drives or times out stuck turns
  *
  * Each function is independently deployable via:
  *   gcloud functions deploy <name> --gen2 --runtime nodejs20 ...
@@ -13,3 +18,8 @@
 import './functions/api';
 import './functions/reasoner';
 import './functions/executor';
+import './functions/responder';
+import './functions/outbox-relay';
+import './functions/notifier';
+import './functions/gc';
+import './functions/watchdog';
@@ -0,0 +1,119 @@
+/**
+ * API keys – authenticate api callers and map them to a tenant.
+ *
+ *   apiKeys/{keyId}  – { tenantId, name, secretHash, piiAccess, approver, createdAt, revokedAt, lastUsedAt }
+ *
+ * A key is `ak_<keyId>.<secret>`. Only the SHA-256 of the secret is stored
+ * (the secret is 32 random bytes, so a slow hash adds nothing); the full key
+ * is returned once, when it is issued. Revoked keys stay stored so their
+ * tenant and history remain visible to admins.
+ *
+ * Only keys issued with `piiAccess` read message content as written; other
+ * keys get it with PII redacted (see pii.ts). Only keys issued as `approver`
+ * decide approvals (see approvals.ts).
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { getStore } from './store';
+
+const KEY_PREFIX = 'ak_';
+const KEY_ID_PATTERN = /^[0-9a-f]{16}$/;
+/** lastUsedAt is refreshed at most this often per key, to keep reads write-free */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface ApiKey {
+  keyId: string;
+  tenantId: string;
+  name: string;
+  secretHash: string;
+  /** Reads message content unredacted; absent on keys issued before it existed (= false) */
+  piiAccess?: boolean;
+  /** Approves or rejects intents awaiting approval; absent = false */
+  approver?: boolean;
+  createdAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export type ApiKeyView = Omit<ApiKey, 'secretHash'>;
+
+function apiKeyPath(keyId: string): string {
+  return `apiKeys/${keyId}`;
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toView({ secretHash: _secretHash, ...view }: ApiKey): ApiKeyView {
+  return view;
+}
+
+/** Issue a key for `tenantId`. The returned `key` is not stored and cannot be retrieved again. */
+export async function issueApiKey(
+  tenantId: string,
+  name: string,
+  piiAccess = false,
+  approver = false,
+): Promise<{ apiKey: ApiKeyView; key: string }> {
+  const keyId = randomBytes(8).toString('hex');
+  const secret = randomBytes(32).toString('base64url');
+  const apiKey: ApiKey = {
+    keyId,
+    tenantId,
+    name,
+    secretHash: hashSecret(secret),
+    piiAccess,
+    approver,
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+    lastUsedAt: null,
+  };
+  await getStore().set(apiKeyPath(keyId), apiKey);
+  return { apiKey: toView(apiKey), key: `${KEY_PREFIX}${keyId}.${secret}` };
+}
+
+export async function listApiKeys(tenantId?: string): Promise<ApiKeyView[]> {
+  const docs = await getStore().query<ApiKey>('apiKeys', {
+    where: tenantId ? [{ field: 'tenantId', op: '==', value: tenantId }] : [],
+    orderBy: { field: 'createdAt' },
+  });
+  return docs.map((d) => toView(d.data));
+}
+
+/** Revoke a key; returns null if it does not exist. Revoking twice keeps the first timestamp. */
+export async function revokeApiKey(keyId: string): Promise<ApiKeyView | null> {
+  if (!KEY_ID_PATTERN.test(keyId)) return null;
+  return getStore().runTransaction(async (tx) => {
+    const apiKey = await tx.get<ApiKey>(apiKeyPath(keyId));
+    if (!apiKey) return null;
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date().toISOString();
+      tx.update(apiKeyPath(keyId), { revokedAt: apiKey.revokedAt });
+    }
+    return toView(apiKey);
+  });
+}
+
+/** Resolve a presented key to its (active) ApiKey, or null. */
+export async function authenticateApiKey(key: string): Promise<ApiKeyView | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const [keyId, secret] = key.slice(KEY_PREFIX.length).split('.', 2);
+  if (!KEY_ID_PATTERN.test(keyId) || !secret) return null;
+
+  const apiKey = await getStore().get<ApiKey>(apiKeyPath(keyId));
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  const expected = Buffer.from(apiKey.secretHash, 'hex');
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  if (!timingSafeEqual(expected, actual)) return null;
+
+  const now = Date.now();
+  if (!apiKey.lastUsedAt || now - Date.parse(apiKey.lastUsedAt) > LAST_USED_RESOLUTION_MS) {
+    apiKey.lastUsedAt = new Date(now).toISOString();
+    await getStore().update(apiKeyPath(keyId), { lastUsedAt: apiKey.lastUsedAt });
+  }
+  return toView(apiKey);
+}
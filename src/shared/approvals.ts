@@ -0,0 +1,254 @@
+/**
+ * Human-in-the-loop approval of intents.
+ *
+ * After validation the reasoner checks the approval rules; if any matches,
+ * the turn moves to AWAITING_APPROVAL instead of ACTION_REQUESTED and an
+ * Approval is stored under conversations/{id}/approvals/{messageId}:
+ *
+ *   APPROVAL_MIN_CONFIDENCE  – intents below this confidence (default 0: off)
+ *   APPROVAL_ACTIONS         – actions that always need approval, e.g. "translate,calculate"
+ *                              (for a plan, any step with such an action)
+ *
+ * An approver (an API key of the tenant issued as `approver`, other than the
+ * key that posted the message) approves – optionally with edited
+ * parameters, validated like the reasoner's output – or rejects. Approval
+ * publishes action_requested; rejection ends the turn in REJECTED. Pending
+ * approvals expire after APPROVAL_TIMEOUT_MINUTES: the watchdog (or the next
+ * decision attempt) moves the turn to TIMED_OUT. Every decision is written
+ * to the approval record and the events log in the same transaction as the
+ * state change, so the record doubles as the audit trail.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getStore } from './store';
+import { getIntent, getMessage, transitionState, EventLogEntry } from './repository';
+import { validateIntent } from './schema';
+import { actionRequestPayload, startPlan } from './plans';
+import { EVENT_SCHEMA_VERSIONS } from './event-schemas';
+import { AgentEvent, Approval, Conversation, ReasoningIntent } from './types';
+
+const TOPIC_ACTION = process.env.TOPIC_ACTION || 'action-requested';
+const APPROVAL_MIN_CONFIDENCE = Number(process.env.APPROVAL_MIN_CONFIDENCE) || 0;
+const APPROVAL_ACTIONS = (process.env.APPROVAL_ACTIONS || '')
+  .split(',')
+  .map((s) => s.trim())
+  .filter(Boolean);
+
+export const APPROVAL_TIMEOUT_MS = (Number(process.env.APPROVAL_TIMEOUT_MINUTES) || 24 * 60) * 60 * 1000;
+
+/**
+ * Why a decision could not be applied:
+ * - not_found:          no approval for the turn
+ * - not_pending:        already decided or expired
+ * - ambiguous:          several pending approvals and no messageId given
+ * - invalid_parameters: edited parameters fail validation
+ * - forbidden:          decided with the API key that posted the message
+ */
+export type ApprovalErrorKind = 'not_found' | 'not_pending' | 'ambiguous' | 'invalid_parameters' | 'forbidden';
+
+export class ApprovalError extends Error {
+  constructor(message: string, readonly kind: ApprovalErrorKind) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+export interface ApprovalDecision {
+  approve: boolean;
+  apiKeyId: string;
+  /** Person (or system) the approver names, recorded as given */
+  actor?: string;
+  comment?: string;
+  /** Edited parameters for a single-action intent */
+  parameters?: Record<string, unknown>;
+  /** Edited parameters per step id for a plan */
+  steps?: Record<string, Record<string, unknown>>;
+}
+
+function approvalPath(conversationId: string, messageId: string): string {
+  return `conversations/${conversationId}/approvals/${messageId}`;
+}
+
+/** Rules the intent matches; empty if it may run without approval. */
+export function approvalReasons(intent: ReasoningIntent): string[] {
+  const reasons: string[] = [];
+  if (intent.confidence < APPROVAL_MIN_CONFIDENCE) {
+    reasons.push(`confidence ${intent.confidence} below ${APPROVAL_MIN_CONFIDENCE}`);
+  }
+  const actions = intent.steps ? intent.steps.map((s) => s.action) : [intent.action];
+  for (const action of new Set(actions.filter((a) => APPROVAL_ACTIONS.includes(a)))) {
+    reasons.push(`action "${action}" requires approval`);
+  }
+  return reasons;
+}
+
+/** A pending approval for `intent`, and the events log entry recording the request. */
+export function requestApproval(intent: ReasoningIntent, reasons: string[]): { approval: Approval; entry: EventLogEntry } {
+  const now = Date.now();
+  const approval: Approval = {
+    conversationId: intent.conversationId,
+    messageId: intent.messageId,
+    intentId: intent.intentId,
+    reasons,
+    status: 'pending',
+    proposed: { action: intent.action, parameters: intent.parameters, steps: intent.steps },
+    requestedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + APPROVAL_TIMEOUT_MS).toISOString(),
+  };
+  const entry: EventLogEntry = {
+    eventId: uuidv4(),
+    eventType: 'approval_requested',
+    payload: { intentId: intent.intentId, reasons, expiresAt: approval.expiresAt },
+  };
+  return { approval, entry };
+}
+
+export async function getApproval(conversationId: string, messageId: string): Promise<Approval | null> {
+  return getStore().get<Approval>(approvalPath(conversationId, messageId));
+}
+
+/** Move a turn whose approval has expired to TIMED_OUT. */
+export async function expireApproval(
+  approval: Approval,
+  producer: AgentEvent['producer'] = 'watchdog',
+): Promise<Approval> {
+  const expired: Approval = { ...approval, status: 'expired', decidedAt: new Date().toISOString() };
+  await transitionState(approval.conversationId, approval.messageId, 'TIMED_OUT', {
+    producer,
+    expectedState: 'AWAITING_APPROVAL',
+    approval: expired,
+    events: [{
+      eventId: uuidv4(),
+      eventType: 'approval_expired',
+      payload: { intentId: approval.intentId, expiresAt: approval.expiresAt },
+    }],
+  });
+  return expired;
+}
+
+/** The intent with the approver's edits applied and validated again. */
+function editedIntent(intent: ReasoningIntent, decision: ApprovalDecision): ReasoningIntent {
+  if (!decision.parameters && !decision.steps) return intent;
+  if (decision.parameters && intent.steps) {
+    throw new ApprovalError('This intent is a plan; edit it with "steps"', 'invalid_parameters');
+  }
+  if (decision.steps && !intent.steps) {
+    throw new ApprovalError('This intent is a single action; edit it with "parameters"', 'invalid_parameters');
+  }
+  const unknownSteps = Object.keys(decision.steps ?? {}).filter((id) => !intent.steps?.some((s) => s.stepId === id));
+  if (unknownSteps.length) {
+    throw new ApprovalError(`Unknown step ids: ${unknownSteps.join(', ')}`, 'invalid_parameters');
+  }
+
+  const { intentId, conversationId, messageId, action, confidence } = intent;
+  const validation = validateIntent(intent.steps
+    ? {
+      intentId, conversationId, messageId, confidence,
+      steps: intent.steps.map((s) => ({ ...s, parameters: decision.steps?.[s.stepId] ?? s.parameters })),
+    }
+    : { intentId, conversationId, messageId, action, confidence, parameters: decision.parameters });
+  if (!validation.valid || !validation.data) {
+    throw new ApprovalError(`Edited parameters are invalid: ${validation.error}`, 'invalid_parameters');
+  }
+  return { ...intent, parameters: validation.data.parameters, steps: validation.data.steps };
+}
+
+/**
+ * Apply an approval decision to the turn `messageId` (or, if omitted, to the
+ * conversation's only pending approval). Returns the updated approval.
+ * Throws ApprovalError when there is nothing to decide; a decision racing
+ * another one fails with StaleTransitionError.
+ */
+export async function decideApproval(
+  conversation: Conversation,
+  messageId: string | undefined,
+  decision: ApprovalDecision,
+): Promise<Approval> {
+  const { conversationId, tenantId } = conversation;
+  let approval: Approval | null;
+  if (messageId) {
+    approval = await getApproval(conversationId, messageId);
+  } else {
+    const pending = await getStore().query<Approval>(`conversations/${conversationId}/approvals`, {
+      where: [{ field: 'status', op: '==', value: 'pending' }],
+      limit: 2,
+    });
+    if (pending.length > 1) throw new ApprovalError('Several approvals are pending; specify messageId', 'ambiguous');
+    approval = pending[0]?.data ?? null;
+  }
+  if (!approval) throw new ApprovalError(messageId ? 'No approval found' : 'No pending approval', 'not_found');
+  if (approval.status !== 'pending') throw new ApprovalError(`Approval is already ${approval.status}`, 'not_pending');
+  if (Date.parse(approval.expiresAt) <= Date.now()) {
+    await expireApproval(approval, 'api');
+    throw new ApprovalError('Approval has expired', 'not_pending');
+  }
+  // Four eyes: whoever asked for the action does not get to approve it
+  const message = await getMessage(conversationId, approval.messageId);
+  if (message?.apiKeyId && message.apiKeyId === decision.apiKeyId) {
+    throw new ApprovalError('An approval cannot be decided with the API key that posted the message', 'forbidden');
+  }
+
+  const decided: Approval = {
+    ...approval,
+    status: decision.approve ? 'approved' : 'rejected',
+    decidedAt: new Date().toISOString(),
+    decidedBy: { apiKeyId: decision.apiKeyId, actor: decision.actor },
+    comment: decision.comment,
+  };
+  const decisionEntry: EventLogEntry = {
+    eventId: uuidv4(),
+    eventType: decision.approve ? 'approval_granted' : 'approval_rejected',
+    payload: { intentId: approval.intentId, decidedBy: decided.decidedBy, edited: !!(decision.parameters || decision.steps) },
+  };
+
+  if (!decision.approve) {
+    await transitionState(conversationId, approval.messageId, 'REJECTED', {
+      producer: 'api',
+      expectedState: 'AWAITING_APPROVAL',
+      approval: decided,
+      events: [decisionEntry],
+    });
+    return decided;
+  }
+
+  const intent = await getIntent(conversationId, approval.intentId);
+  if (!intent) throw new ApprovalError('Intent for approval not found', 'not_found');
+  const approvedIntent = editedIntent(intent, decision);
+  if (approvedIntent !== intent) {
+    decided.approved = { parameters: approvedIntent.parameters, steps: approvedIntent.steps };
+  }
+
+  const firstStep = approvedIntent.steps?.[0];
+  const actionEvent: AgentEvent = {
+    eventId: uuidv4(),
+    eventType: 'action_requested',
+    schemaVersion: EVENT_SCHEMA_VERSIONS.action_requested,
+    tenantId,
+    conversationId,
+    messageId: approval.messageId,
+    timestamp: new Date().toISOString(),
+    producer: 'api',
+    payload: actionRequestPayload(approvedIntent, firstStep),
+  };
+  await transitionState(conversationId, approval.messageId, 'ACTION_REQUESTED', {
+    producer: 'api',
+    expectedState: 'AWAITING_APPROVAL',
+    intent: approvedIntent,
+    approval: decided,
+    plan: approvedIntent.steps ? startPlan(approvedIntent) : undefined,
+    events: [
+      decisionEntry,
+      {
+        eventId: actionEvent.eventId,
+        eventType: 'action_requested',
+        payload: {
+          intentId: approvedIntent.intentId,
+          stepId: firstStep?.stepId,
+          action: firstStep?.action ?? approvedIntent.action,
+        },
+      },
+    ],
+    outbox: [{ topic: TOPIC_ACTION, event: actionEvent }],
+  });
+  return decided;
+}
@@ -0,0 +1,13 @@
+/**
+ * Retry delays shared by the executor and webhook deliveries.
+ */
+
+/**
+ * Delay before the attempt after `attempt` (1-based): exponential backoff
+ * capped at `maxMs`, with "equal jitter" (between half and the full delay)
+ * so retries of many failures do not line up.
+ */
+export function backoffDelayMs(attempt: number, baseMs: number, maxMs: number): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
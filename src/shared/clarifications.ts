@@ -0,0 +1,122 @@
+/**
+ * Clarification questions – asking the user instead of guessing.
+ *
+ * When a reasoning provider cannot tell what a message asks for, it returns
+ * { clarification: { question, choices? } } instead of an intent. The
+ * reasoner stores the question as an assistant message and moves the turn to
+ * NEEDS_CLARIFICATION. The next POST /messages on the conversation is taken
+ * as the answer: it is stored with the turn, which goes back to
+ * REASONING_REQUESTED, and the provider reasons about the original message
+ * again with every question and answer so far as context. Answers are
+ * stored with the turn as event content (tokenised with PII_TOKENIZE=true).
+ *
+ *   CLARIFICATION_MAX_QUESTIONS    – questions per turn (default 2); a provider
+ *                                    still asking after that fails the turn
+ *                                    with FAILED_VALIDATION
+ *   CLARIFICATION_TIMEOUT_MINUTES  – how long a question waits for its answer
+ *                                    (default 1440) before the watchdog moves
+ *                                    the turn to TIMED_OUT
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getStore } from './store';
+import { getMessage, transitionState, EventLogEntry } from './repository';
+import { EVENT_SCHEMA_VERSIONS } from './event-schemas';
+import { eventContent } from './pii';
+import { AgentEvent, Clarification, Turn, UserMessage } from './types';
+
+const TOPIC_REASONING = process.env.TOPIC_REASONING || 'reasoning-requested';
+
+export const CLARIFICATION_MAX_QUESTIONS = Number(process.env.CLARIFICATION_MAX_QUESTIONS) || 2;
+export const CLARIFICATION_TIMEOUT_MS = (Number(process.env.CLARIFICATION_TIMEOUT_MINUTES) || 24 * 60) * 60 * 1000;
+
+/** Answered questions about the turn's message, oldest first – the context for reasoning about it again */
+export function clarificationContext(turn: Turn | null): Array<{ question: string; answer: string }> {
+  return (turn?.clarifications ?? [])
+    .filter((c) => c.answer !== undefined)
+    .map(({ question, answer }) => ({ question, answer: answer! }));
+}
+
+/**
+ * The assistant message carrying a question about the turn's message, the
+ * turn's clarification entry and the events log entry recording it.
+ */
+export function askClarification(
+  turn: Pick<Turn, 'conversationId' | 'messageId'>,
+  tenantId: string,
+  { question, choices }: { question: string; choices?: string[] },
+): { message: UserMessage; clarification: Clarification; entry: EventLogEntry } {
+  const now = new Date().toISOString();
+  const message: UserMessage = {
+    messageId: uuidv4(),
+    conversationId: turn.conversationId,
+    tenantId,
+    role: 'assistant',
+    content: question,
+    choices,
+    turnMessageId: turn.messageId,
+    createdAt: now,
+  };
+  const clarification: Clarification = { questionMessageId: message.messageId, question, choices, askedAt: now };
+  const entry: EventLogEntry = {
+    eventId: uuidv4(),
+    eventType: 'clarification_requested',
+    payload: { questionMessageId: message.messageId, question, choices },
+  };
+  return { message, clarification, entry };
+}
+
+/** The conversation's turn waiting for an answer (the latest, should there be several) */
+export async function findTurnAwaitingClarification(conversationId: string): Promise<Turn | null> {
+  const docs = await getStore().query<Turn>(`conversations/${conversationId}/turns`, {
+    where: [{ field: 'state', op: '==', value: 'NEEDS_CLARIFICATION' }],
+  });
+  return docs.map((d) => d.data).sort((a, b) => b.turnNumber - a.turnNumber)[0] ?? null;
+}
+
+/**
+ * Record `answer` as the answer to the open question of `turn` and move the
+ * turn back to REASONING_REQUESTED with a reasoning_requested event for the
+ * original message, in one transaction. Returns that event. A concurrent
+ * answer to the same question fails with StaleTransitionError.
+ */
+export async function answerClarification(turn: Turn, answer: UserMessage): Promise<AgentEvent> {
+  const { conversationId, messageId } = turn;
+  const open = turn.clarifications?.find((c) => c.answer === undefined);
+  if (!open) throw new Error(`Turn ${messageId} has no open clarification question`);
+  const original = await getMessage(conversationId, messageId);
+  if (!original) throw new Error(`Message ${messageId} not found in conversation ${conversationId}`);
+
+  const event: AgentEvent = {
+    eventId: uuidv4(),
+    eventType: 'reasoning_requested',
+    schemaVersion: EVENT_SCHEMA_VERSIONS.reasoning_requested,
+    tenantId: answer.tenantId,
+    conversationId,
+    messageId,
+    timestamp: new Date().toISOString(),
+    producer: 'api',
+    payload: { content: eventContent(original.content, answer.tenantId), answerMessageId: answer.messageId },
+  };
+  await transitionState(conversationId, messageId, 'REASONING_REQUESTED', {
+    producer: 'api',
+    expectedState: 'NEEDS_CLARIFICATION',
+    messages: [answer],
+    clarification: {
+      ...open,
+      answerMessageId: answer.messageId,
+      answer: eventContent(answer.content, answer.tenantId),
+      answeredAt: answer.createdAt,
+    },
+    events: [
+      {
+        eventId: uuidv4(),
+        eventType: 'clarification_answered',
+        payload: { questionMessageId: open.questionMessageId, answerMessageId: answer.messageId },
+      },
+      { eventId: event.eventId, eventType: 'reasoning_requested', payload: event.payload },
+    ],
+    outbox: [{ topic: TOPIC_REASONING, event }],
+  });
+  return event;
+}
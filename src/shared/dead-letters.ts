@@ -0,0 +1,198 @@
+/**
+ * Dead-letter inspection and replay.
+ *
+ * Messages a subscription gave up on end up in the dead-letter queue of their
+ * source topic (see EventBus.listDeadLetters). Pub/Sub only records the
+ * delivery count, so handlers are wrapped with trackDeliveryFailures(), which
+ * keeps the last error per event in `deliveryFailures/{eventId}`.
+ *
+ * A replay publishes the original AgentEvent again under a new eventId –
+ * receipts are keyed by eventId, so the consumer processes it as new work –
+ * and links it to the original in the conversation's events log.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AgentEvent } from './types';
+import { getStore } from './store';
+import { getEventBus } from './event-bus';
+import { decodeEventData } from './pubsub';
+import type { PubSubHandler } from './memory-event-bus';
+import { queueEvents } from './repository';
+import { log } from './logger';
+
+const TOPIC_REASONING = process.env.TOPIC_REASONING || 'reasoning-requested';
+const TOPIC_ACTION = process.env.TOPIC_ACTION || 'action-requested';
+const TOPIC_RESPONSE = process.env.TOPIC_RESPONSE || 'response-requested';
+const TOPIC_STATE_CHANGED = process.env.TOPIC_STATE_CHANGED || 'state-changed';
+
+/** Dead-letter queues exposed to admins, by name → source topic */
+export const DEAD_LETTER_QUEUES: Record<string, string> = {
+  reasoning: TOPIC_REASONING,
+  action: TOPIC_ACTION,
+  response: TOPIC_RESPONSE,
+  'state-changed': TOPIC_STATE_CHANGED,
+};
+
+/** Messages scanned when looking up the ids selected for a replay */
+const REPLAY_SCAN_LIMIT = 100;
+
+// ── Delivery Failures ──────────────────────────────────────
+
+export interface DeliveryFailure {
+  eventId: string;
+  handler: string;
+  conversationId: string;
+  messageId: string;
+  attempts: number;
+  lastError: string;
+  firstFailedAt: string;
+  lastFailedAt: string;
+}
+
+export async function recordDeliveryFailure(handler: string, event: AgentEvent, error: string): Promise<void> {
+  const path = `deliveryFailures/${event.eventId}`;
+  await getStore().runTransaction(async (tx) => {
+    const existing = await tx.get<DeliveryFailure>(path);
+    const now = new Date().toISOString();
+    const failure: DeliveryFailure = {
+      eventId: event.eventId,
+      handler,
+      conversationId: event.conversationId,
+      messageId: event.messageId,
+      attempts: (existing?.attempts ?? 0) + 1,
+      lastError: error,
+      firstFailedAt: existing?.firstFailedAt ?? now,
+      lastFailedAt: now,
+    };
+    tx.set(path, failure);
+  });
+}
+
+/** Wrap a Pub/Sub handler so every nack records its error before propagating. */
+export function trackDeliveryFailures(handler: string, fn: PubSubHandler): PubSubHandler {
+  return async (event) => {
+    try {
+      await fn(event);
+    } catch (err: any) {
+      try {
+        await recordDeliveryFailure(handler, decodeEventData(event.data), err.message);
+      } catch (recordErr: any) {
+        log.warn('Could not record delivery failure', { handler, error: recordErr.message });
+      }
+      throw err;
+    }
+  };
+}
+
+// ── Inspection ─────────────────────────────────────────────
+
+export interface DeadLetterView {
+  messageId: string;
+  topic: string;
+  subscription?: string;
+  publishTime?: string;
+  deliveryAttempts?: number;
+  lastError?: string;
+  lastFailedAt?: string;
+  /** Decoded payload; null if the message data is not a valid AgentEvent */
+  event: AgentEvent | null;
+  decodeError?: string;
+}
+
+function decode(data: string): { event: AgentEvent | null; decodeError?: string } {
+  try {
+    return { event: decodeEventData({ message: { data } }) };
+  } catch (err: any) {
+    return { event: null, decodeError: err.message };
+  }
+}
+
+export async function listDeadLetterEvents(topic: string, limit: number): Promise<DeadLetterView[]> {
+  const messages = await getEventBus().listDeadLetters(topic, limit);
+  const decoded = messages.map((m) => decode(m.data));
+  const failures = await getStore().getAll<DeliveryFailure>(
+    decoded.map((d, i) => `deliveryFailures/${d.event?.eventId ?? messages[i].attributes.eventId ?? '_'}`),
+  );
+
+  return messages.map((m, i) => ({
+    messageId: m.messageId,
+    topic: m.topic,
+    subscription: m.subscription,
+    publishTime: m.publishTime,
+    deliveryAttempts: m.deliveryAttempts ?? failures[i]?.attempts,
+    lastError: failures[i]?.lastError ?? m.lastError,
+    lastFailedAt: failures[i]?.lastFailedAt,
+    ...decoded[i],
+  }));
+}
+
+// ── Replay & Purge ─────────────────────────────────────────
+
+export interface ReplayResult {
+  replayed: Array<{ messageId: string; originalEventId: string; eventId: string }>;
+  notFound: string[];
+  /** Messages whose data is not an AgentEvent – left in the queue */
+  undecodable: string[];
+}
+
+/**
+ * Re-publish the selected dead-lettered messages to `topic` under new
+ * eventIds, then remove them from the dead-letter queue. Replays are
+ * written through the outbox before the removal, so a crash in between
+ * leaves a message in the queue rather than losing it.
+ */
+export async function replayDeadLetters(topic: string, messageIds: string[]): Promise<ReplayResult> {
+  const messages = await getEventBus().listDeadLetters(topic, REPLAY_SCAN_LIMIT);
+  const byId = new Map(messages.map((m) => [m.messageId, m]));
+  const result: ReplayResult = { replayed: [], notFound: [], undecodable: [] };
+
+  for (const messageId of messageIds) {
+    const message = byId.get(messageId);
+    if (!message) {
+      result.notFound.push(messageId);
+      continue;
+    }
+    const { event: original } = decode(message.data);
+    if (!original) {
+      result.undecodable.push(messageId);
+      continue;
+    }
+
+    const replay: AgentEvent = { ...original, eventId: uuidv4(), timestamp: new Date().toISOString() };
+    await queueEvents(original.conversationId, {
+      events: [{
+        eventId: replay.eventId,
+        eventType: 'event_replayed',
+        payload: {
+          originalEventId: original.eventId,
+          replayedEventType: original.eventType,
+          topic,
+          deadLetterMessageId: messageId,
+          deliveryAttempts: message.deliveryAttempts,
+        },
+      }],
+      outbox: [{ topic, event: replay }],
+    });
+
+    log.info('Replayed dead-lettered event', {
+      handler: 'admin',
+      topic,
+      conversationId: original.conversationId,
+      originalEventId: original.eventId,
+      eventId: replay.eventId,
+    });
+    result.replayed.push({ messageId, originalEventId: original.eventId, eventId: replay.eventId });
+  }
+
+  if (result.replayed.length) {
+    await getEventBus().removeDeadLetters(topic, result.replayed.map((r) => r.messageId));
+  }
+  return result;
+}
+
+/** Drop the selected dead-lettered messages (all of them if `messageIds` is omitted). */
+export async function purgeDeadLetters(topic: string, messageIds?: string[]): Promise<string[]> {
+  const purged = await getEventBus().removeDeadLetters(topic, messageIds);
+  log.warn('Purged dead-lettered messages', { handler: 'admin', topic, count: purged.length });
+  return purged;
+}
@@ -0,0 +1,108 @@
+/**
+ * Event bus abstraction.
+ *
+ * Producers publish AgentEvents to named topics through publishEvent(); the
+ * transport behind it is selected via EVENT_BUS:
+ *
+ * - pubsub: Google Cloud Pub/Sub (default, production)
+ * - memory: in-process delivery to the registered cloudEvent handlers,
+ *           for local runs (see memory-event-bus.ts)
+ */
+
+import { AgentEvent } from './types';
+import { PubSubEventBus } from './pubsub';
+import { InMemoryEventBus } from './memory-event-bus';
+import { withSpan } from './tracing';
+import { recordPublish } from './metrics';
+import { log } from './logger';
+
+/** A message that exhausted its delivery attempts on one of `topic`'s subscriptions. */
+export interface DeadLetterMessage {
+  /** Transport message id in the dead-letter queue */
+  messageId: string;
+  /** Topic the message was originally published to */
+  topic: string;
+  /** Subscription that gave up on the message, if known */
+  subscription?: string;
+  /** Base64-encoded AgentEvent, as published */
+  data: string;
+  attributes: Record<string, string>;
+  publishTime?: string;
+  deliveryAttempts?: number;
+  /** Last handler error, if the transport records it */
+  lastError?: string;
+}
+
+export interface EventBus {
+  readonly name: string;
+  /** Publish an event; resolves with the transport's message id. */
+  publish(topic: string, event: AgentEvent): Promise<string>;
+  /** Peek at dead-lettered messages of `topic` without consuming them. */
+  listDeadLetters(topic: string, limit: number): Promise<DeadLetterMessage[]>;
+  /**
+   * Remove dead-lettered messages of `topic` – the given message ids, or all
+   * of them when `messageIds` is omitted. Resolves with the ids removed.
+   */
+  removeDeadLetters(topic: string, messageIds?: string[]): Promise<string[]>;
+}
+
+let bus: EventBus | undefined;
+
+export function getEventBus(): EventBus {
+  if (!bus) {
+    bus = createEventBus(process.env.EVENT_BUS || 'pubsub');
+  }
+  return bus;
+}
+
+function createEventBus(name: string): EventBus {
+  switch (name) {
+    case 'pubsub':
+      return new PubSubEventBus();
+    case 'memory':
+      return new InMemoryEventBus();
+    default:
+      throw new Error(`Unknown event bus: ${name}`);
+  }
+}
+
+/**
+ * Publish an AgentEvent to the given topic.
+ * The event is JSON-encoded into the message data field. The publish is a
+ * producer span – a child of `traceparent` if given, else of the active
+ * span – whose context the transport sets as the `traceparent` attribute.
+ * Outcome and latency are recorded in the publish metrics.
+ */
+export async function publishEvent(
+  topicName: string,
+  event: AgentEvent,
+  traceparent?: string,
+): Promise<string> {
+  const eventBus = getEventBus();
+  const startedAt = Date.now();
+  const record = (success: boolean) => recordPublish({
+    handler: event.producer,
+    eventType: event.eventType,
+    topic: topicName,
+    success,
+    seconds: (Date.now() - startedAt) / 1000,
+  });
+  const messageId = await withSpan(`publish ${topicName}`, {
+    kind: 'producer',
+    parent: traceparent,
+    attributes: { 'messaging.destination': topicName, eventId: event.eventId, eventType: event.eventType },
+  }, () => eventBus.publish(topicName, event)).catch((err) => {
+    record(false);
+    throw err;
+  });
+  record(true);
+  log.info('Published event', {
+    handler: eventBus.name,
+    eventId: event.eventId,
+    eventType: event.eventType,
+    conversationId: event.conversationId,
+    topic: topicName,
+    pubsubMessageId: messageId,
+  });
+  return messageId;
+}
@@ -0,0 +1,176 @@
+/**
+ * Event contracts – runtime schemas for every AgentEvent type.
+ *
+ * Each event carries a `schemaVersion` for its type. Consumers decode with
+ * decodeEventData(), which upcasts older versions to the current one and then
+ * validates the event against AgentEventSchema, so handlers can rely on the
+ * payload's types instead of casting. An event that fails is an
+ * EventContractError; consumers quarantine it (see shared/quarantine.ts).
+ *
+ * Changing a payload: bump the type's version in EVENT_SCHEMA_VERSIONS and
+ * register an upcaster from the previous version, so events published by
+ * instances still running the old code are consumed during a rolling deploy.
+ * An event newer than this code knows is rejected as retryable: the message
+ * is nacked and redelivered until an instance with the new code takes it.
+ *
+ * Version 1 is every event published before events were versioned (no
+ * `schemaVersion` field). Its consumers supplied defaults for missing
+ * fields; the 1 → 2 upcasters apply those defaults instead.
+ */
+
+import { z } from 'zod';
+import { CONVERSATION_STATES } from './state-machine';
+import { formatIssues } from './tools';
+import { AgentEvent, AgentEventPayloads, AgentEventType } from './types';
+
+export const EVENT_SCHEMA_VERSIONS: { [K in AgentEventType]: number } = {
+  reasoning_requested: 2,
+  action_requested: 2,
+  response_requested: 2,
+  state_changed: 2,
+  webhook_delivery_requested: 2,
+};
+
+export class EventContractError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = [],
+    /** True if the event may be valid for a newer deployment – nack rather than quarantine */
+    readonly retryable = false,
+  ) {
+    super(message);
+    this.name = 'EventContractError';
+  }
+}
+
+// ── Schemas ────────────────────────────────────────────────
+
+type PayloadSchema<K extends AgentEventType> = z.ZodType<AgentEventPayloads[K], z.ZodTypeDef, unknown>;
+
+const id = z.string().min(1);
+const state = z.enum(CONVERSATION_STATES as [string, ...string[]]);
+const producer = z.enum(['api', 'reasoner', 'executor', 'responder', 'notifier', 'watchdog']);
+
+const PAYLOAD_SCHEMAS: { [K in AgentEventType]: PayloadSchema<K> } = {
+  reasoning_requested: z.object({
+    content: z.string(),
+    answerMessageId: id.optional(),
+  }),
+  action_requested: z.object({
+    intentId: id,
+    stepId: id.optional(),
+    action: id,
+    parameters: z.record(z.unknown()),
+    confidence: z.number().min(0).max(1),
+    attempt: z.number().int().min(1).optional(),
+  }),
+  response_requested: z.object({
+    intentId: id,
+    actionId: id.optional(),
+  }),
+  state_changed: z.object({
+    sequence: z.number().int().min(1),
+    conversationId: id,
+    messageId: id,
+    turnNumber: z.number().int().min(1),
+    from: state.nullable(),
+    to: state,
+    conversationStatus: z.enum(['ACTIVE', 'IDLE']),
+    producer,
+    intentId: id.optional(),
+    actionId: id.optional(),
+    stepId: id.optional(),
+    attempts: z.number().int().optional(),
+    nextAttemptAt: z.string().nullable().optional(),
+    at: z.string(),
+    eventTypes: z.array(z.string()),
+  }) as PayloadSchema<'state_changed'>,
+  webhook_delivery_requested: z.object({
+    webhookId: id,
+    deliveryId: id,
+  }),
+};
+
+const envelope = {
+  eventId: id,
+  schemaVersion: z.number().int().min(1),
+  tenantId: id,
+  conversationId: id,
+  messageId: id,
+  timestamp: z.string(),
+  producer,
+};
+
+function eventSchema<K extends AgentEventType>(eventType: K) {
+  return z.object({ ...envelope, eventType: z.literal(eventType), payload: PAYLOAD_SCHEMAS[eventType] });
+}
+
+export const AgentEventSchema = z.discriminatedUnion('eventType', [
+  eventSchema('reasoning_requested'),
+  eventSchema('action_requested'),
+  eventSchema('response_requested'),
+  eventSchema('state_changed'),
+  eventSchema('webhook_delivery_requested'),
+]);
+
+// ── Upcasters ──────────────────────────────────────────────
+
+type Payload = Record<string, unknown>;
+
+/** Per event type, version → function turning a payload of that version into the next */
+const UPCASTERS: { [K in AgentEventType]?: Record<number, (payload: Payload) => Payload> } = {
+  reasoning_requested: {
+    1: (payload) => ({ ...payload, content: payload.content ?? '' }),
+  },
+  action_requested: {
+    1: (payload) => ({ ...payload, parameters: payload.parameters ?? {} }),
+  },
+};
+
+function isEventType(value: unknown): value is AgentEventType {
+  return typeof value === 'string' && value in EVENT_SCHEMA_VERSIONS;
+}
+
+/** Bring an event of an older schema version up to the current one; other events are returned unchanged. */
+export function upcastEvent(raw: Record<string, unknown>): Record<string, unknown> {
+  const { eventType } = raw;
+  if (!isEventType(eventType)) return raw;
+
+  const current = EVENT_SCHEMA_VERSIONS[eventType];
+  const version = raw.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) return raw;
+  if (version > current) {
+    throw new EventContractError(
+      `${eventType} schema version ${version} is newer than the supported version ${current}`,
+      [],
+      true,
+    );
+  }
+
+  let payload = (raw.payload ?? {}) as Payload;
+  if (typeof payload !== 'object' || Array.isArray(payload)) return raw;
+  for (let v = version; v < current; v++) {
+    payload = UPCASTERS[eventType]?.[v]?.(payload) ?? payload;
+  }
+  return { ...raw, schemaVersion: current, payload };
+}
+
+/**
+ * Upcast and validate a decoded message. With `eventTypes`, only events of
+ * those types are accepted (a consumer's topic carries a known set).
+ */
+export function parseAgentEvent<T extends AgentEventType>(raw: unknown, eventTypes?: readonly T[]): AgentEvent<T> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new EventContractError('Event is not a JSON object');
+  }
+  const result = AgentEventSchema.safeParse(upcastEvent(raw as Record<string, unknown>));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new EventContractError(`Invalid ${String((raw as Payload).eventType)} event: ${formatIssues(result.error)}`, issues);
+  }
+  const event = result.data as AgentEvent;
+  if (eventTypes && !(eventTypes as readonly string[]).includes(event.eventType)) {
+    throw new EventContractError(`Unexpected event type ${event.eventType} (expected ${eventTypes.join(' or ')})`);
+  }
+  return event as AgentEvent<T>;
+}
@@ -0,0 +1,139 @@
+/**
+ * Cloud Firestore implementation of DocumentStore.
+ * A thin path-based adapter over the Firestore client.
+ */
+
+import { FieldPath, Firestore, Query, Transaction, WriteBatch } from '@google-cloud/firestore';
+import {
+  DocumentStore,
+  SetOptions,
+  StoreBatch,
+  StoreChange,
+  StoreQuery,
+  StoreTransaction,
+  StoredDocument,
+  Unsubscribe,
+} from './store';
+
+let db: Firestore;
+
+export function getFirestore(): Firestore {
+  if (!db) {
+    db = new Firestore({ ignoreUndefinedProperties: true });
+  }
+  return db;
+}
+
+class FirestoreBatch implements StoreBatch {
+  constructor(private readonly db: Firestore, private readonly batch: WriteBatch) {}
+
+  set(path: string, data: object, options: SetOptions = {}): void {
+    this.batch.set(this.db.doc(path), data, { merge: options.merge ?? false });
+  }
+
+  update(path: string, data: object): void {
+    this.batch.update(this.db.doc(path), data);
+  }
+
+  delete(path: string): void {
+    this.batch.delete(this.db.doc(path));
+  }
+
+  async commit(): Promise<void> {
+    await this.batch.commit();
+  }
+}
+
+class FirestoreTransaction implements StoreTransaction {
+  constructor(private readonly db: Firestore, private readonly tx: Transaction) {}
+
+  async get<T>(path: string): Promise<T | null> {
+    const snap = await this.tx.get(this.db.doc(path));
+    return snap.exists ? (snap.data() as T) : null;
+  }
+
+  set(path: string, data: object, options: SetOptions = {}): void {
+    this.tx.set(this.db.doc(path), data, { merge: options.merge ?? false });
+  }
+
+  update(path: string, data: object): void {
+    this.tx.update(this.db.doc(path), data);
+  }
+
+  delete(path: string): void {
+    this.tx.delete(this.db.doc(path));
+  }
+}
+
+export class FirestoreStore implements DocumentStore {
+  readonly name = 'firestore';
+
+  private get db(): Firestore {
+    return getFirestore();
+  }
+
+  async get<T>(path: string): Promise<T | null> {
+    const snap = await this.db.doc(path).get();
+    return snap.exists ? (snap.data() as T) : null;
+  }
+
+  async getAll<T>(paths: string[]): Promise<Array<T | null>> {
+    if (paths.length === 0) return [];
+    const snaps = await this.db.getAll(...paths.map((p) => this.db.doc(p)));
+    return snaps.map((snap) => (snap.exists ? (snap.data() as T) : null));
+  }
+
+  async set(path: string, data: object, options: SetOptions = {}): Promise<void> {
+    await this.db.doc(path).set(data, { merge: options.merge ?? false });
+  }
+
+  async update(path: string, data: object): Promise<void> {
+    await this.db.doc(path).update(data);
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.db.doc(path).delete();
+  }
+
+  async query<T>(collectionPath: string, query: StoreQuery = {}): Promise<Array<StoredDocument<T>>> {
+    const snap = await this.buildQuery(collectionPath, query).get();
+    return snap.docs.map((d) => ({ id: d.id, data: d.data() as T }));
+  }
+
+  watch<T>(
+    collectionPath: string,
+    query: StoreQuery,
+    onChange: (changes: Array<StoreChange<T>>) => void,
+    onError: (err: Error) => void,
+  ): Unsubscribe {
+    return this.buildQuery(collectionPath, { ...query, limit: undefined }).onSnapshot(
+      (snap) => {
+        const changes = snap.docChanges().map((c) => ({ type: c.type, id: c.doc.id, data: c.doc.data() as T }));
+        if (changes.length) onChange(changes);
+      },
+      onError,
+    );
+  }
+
+  private buildQuery(collectionPath: string, query: StoreQuery): Query {
+    let q: Query = this.db.collection(collectionPath);
+    for (const { field, op, value } of query.where ?? []) {
+      q = q.where(field, op, value);
+    }
+    if (query.orderBy) {
+      const direction = query.orderBy.direction ?? 'asc';
+      q = q.orderBy(query.orderBy.field, direction).orderBy(FieldPath.documentId(), direction);
+      if (query.startAfter) q = q.startAfter(query.startAfter.value, query.startAfter.id);
+    }
+    if (query.limit !== undefined) q = q.limit(query.limit);
+    return q;
+  }
+
+  batch(): StoreBatch {
+    return new FirestoreBatch(this.db, this.db.batch());
+  }
+
+  runTransaction<T>(fn: (tx: StoreTransaction) => Promise<T>): Promise<T> {
+    return this.db.runTransaction((tx) => fn(new FirestoreTransaction(this.db, tx)));
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Garbage collection – deletes bookkeeping documents and idle conversations
+ * once they are past their retention period.
+ *
+ * Each collection has a rule: a query selecting expired documents in a
+ * stable order (a timestamp plus the document id) and a retention period,
+ * configurable through GC_RETENTION_DAYS (e.g. "receipts=3,conversations=30";
+ * 0 disables a rule). Documents are deleted in batches; after every batch
+ * the position is saved in gcCheckpoints/{collection}, so a run cut short by
+ * its time budget or a crash resumes where it stopped, with the same cutoff.
+ *
+ * Receipts are only collected once `completed` – a receipt still
+ * `processing` guards an event that may be redelivered. Conversations are
+ * collected when IDLE and not updated within the retention period, together
+ * with all their subcollections.
+ *
+ * A dry run reads the same documents but deletes nothing and leaves the
+ * checkpoints untouched; the report says what would have been removed.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getStore, MAX_BATCH_WRITES, StoreQuery } from './store';
+import { deleteConversation } from './repository';
+import { log } from './logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GC_TIME_BUDGET_MS = Number(process.env.GC_TIME_BUDGET_MS) || 50_000;
+/** Document ids listed per collection in a report */
+const REPORT_SAMPLE_SIZE = 20;
+
+interface RetentionRule {
+  /** Collection path */
+  collection: string;
+  defaultRetentionDays: number;
+  /** Field the cutoff applies to; also the sort order */
+  field: string;
+  /** Cutoff value for a run started at `now` with the given retention */
+  cutoff(now: number, retentionMs: number): string;
+  /** Additional filters (equality only, so the cutoff range stays the only inequality) */
+  where?: StoreQuery['where'];
+  /** Custom removal of one document and everything under it; false if it was skipped */
+  remove?(id: string): Promise<boolean>;
+}
+
+const isoCutoff = (now: number, retentionMs: number): string => new Date(now - retentionMs).toISOString();
+
+const RULES: RetentionRule[] = [
+  {
+    collection: 'receipts',
+    defaultRetentionDays: 7,
+    field: 'completedAt',
+    cutoff: isoCutoff,
+    where: [{ field: 'status', op: '==', value: 'completed' }],
+  },
+  {
+    // Expired keys are already ignored by claimIdempotencyKey
+    collection: 'idempotencyKeys',
+    defaultRetentionDays: 0.5,
+    field: 'expiresAt',
+    cutoff: isoCutoff,
+  },
+  {
+    collection: 'outbox',
+    defaultRetentionDays: 7,
+    field: 'sentAt',
+    cutoff: isoCutoff,
+    where: [{ field: 'status', op: '==', value: 'sent' }],
+  },
+  {
+    collection: 'deliveryFailures',
+    defaultRetentionDays: 30,
+    field: 'lastFailedAt',
+    cutoff: isoCutoff,
+  },
+  {
+    collection: 'quarantinedEvents',
+    defaultRetentionDays: 30,
+    field: 'quarantinedAt',
+    cutoff: isoCutoff,
+  },
+  {
+    collection: 'rateLimits',
+    defaultRetentionDays: 1,
+    field: 'updatedAt',
+    cutoff: isoCutoff,
+  },
+  {
+    collection: 'quotas',
+    defaultRetentionDays: 2,
+    field: 'day',
+    cutoff: (now, retentionMs) => isoCutoff(now, retentionMs).slice(0, 10),
+  },
+  {
+    collection: 'conversations',
+    defaultRetentionDays: 90,
+    field: 'updatedAt',
+    cutoff: isoCutoff,
+    where: [{ field: 'status', op: '==', value: 'IDLE' }],
+    remove: deleteConversation,
+  },
+];
+
+export const GC_COLLECTIONS = RULES.map((r) => r.collection);
+
+/** Retention overrides, e.g. "receipts=3,conversations=30" */
+const RETENTION_OVERRIDES: Record<string, number> = Object.fromEntries(
+  (process.env.GC_RETENTION_DAYS || '')
+    .split(',')
+    .map((entry) => entry.split('=').map((s) => s.trim()))
+    .filter(([name, days]) => name && days !== undefined && Number(days) >= 0)
+    .map(([name, days]) => [name, Number(days)]),
+);
+
+interface GcCheckpoint {
+  runId: string;
+  cutoff: string;
+  /** Last document processed (in `field` order) */
+  after: { value: unknown; id: string } | null;
+  deleted: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface GcCollectionReport {
+  collection: string;
+  retentionDays: number;
+  cutoff: string;
+  /** Documents deleted (or, in a dry run, that would be deleted) in this run */
+  matched: number;
+  deleted: number;
+  /** False if the time budget ran out; the next run resumes from the checkpoint */
+  complete: boolean;
+  resumed: boolean;
+  sample: string[];
+}
+
+export interface GcReport {
+  runId: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  collections: GcCollectionReport[];
+}
+
+export interface GcOptions {
+  dryRun?: boolean;
+  /** Limit the run to these collections (default: all) */
+  collections?: string[];
+}
+
+function checkpointPath(collection: string): string {
+  return `gcCheckpoints/${collection}`;
+}
+
+async function collect(
+  rule: RetentionRule,
+  retentionDays: number,
+  runId: string,
+  dryRun: boolean,
+  deadline: number,
+): Promise<GcCollectionReport> {
+  const store = getStore();
+  const startedAt = new Date().toISOString();
+  // A dry run never resumes or writes checkpoints, so it always reports from the start
+  const checkpoint = dryRun ? null : await store.get<GcCheckpoint>(checkpointPath(rule.collection));
+  const cutoff = checkpoint?.cutoff ?? rule.cutoff(Date.now(), retentionDays * DAY_MS);
+  let after = checkpoint?.after ?? null;
+  let deleted = checkpoint?.deleted ?? 0;
+
+  const report: GcCollectionReport = {
+    collection: rule.collection,
+    retentionDays,
+    cutoff,
+    matched: 0,
+    deleted: 0,
+    complete: false,
+    resumed: !!checkpoint,
+    sample: [],
+  };
+
+  while (Date.now() < deadline) {
+    const docs = await store.query<Record<string, unknown>>(rule.collection, {
+      where: [...(rule.where ?? []), { field: rule.field, op: '<', value: cutoff }],
+      orderBy: { field: rule.field },
+      startAfter: after ?? undefined,
+      // Custom removals delete whole subtrees, one document at a time
+      limit: rule.remove ? 20 : MAX_BATCH_WRITES,
+    });
+    if (docs.length === 0) {
+      report.complete = true;
+      break;
+    }
+
+    report.matched += docs.length;
+    for (const { id } of docs) {
+      if (report.sample.length < REPORT_SAMPLE_SIZE) report.sample.push(id);
+    }
+
+    if (!dryRun) {
+      let removed = docs.length;
+      if (rule.remove) {
+        removed = 0;
+        for (const { id } of docs) {
+          if (await rule.remove(id)) removed++;
+        }
+      } else {
+        const batch = store.batch();
+        for (const { id } of docs) batch.delete(`${rule.collection}/${id}`);
+        await batch.commit();
+      }
+      report.deleted += removed;
+      deleted += removed;
+    }
+
+    const last = docs[docs.length - 1];
+    after = { value: last.data[rule.field], id: last.id };
+    if (!dryRun) {
+      const saved: GcCheckpoint = {
+        runId,
+        cutoff,
+        after,
+        deleted,
+        startedAt: checkpoint?.startedAt ?? startedAt,
+        updatedAt: new Date().toISOString(),
+      };
+      await store.set(checkpointPath(rule.collection), saved);
+    }
+  }
+
+  if (report.complete && !dryRun && (checkpoint || report.matched > 0)) {
+    await store.delete(checkpointPath(rule.collection));
+  }
+  return report;
+}
+
+/**
+ * Run every enabled retention rule (or the selected ones) until done or
+ * until GC_TIME_BUDGET_MS has passed.
+ */
+export async function runGarbageCollection(options: GcOptions = {}): Promise<GcReport> {
+  const dryRun = options.dryRun ?? false;
+  const runId = uuidv4();
+  const startedAt = new Date().toISOString();
+  const deadline = Date.now() + GC_TIME_BUDGET_MS;
+  const collections: GcCollectionReport[] = [];
+
+  for (const rule of RULES) {
+    if (options.collections && !options.collections.includes(rule.collection)) continue;
+    const retentionDays = RETENTION_OVERRIDES[rule.collection] ?? rule.defaultRetentionDays;
+    if (retentionDays === 0) continue;
+    if (Date.now() >= deadline) break;
+
+    const report = await collect(rule, retentionDays, runId, dryRun, deadline);
+    collections.push(report);
+    if (report.matched > 0) {
+      log.info(dryRun ? 'GC dry run matched documents' : 'GC deleted documents', {
+        handler: 'gc', runId, collection: rule.collection, matched: report.matched, complete: report.complete,
+      });
+    }
+  }
+
+  return { runId, dryRun, startedAt, finishedAt: new Date().toISOString(), collections };
+}
@@ -1,19 +1,257 @@
-export { AgentEvent, Conversation, ConversationState, UserMessage, ReasoningIntent, ActionResult } from './types';
-export { validateTransition, assertTransition } from './state-machine';
-export { validateIntent, IntentSchema, ValidationResult, ValidatedIntent } from './schema';
-export { publishEvent, MessagePublishedData, decodeEventData } from './pubsub';
 export {
-  getFirestore,
+  AgentEvent,
+  AgentEventType,
+  AgentEventPayloads,
+  Conversation,
+  ConversationState,
+  ConversationStatus,
+  Turn,
+  TransitionRecord,
+  UserMessage,
+  ReasoningIntent,
+  ActionResult,
+  PlanStep,
+  PlanStepStatus,
+  PlanProgress,
+  Approval,
+  Clarification,
+} from './types';
+export { CONVERSATION_STATES, validateTransition, assertTransition, isTerminalState } from './state-machine';
+export {
+  validateIntent,
+  validateClarification,
+  IntentSchema,
+  PlanSchema,
+  ClarificationSchema,
+  ValidationResult,
+  ValidatedIntent,
+} from './schema';
+export {
+  PLAN_MAX_STEPS,
+  StepOutput,
+  PlanReferenceError,
+  referencedSteps,
+  resolveReferences,
+  outputValue,
+  findStep,
+  nextStep,
+  actionRequestPayload,
+  startPlan,
+  advancePlan,
+} from './plans';
+export { EventBus, DeadLetterMessage, getEventBus, publishEvent } from './event-bus';
+export { PubSubEventBus, MessagePublishedData, decodeEventData } from './pubsub';
+export {
+  EVENT_SCHEMA_VERSIONS,
+  EventContractError,
+  AgentEventSchema,
+  upcastEvent,
+  parseAgentEvent,
+} from './event-schemas';
+export { QuarantinedEvent, quarantineEvent, decodeOrQuarantine, listQuarantinedEvents } from './quarantine';
+export { InMemoryEventBus, PubSubHandler } from './memory-event-bus';
+export {
+  DocumentStore,
+  StoreTransaction,
+  StoreBatch,
+  StoreQuery,
+  StoredDocument,
+  StoreChange,
+  Unsubscribe,
+  MAX_BATCH_WRITES,
+  getStore,
+} from './store';
+export { FirestoreStore, getFirestore } from './firestore-store';
+export { MemoryStore } from './memory-store';
+export { OutboxEntry, OutboxMessage, relayOutbox, sweepOutbox } from './outbox';
+export { backoffDelayMs } from './backoff';
+export {
+  DEAD_LETTER_QUEUES,
+  DeliveryFailure,
+  DeadLetterView,
+  ReplayResult,
+  recordDeliveryFailure,
+  trackDeliveryFailures,
+  listDeadLetterEvents,
+  replayDeadLetters,
+  purgeDeadLetters,
+} from './dead-letters';
+export {
   createConversation,
   getConversation,
+  deleteConversation,
+  openTurn,
+  getTurn,
+  watchTransitions,
   transitionState,
+  StaleTransitionError,
+  queueEvents,
+  redriveTurn,
+  TransitionEffects,
+  EventLogEntry,
   saveMessage,
+  getMessage,
   claimReceipt,
   completeReceipt,
+  releaseReceipt,
   claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  IdempotencyClaim,
+  StoredResponse,
   logEvent,
   saveIntent,
+  getIntent,
+  findValidIntent,
   saveActionResult,
+  getActionResult,
   findActionResultByIntentId,
-} from './firestore';
+  listSuccessfulActions,
+  ConversationCollection,
+  CONVERSATION_COLLECTIONS,
+  PageOptions,
+  Page,
+  InvalidCursorError,
+  listConversationCollection,
+  TimelineKind,
+  TimelineEntry,
+  getConversationTimeline,
+} from './repository';
+export {
+  ApiKey,
+  ApiKeyView,
+  TENANT_ID_PATTERN,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+  authenticateApiKey,
+} from './api-keys';
+export {
+  GC_COLLECTIONS,
+  GcOptions,
+  GcReport,
+  GcCollectionReport,
+  runGarbageCollection,
+} from './gc';
+export { WatchdogReport, runWatchdog } from './watchdog';
+export {
+  APPROVAL_TIMEOUT_MS,
+  ApprovalErrorKind,
+  ApprovalError,
+  ApprovalDecision,
+  approvalReasons,
+  requestApproval,
+  getApproval,
+  expireApproval,
+  decideApproval,
+} from './approvals';
+export { ComposedReply, templateReply, composeReply } from './responses';
+export {
+  CLARIFICATION_MAX_QUESTIONS,
+  CLARIFICATION_TIMEOUT_MS,
+  clarificationContext,
+  askClarification,
+  findTurnAwaitingClarification,
+  answerClarification,
+} from './clarifications';
+export {
+  TokenBucketPolicy,
+  LimitDecision,
+  takeToken,
+  consumeDailyQuota,
+  refundDailyQuota,
+} from './rate-limits';
+export {
+  Webhook,
+  WebhookView,
+  WebhookPayload,
+  WebhookAttempt,
+  WebhookDelivery,
+  StateChangeData,
+  SIGNATURE_HEADER,
+  SIGNATURE_TOLERANCE_SECONDS,
+  createWebhook,
+  getWebhook,
+  listWebhooks,
+  deleteWebhook,
+  listDeliveries,
+  invalidWebhookUrl,
+  webhookMatches,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  dispatchStateChange,
+  attemptDelivery,
+} from './webhooks';
+export {
+  ReasoningProvider,
+  ReasoningRequest,
+  CompositionRequest,
+  ReasoningErrorKind,
+  ReasoningProviderError,
+  MockReasoningProvider,
+  OpenAIReasoningProvider,
+  getReasoningProvider,
+  createReasoningProvider,
+} from './reasoning';
+export {
+  ToolDefinition,
+  ToolOutcome,
+  defineTool,
+  registerTool,
+  getTool,
+  listTools,
+  executeTool,
+} from './tools';
+export {
+  KnowledgeDocument,
+  SearchHit,
+  ingestDocument,
+  getDocument,
+  deleteDocument,
+  searchKnowledgeBase,
+} from './knowledge-base';
+export {
+  SpanContext,
+  SpanKind,
+  SpanAttributes,
+  SpanRecord,
+  SpanOptions,
+  SpanExporter,
+  Span,
+  FileSpanExporter,
+  parseTraceparent,
+  formatTraceparent,
+  currentSpan,
+  currentTraceparent,
+  startSpan,
+  runInSpan,
+  withSpan,
+  traceHandler,
+  getSpanExporter,
+  setSpanExporter,
+} from './tracing';
+export {
+  MetricLabels,
+  ReceiptOutcome,
+  Counter,
+  Histogram,
+  renderMetrics,
+  recordTransition,
+  recordReceiptClaim,
+  recordPublish,
+  recordToolExecution,
+} from './metrics';
+export {
+  PiiDetector,
+  registerPiiDetector,
+  detectPii,
+  redactPii,
+  redactFields,
+  tokenizePii,
+  eventContent,
+  eventFields,
+  containsPiiTokens,
+  piiTokenMap,
+  detokenizePii,
+} from './pii';
 export { log } from './logger';
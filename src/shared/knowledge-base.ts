@@ -0,0 +1,334 @@
+/**
+ * Local knowledge base backing the search tool.
+ *
+ * Documents are split into overlapping chunks and indexed into an inverted
+ * index stored next to the conversation collections:
+ *
+ *   documents/{documentId}                      – document metadata
+ *   documents/{documentId}/chunks/{chunkId}     – chunk text, token length, distinct terms
+ *   searchIndex/{term}/postings/{chunkId}       – term frequency of `term` in the chunk
+ *   searchStats/global                          – chunk count + total token length (for BM25)
+ *
+ * A document is counted in searchStats exactly while its metadata exists and
+ * is not marked `deletingAt`: the metadata is written together with the stats
+ * after the chunks and postings, and a delete marks it and subtracts it in one
+ * transaction before removing chunks, postings and finally the metadata.
+ *
+ * Search ranks chunks with Okapi BM25. Everything is computed locally –
+ * no embedding or search service is involved.
+ */
+
+import { getStore, MAX_BATCH_WRITES, StoreBatch, StoreTransaction } from './store';
+
+/** Target chunk size in tokens (words) and the overlap carried into the next chunk */
+const CHUNK_WORDS = 120;
+const CHUNK_OVERLAP_WORDS = 20;
+
+/** BM25 parameters – the usual defaults */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were',
+  'will', 'with', 'me', 'my', 'i', 'you', 'your', 'we', 'our', 'about', 'what', 'which',
+]);
+
+export interface KnowledgeDocument {
+  documentId: string;
+  title: string;
+  source?: string;
+  chunkCount: number;
+  /** Total token count across chunks */
+  length: number;
+  createdAt: string;
+  /** Set while the document is being deleted; it is then no longer searched */
+  deletingAt?: string;
+}
+
+interface Chunk {
+  chunkId: string;
+  documentId: string;
+  index: number;
+  text: string;
+  /** Token count used for BM25 length normalisation */
+  length: number;
+  /** Distinct index terms – needed to remove postings on delete */
+  terms: string[];
+}
+
+interface Posting {
+  chunkId: string;
+  documentId: string;
+  tf: number;
+}
+
+interface SearchStats {
+  chunkCount: number;
+  totalLength: number;
+}
+
+export interface SearchHit {
+  documentId: string;
+  chunkId: string;
+  title: string;
+  snippet: string;
+  score: number;
+}
+
+// ── Text processing ────────────────────────────────────────
+
+/** Lowercase, strip diacritics, split on non-alphanumerics, drop stopwords. */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Greedy sentence-aware chunking: sentences are packed until the chunk
+ * reaches CHUNK_WORDS, then the trailing sentences worth ~CHUNK_OVERLAP_WORDS
+ * are repeated at the start of the next chunk so matches spanning a boundary
+ * are not lost. Sentences longer than a chunk are split on word boundaries.
+ */
+export function chunkText(text: string): string[] {
+  const sentences = (text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]*\s*/g) ?? [])
+    .flatMap((sentence) => {
+      const words = sentence.trim().split(' ');
+      if (words.length <= CHUNK_WORDS) return [sentence.trim()];
+      const parts: string[] = [];
+      for (let i = 0; i < words.length; i += CHUNK_WORDS) {
+        parts.push(words.slice(i, i + CHUNK_WORDS).join(' '));
+      }
+      return parts;
+    })
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+
+  for (const sentence of sentences) {
+    const words = sentence.split(' ').length;
+    if (currentWords + words > CHUNK_WORDS && current.length) {
+      chunks.push(current.join(' '));
+      // Carry the tail of the finished chunk forward as overlap
+      const overlap: string[] = [];
+      let overlapWords = 0;
+      for (let i = current.length - 1; i >= 0 && overlapWords < CHUNK_OVERLAP_WORDS; i--) {
+        overlap.unshift(current[i]);
+        overlapWords += current[i].split(' ').length;
+      }
+      current = overlapWords + words > CHUNK_WORDS ? [] : overlap;
+      currentWords = current.length ? overlapWords : 0;
+    }
+    current.push(sentence);
+    currentWords += words;
+  }
+  if (current.length) chunks.push(current.join(' '));
+  return chunks;
+}
+
+// ── Ingestion ──────────────────────────────────────────────
+
+type WriteOp = (batch: StoreBatch) => void;
+
+const STATS_PATH = 'searchStats/global';
+
+async function commitInBatches(ops: WriteOp[]): Promise<void> {
+  for (let i = 0; i < ops.length; i += MAX_BATCH_WRITES) {
+    const batch = getStore().batch();
+    ops.slice(i, i + MAX_BATCH_WRITES).forEach((op) => op(batch));
+    await batch.commit();
+  }
+}
+
+/** Adjust the corpus statistics used for BM25 length normalisation, inside `tx`. */
+async function adjustStats(tx: StoreTransaction, chunkDelta: number, lengthDelta: number): Promise<void> {
+  const stats = (await tx.get<SearchStats>(STATS_PATH)) ?? { chunkCount: 0, totalLength: 0 };
+  tx.set(STATS_PATH, {
+    chunkCount: Math.max(stats.chunkCount + chunkDelta, 0),
+    totalLength: Math.max(stats.totalLength + lengthDelta, 0),
+  });
+}
+
+function chunkPath(documentId: string, chunkId: string): string {
+  return `documents/${documentId}/chunks/${chunkId}`;
+}
+
+function postingPath(term: string, chunkId: string): string {
+  return `searchIndex/${term}/postings/${chunkId}`;
+}
+
+/**
+ * Chunk and index a document. Re-ingesting an existing documentId replaces
+ * the previous version.
+ */
+export async function ingestDocument(input: {
+  documentId: string;
+  title: string;
+  content: string;
+  source?: string;
+}): Promise<KnowledgeDocument> {
+  await deleteDocument(input.documentId);
+
+  const ops: WriteOp[] = [];
+  let totalLength = 0;
+
+  const chunks: Chunk[] = chunkText(input.content).map((text, index) => {
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+
+    const chunkId = `${input.documentId}_${index}`;
+    for (const [term, tf] of frequencies) {
+      const posting: Posting = { chunkId, documentId: input.documentId, tf };
+      ops.push((batch) => batch.set(postingPath(term, chunkId), posting));
+    }
+    totalLength += tokens.length;
+    return { chunkId, documentId: input.documentId, index, text, length: tokens.length, terms: [...frequencies.keys()] };
+  });
+
+  for (const chunk of chunks) {
+    ops.push((batch) => batch.set(chunkPath(input.documentId, chunk.chunkId), chunk));
+  }
+
+  const document: KnowledgeDocument = {
+    documentId: input.documentId,
+    title: input.title,
+    source: input.source,
+    chunkCount: chunks.length,
+    length: totalLength,
+    createdAt: new Date().toISOString(),
+  };
+  await commitInBatches(ops);
+  // Metadata and stats are written last, together: a document only counts once its postings exist
+  await getStore().runTransaction(async (tx) => {
+    await adjustStats(tx, chunks.length, totalLength);
+    tx.set(`documents/${input.documentId}`, document);
+  });
+  return document;
+}
+
+export async function getDocument(documentId: string): Promise<KnowledgeDocument | null> {
+  const document = await getStore().get<KnowledgeDocument>(`documents/${documentId}`);
+  return document && !document.deletingAt ? document : null;
+}
+
+/**
+ * Remove a document, its chunks and its postings.
+ *
+ * The metadata is first marked as deleting – from then on the document is
+ * not searched – and taken out of the stats in the same transaction; it is
+ * removed last. Chunks are looked up whether or not metadata exists, so a
+ * retry after an interrupted delete or ingest removes what was left behind.
+ * Returns false if the document did not exist.
+ */
+export async function deleteDocument(documentId: string): Promise<boolean> {
+  const store = getStore();
+  const metadataPath = `documents/${documentId}`;
+  const existed = await store.runTransaction(async (tx) => {
+    const document = await tx.get<KnowledgeDocument>(metadataPath);
+    if (!document) return false;
+    if (!document.deletingAt) {
+      await adjustStats(tx, -document.chunkCount, -document.length);
+      tx.update(metadataPath, { deletingAt: new Date().toISOString() });
+    }
+    return true;
+  });
+
+  const chunks = await store.query<Chunk>(`documents/${documentId}/chunks`);
+  const ops: WriteOp[] = [];
+  for (const { data: chunk } of chunks) {
+    for (const term of chunk.terms) {
+      ops.push((batch) => batch.delete(postingPath(term, chunk.chunkId)));
+    }
+    ops.push((batch) => batch.delete(chunkPath(documentId, chunk.chunkId)));
+  }
+  await commitInBatches(ops);
+  await store.delete(metadataPath);
+  return existed;
+}
+
+// ── Search ─────────────────────────────────────────────────
+
+/**
+ * BM25-ranked search over all indexed chunks.
+ * Returns the top `limit` chunks with a snippet around the first match.
+ */
+export async function searchKnowledgeBase(
+  query: string,
+  limit = 5,
+): Promise<{ hits: SearchHit[]; totalMatches: number }> {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return { hits: [], totalMatches: 0 };
+
+  const store = getStore();
+  const stats = (await store.get<SearchStats>(STATS_PATH)) ?? { chunkCount: 0, totalLength: 0 };
+  if (stats.chunkCount <= 0) return { hits: [], totalMatches: 0 };
+  const avgLength = stats.totalLength / stats.chunkCount;
+
+  const postingsByTerm = await Promise.all(
+    terms.map(async (term) => {
+      const postings = await store.query<Posting>(`searchIndex/${term}/postings`);
+      return postings.map((p) => p.data);
+    }),
+  );
+
+  // Chunk lengths are needed for normalisation; fetch each candidate once
+  const candidates = new Map<string, Posting>();
+  postingsByTerm.flat().forEach((p) => candidates.set(p.chunkId, p));
+  const chunkDocs = await store.getAll<Chunk>(
+    [...candidates.values()].map((p) => chunkPath(p.documentId, p.chunkId)));
+  const chunks = new Map<string, Chunk>();
+  chunkDocs.forEach((chunk) => chunk && chunks.set(chunk.chunkId, chunk));
+
+  const scores = new Map<string, number>();
+  postingsByTerm.forEach((postings) => {
+    const df = postings.length;
+    const idf = Math.log(1 + (stats.chunkCount - df + 0.5) / (df + 0.5));
+    for (const { chunkId, tf } of postings) {
+      const chunk = chunks.get(chunkId);
+      if (!chunk) continue;                       // posting outlived its chunk (concurrent delete)
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (chunk.length / avgLength));
+      scores.set(chunkId, (scores.get(chunkId) ?? 0) + idf * ((tf * (BM25_K1 + 1)) / norm));
+    }
+  });
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const top = ranked.slice(0, limit);
+
+  const documentIds = [...new Set(top.map(([chunkId]) => chunks.get(chunkId)!.documentId))];
+  const documents = await store.getAll<KnowledgeDocument>(documentIds.map((id) => `documents/${id}`));
+  const titles = new Map(documents
+    .filter((d): d is KnowledgeDocument => d !== null && !d.deletingAt)
+    .map((d) => [d.documentId, d.title]));
+
+  const hits = top
+    .filter(([chunkId]) => titles.has(chunks.get(chunkId)!.documentId))
+    .map(([chunkId, score]) => {
+      const chunk = chunks.get(chunkId)!;
+      return {
+        documentId: chunk.documentId,
+        chunkId,
+        title: titles.get(chunk.documentId)!,
+        snippet: snippet(chunk.text, terms),
+        score: Math.round(score * 10_000) / 10_000,
+      };
+    });
+
+  return { hits, totalMatches: ranked.length };
+}
+
+/** ~200 characters of context around the first query term in the chunk. */
+function snippet(text: string, terms: string[], width = 200): string {
+  const lower = text.toLowerCase();
+  const positions = terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0);
+  const first = positions.length ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - Math.floor(width / 3));
+  const end = Math.min(text.length, start + width);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
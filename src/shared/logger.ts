@@ -5,24 +5,52 @@
  * By emitting structured JSON instead of plain strings, logs become
  * filterable by severity, eventId, conversationId, handler, etc.
  *
+ * Entries written inside a span (see tracing.ts) carry its traceId and
+ * spanId; with GOOGLE_CLOUD_PROJECT set, also the fields Cloud Logging uses
+ * to link an entry to its trace.
+ *
+ * Entry fields are redacted (see pii.ts): emails, phone numbers, IBANs,
+ * card numbers and national ids in them are logged as `[REDACTED_<KIND>]`.
+ *
  * @see https://cloud.google.com/functions/docs/monitoring/logging#writing_structured_logs
  */
 
+import { currentSpan } from './tracing';
+import { redactFields } from './pii';
+
 type Severity = 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR';
 
 interface LogEntry {
   severity: Severity;
   message: string;
   handler?: string;
+  tenantId?: string;
   eventId?: string;
   conversationId?: string;
   messageId?: string;
   [key: string]: unknown;
 }
 
+function traceFields(): Record<string, unknown> {
+  const span = currentSpan();
+  if (!span) return {};
+  const { traceId, spanId, sampled } = span.context;
+  const project = process.env.GOOGLE_CLOUD_PROJECT;
+  return {
+    traceId,
+    spanId,
+    ...(project ? {
+      'logging.googleapis.com/trace': `projects/${project}/traces/${traceId}`,
+      'logging.googleapis.com/spanId': spanId,
+      'logging.googleapis.com/trace_sampled': sampled,
+    } : {}),
+  };
+}
+
 function write(entry: LogEntry): void {
   const output = JSON.stringify({
-    ...entry,
+    ...redactFields(entry),
+    ...traceFields(),
     timestamp: new Date().toISOString(),
   });
 
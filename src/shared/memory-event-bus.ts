@@ -0,0 +1,120 @@
+/**
+ * In-process EventBus for local runs.
+ *
+ * Mirrors the Pub/Sub → Eventarc → Cloud Function path without any GCP
+ * service: each topic is subscribed by a cloudEvent handler (the same
+ * function registered with the Functions Framework), and a publish delivers
+ * a CloudEvent envelope (base64 JSON data, attributes, messageId) to that
+ * handler asynchronously.
+ *
+ * Delivery semantics follow the deployed subscriptions: a handler that
+ * returns acks the message, a handler that throws is redelivered with
+ * exponential backoff, and after MAX_DELIVERY_ATTEMPTS the message is kept
+ * in an in-memory dead-letter list per source topic.
+ */
+
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { AgentEvent } from './types';
+import type { DeadLetterMessage, EventBus } from './event-bus';
+import { eventAttributes, MessagePublishedData } from './pubsub';
+import { log } from './logger';
+
+/** Same limit as the dead-letter policy applied by scripts/setup.sh */
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 200;
+
+type PubSubMessage = NonNullable<MessagePublishedData['message']>;
+
+export type PubSubHandler = (event: CloudEvent<MessagePublishedData>) => Promise<void>;
+
+interface Subscription {
+  name: string;
+  handler: PubSubHandler;
+}
+
+export class InMemoryEventBus implements EventBus {
+  readonly name = 'memory';
+
+  private readonly subscriptions = new Map<string, Subscription[]>();
+  private readonly deadLetters: DeadLetterMessage[] = [];
+  private sequence = 0;
+
+  /** Deliver messages published to `topic` to `handler`; `name` identifies the subscription. */
+  subscribe(topic: string, name: string, handler: PubSubHandler): void {
+    this.subscriptions.set(topic, [...(this.subscriptions.get(topic) ?? []), { name, handler }]);
+  }
+
+  async publish(topic: string, event: AgentEvent): Promise<string> {
+    const message: PubSubMessage = {
+      data: Buffer.from(JSON.stringify(event)).toString('base64'),
+      attributes: eventAttributes(event),
+      messageId: String(++this.sequence),
+      publishTime: new Date().toISOString(),
+    };
+    // Like Pub/Sub, a topic without subscriptions silently drops the message
+    for (const subscription of this.subscriptions.get(topic) ?? []) {
+      this.schedule(topic, subscription, message, 1, 0);
+    }
+    return message.messageId!;
+  }
+
+  async listDeadLetters(topic: string, limit: number): Promise<DeadLetterMessage[]> {
+    return this.deadLetters.filter((m) => m.topic === topic).slice(0, limit);
+  }
+
+  async removeDeadLetters(topic: string, messageIds?: string[]): Promise<string[]> {
+    const removed: string[] = [];
+    for (let i = this.deadLetters.length - 1; i >= 0; i--) {
+      const message = this.deadLetters[i];
+      if (message.topic !== topic || (messageIds && !messageIds.includes(message.messageId))) continue;
+      this.deadLetters.splice(i, 1);
+      removed.unshift(message.messageId);
+    }
+    return removed;
+  }
+
+  private schedule(topic: string, target: Subscription, message: PubSubMessage, attempt: number, delayMs: number): void {
+    setTimeout(() => {
+      void this.deliver(topic, target, message, attempt);
+    }, delayMs);
+  }
+
+  private async deliver(topic: string, target: Subscription, message: PubSubMessage, attempt: number): Promise<void> {
+    const subscription = `projects/local/subscriptions/${target.name}`;
+
+    const cloudEvent: CloudEvent<MessagePublishedData> = {
+      specversion: '1.0',
+      id: message.messageId!,
+      source: `//pubsub.googleapis.com/projects/local/topics/${topic}`,
+      type: 'google.cloud.pubsub.topic.v1.messagePublished',
+      time: message.publishTime,
+      data: { message, subscription },
+    };
+
+    try {
+      await target.handler(cloudEvent);
+    } catch (err: any) {
+      if (attempt < MAX_DELIVERY_ATTEMPTS) {
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        log.warn('Delivery failed, scheduling redelivery', {
+          handler: this.name, topic, subscription, attempt, delayMs, error: err.message,
+        });
+        this.schedule(topic, target, message, attempt + 1, delayMs);
+        return;
+      }
+      this.deadLetters.push({
+        messageId: message.messageId!,
+        topic,
+        subscription,
+        data: message.data!,
+        attributes: message.attributes ?? {},
+        publishTime: message.publishTime,
+        deliveryAttempts: attempt,
+        lastError: err.message,
+      });
+      log.error('Delivery attempts exhausted, message dead-lettered', {
+        handler: this.name, topic, subscription, attempt, error: err.message,
+      });
+    }
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * In-memory implementation of DocumentStore for local runs.
+ *
+ * Documents live in a Map keyed by full path. Every document carries a
+ * version that is bumped on each write; transactions record the version of
+ * every document they read and only commit if none of them changed in the
+ * meantime, otherwise the transaction function is re-run. That gives the
+ * same outcome as Firestore's transactions for the read-then-write patterns
+ * used here (claimReceipt, claimIdempotencyKey, state transitions).
+ *
+ * Data is deep-copied on the way in and out and undefined fields are dropped,
+ * matching the Firestore client configured with ignoreUndefinedProperties.
+ *
+ * Listeners are notified asynchronously after each commit, in commit order,
+ * like Firestore snapshot listeners.
+ */
+
+import {
+  DocumentStore,
+  SetOptions,
+  StoreBatch,
+  StoreChange,
+  StoreQuery,
+  StoreTransaction,
+  StoredDocument,
+  Unsubscribe,
+  WhereClause,
+} from './store';
+
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+type Data = Record<string, unknown>;
+
+interface Entry {
+  data: Data;
+  version: number;
+}
+
+type WriteOp =
+  | { kind: 'set'; path: string; data: Data; merge: boolean }
+  | { kind: 'update'; path: string; data: Data }
+  | { kind: 'delete'; path: string };
+
+interface Listener {
+  collectionPath: string;
+  where: WhereClause[];
+  onChange: (changes: Array<StoreChange<unknown>>) => void;
+  active: boolean;
+}
+
+class TransactionConflictError extends Error {}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function isPlainObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepMerge(target: Data, source: Data): Data {
+  const out: Data = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    out[key] = isPlainObject(value) && isPlainObject(out[key])
+      ? deepMerge(out[key] as Data, value)
+      : value;
+  }
+  return out;
+}
+
+function getField(data: Data, field: string): unknown {
+  return field.split('.').reduce<unknown>(
+    (value, key) => (isPlainObject(value) ? value[key] : undefined),
+    data,
+  );
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function matches(data: Data, { field, op, value }: WhereClause): boolean {
+  const actual = getField(data, field);
+  if (actual === undefined) return false;
+  switch (op) {
+    case '==': return compare(actual, value) === 0;
+    case '!=': return compare(actual, value) !== 0;
+    case '<': return compare(actual, value) < 0;
+    case '<=': return compare(actual, value) <= 0;
+    case '>': return compare(actual, value) > 0;
+    case '>=': return compare(actual, value) >= 0;
+    case 'in': return Array.isArray(value) && value.includes(actual);
+    case 'array-contains': return Array.isArray(actual) && actual.includes(value);
+  }
+}
+
+function parentOf(path: string): string {
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+export class MemoryStore implements DocumentStore {
+  readonly name = 'memory';
+
+  private readonly docs = new Map<string, Entry>();
+  private readonly listeners = new Set<Listener>();
+  private version = 0;
+
+  async get<T>(path: string): Promise<T | null> {
+    const entry = this.docs.get(path);
+    return entry ? (clone(entry.data) as T) : null;
+  }
+
+  async getAll<T>(paths: string[]): Promise<Array<T | null>> {
+    return Promise.all(paths.map((p) => this.get<T>(p)));
+  }
+
+  async set(path: string, data: object, options: SetOptions = {}): Promise<void> {
+    this.apply([{ kind: 'set', path, data: clone(data) as Data, merge: options.merge ?? false }]);
+  }
+
+  async update(path: string, data: object): Promise<void> {
+    this.apply([{ kind: 'update', path, data: clone(data) as Data }]);
+  }
+
+  async delete(path: string): Promise<void> {
+    this.apply([{ kind: 'delete', path }]);
+  }
+
+  async query<T>(collectionPath: string, query: StoreQuery = {}): Promise<Array<StoredDocument<T>>> {
+    return this.select<T>(collectionPath, query);
+  }
+
+  watch<T>(
+    collectionPath: string,
+    query: StoreQuery,
+    onChange: (changes: Array<StoreChange<T>>) => void,
+    _onError: (err: Error) => void,
+  ): Unsubscribe {
+    const listener: Listener = {
+      collectionPath,
+      where: query.where ?? [],
+      onChange: onChange as Listener['onChange'],
+      active: true,
+    };
+    this.listeners.add(listener);
+
+    // Snapshot now, deliver asynchronously – later commits are queued behind it
+    const initial = this.select<T>(collectionPath, { ...query, limit: undefined })
+      .map(({ id, data }) => ({ type: 'added' as const, id, data }));
+    this.notify(listener, initial);
+
+    return () => {
+      listener.active = false;
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(listener: Listener, changes: Array<StoreChange<unknown>>): void {
+    if (changes.length === 0) return;
+    setImmediate(() => {
+      if (listener.active) listener.onChange(changes);
+    });
+  }
+
+  private select<T>(collectionPath: string, query: StoreQuery): Array<StoredDocument<T>> {
+    let results = [...this.docs.entries()]
+      .filter(([p]) => parentOf(p) === collectionPath)
+      .filter(([, entry]) => (query.where ?? []).every((clause) => matches(entry.data, clause)));
+
+    if (query.orderBy) {
+      const { field, direction = 'asc' } = query.orderBy;
+      const sign = direction === 'desc' ? -1 : 1;
+      const order = (va: unknown, pa: string, vb: unknown, pb: string): number =>
+        sign * (compare(va, vb) || compare(pa, pb));
+      results = results
+        .filter(([, entry]) => getField(entry.data, field) !== undefined)
+        .sort(([pa, a], [pb, b]) => order(getField(a.data, field), pa, getField(b.data, field), pb));
+      if (query.startAfter) {
+        const { value, id } = query.startAfter;
+        const cursorPath = `${collectionPath}/${id}`;
+        results = results.filter(([p, entry]) => order(getField(entry.data, field), p, value, cursorPath) > 0);
+      }
+    } else {
+      results.sort(([pa], [pb]) => compare(pa, pb));
+    }
+    if (query.limit !== undefined) results = results.slice(0, query.limit);
+
+    return results.map(([p, entry]) => ({
+      id: p.slice(p.lastIndexOf('/') + 1),
+      data: clone(entry.data) as T,
+    }));
+  }
+
+  batch(): StoreBatch {
+    const ops: WriteOp[] = [];
+    return {
+      set: (path, data, options = {}) => {
+        ops.push({ kind: 'set', path, data: clone(data) as Data, merge: options.merge ?? false });
+      },
+      update: (path, data) => {
+        ops.push({ kind: 'update', path, data: clone(data) as Data });
+      },
+      delete: (path) => {
+        ops.push({ kind: 'delete', path });
+      },
+      commit: async () => this.apply(ops),
+    };
+  }
+
+  async runTransaction<T>(fn: (tx: StoreTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const reads = new Map<string, number>();
+      const ops: WriteOp[] = [];
+      const tx: StoreTransaction = {
+        get: async <R>(path: string): Promise<R | null> => {
+          if (ops.length) throw new Error('Transactions require all reads to be executed before all writes');
+          const entry = this.docs.get(path);
+          reads.set(path, entry?.version ?? 0);
+          return entry ? (clone(entry.data) as R) : null;
+        },
+        set: (path, data, options = {}) => {
+          ops.push({ kind: 'set', path, data: clone(data) as Data, merge: options.merge ?? false });
+        },
+        update: (path, data) => {
+          ops.push({ kind: 'update', path, data: clone(data) as Data });
+        },
+        delete: (path) => {
+          ops.push({ kind: 'delete', path });
+        },
+      };
+
+      const result = await fn(tx);
+      try {
+        // Validation and application are synchronous, so no other writer can interleave
+        for (const [path, version] of reads) {
+          if ((this.docs.get(path)?.version ?? 0) !== version) {
+            throw new TransactionConflictError(`Document ${path} changed during transaction`);
+          }
+        }
+        this.apply(ops);
+        return result;
+      } catch (err) {
+        if (!(err instanceof TransactionConflictError) || attempt >= MAX_TRANSACTION_ATTEMPTS) throw err;
+      }
+    }
+  }
+
+  /** Apply all writes atomically: every op is validated before any is applied. */
+  private apply(ops: WriteOp[]): void {
+    const staged = new Map<string, Data | null>();
+    const current = (path: string): Data | null =>
+      staged.has(path) ? staged.get(path)! : this.docs.get(path)?.data ?? null;
+
+    for (const op of ops) {
+      const existing = current(op.path);
+      switch (op.kind) {
+        case 'set':
+          staged.set(op.path, op.merge && existing ? deepMerge(existing, op.data) : op.data);
+          break;
+        case 'update':
+          if (!existing) throw new Error(`No document to update: ${op.path}`);
+          staged.set(op.path, { ...existing, ...op.data });
+          break;
+        case 'delete':
+          staged.set(op.path, null);
+          break;
+      }
+    }
+
+    const before = new Map<string, Data | null>();
+    for (const [path, data] of staged) {
+      before.set(path, this.docs.get(path)?.data ?? null);
+      if (data === null) this.docs.delete(path);
+      else this.docs.set(path, { data, version: ++this.version });
+    }
+
+    for (const listener of this.listeners) {
+      const changes: Array<StoreChange<unknown>> = [];
+      for (const [path, after] of staged) {
+        if (parentOf(path) !== listener.collectionPath) continue;
+        const previous = before.get(path) ?? null;
+        const wasMatch = previous !== null && listener.where.every((c) => matches(previous, c));
+        const isMatch = after !== null && listener.where.every((c) => matches(after, c));
+        const id = path.slice(path.lastIndexOf('/') + 1);
+        if (isMatch) changes.push({ type: wasMatch ? 'modified' : 'added', id, data: clone(after) });
+        else if (wasMatch) changes.push({ type: 'removed', id, data: clone(previous) });
+      }
+      this.notify(listener, changes);
+    }
+  }
+}
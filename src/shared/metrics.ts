@@ -0,0 +1,237 @@
+/**
+ * Pipeline metrics: counters and histograms kept in process memory.
+ *
+ * The pipeline records at four points – every transitionState(), every
+ * receipt claim, every publish and every tool execution – through the
+ * record* helpers below, which also define the metric names and labels.
+ * renderMetrics() returns the registry in the Prometheus text exposition
+ * format; the api function serves it on GET /metrics.
+ *
+ * The registry is per process. Under `npm run dev` that process runs the
+ * whole pipeline; deployed, each function instance only sees its own
+ * measurements, so /metrics on the api never shows the reasoner, executor,
+ * responder or notifier. The cross-function view is the log: with
+ * METRICS_LOG=true (set it on every deployed function) each measurement is
+ * also written as a structured `metric` log entry, which Cloud Logging
+ * log-based metrics aggregate across functions and instances.
+ *
+ * @see https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+import { ConversationState } from './types';
+import { log } from './logger';
+
+const METRICS_LOG = process.env.METRICS_LOG === 'true';
+const METRIC_PREFIX = 'agent_';
+
+/** Upper bounds (seconds) for publish and tool latencies */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+/** Upper bounds (seconds) for time spent in a state – approvals can wait for days */
+const STATE_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300, 900, 3600, 14_400, 86_400, 604_800];
+
+export type MetricLabels = Record<string, string>;
+
+interface Series<T> {
+  labels: MetricLabels;
+  value: T;
+}
+
+interface HistogramValue {
+  /** Per-bucket (non-cumulative) observation counts; the last one is +Inf */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((k) => [k, labels[k]]));
+}
+
+function emit(metric: string, type: string, value: number, labels: MetricLabels): void {
+  if (METRICS_LOG) log.info('metric', { handler: 'metrics', metric, type, value, labels });
+}
+
+export class Counter {
+  readonly type = 'counter';
+  private readonly series = new Map<string, Series<number>>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+    emit(this.name, this.type, value, labels);
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map((s) => `${this.name}${formatLabels(s.labels)} ${s.value}`);
+  }
+}
+
+export class Histogram {
+  readonly type = 'histogram';
+  private readonly series = new Map<string, Series<HistogramValue>>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key)
+      ?? { labels, value: { counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 } };
+    const bucket = this.buckets.findIndex((le) => value <= le);
+    series.value.counts[bucket === -1 ? this.buckets.length : bucket]++;
+    series.value.sum += value;
+    series.value.count++;
+    this.series.set(key, series);
+    emit(this.name, this.type, value, labels);
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      let cumulative = 0;
+      [...this.buckets, '+Inf'].forEach((le, i) => {
+        cumulative += value.counts[i];
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(le) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+// ── Registry ───────────────────────────────────────────────
+
+const registry = new Map<string, Counter | Histogram>();
+
+function counter(name: string, help: string): Counter {
+  const metric = new Counter(METRIC_PREFIX + name, help);
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+function histogram(name: string, help: string, buckets: number[]): Histogram {
+  const metric = new Histogram(METRIC_PREFIX + name, help, buckets);
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+/** All metrics in the Prometheus text exposition format (version 0.0.4). */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ── Pipeline metrics ───────────────────────────────────────
+
+const stateTransitions = counter(
+  'state_transitions_total',
+  'Turn state transitions, by producing handler and state',
+);
+const stateDuration = histogram(
+  'state_duration_seconds',
+  'Time a turn spent in a state before leaving it',
+  STATE_BUCKETS,
+);
+const turnDuration = histogram(
+  'turn_duration_seconds',
+  'Time from opening a turn to its terminal state',
+  STATE_BUCKETS,
+);
+const receiptClaims = counter(
+  'receipt_claims_total',
+  'Receipt claims by consumer handler and outcome (claimed, reclaimed, duplicate, in_flight)',
+);
+const eventsPublished = counter(
+  'events_published_total',
+  'Events published, by producing handler, event type, topic and outcome',
+);
+const publishDuration = histogram(
+  'publish_duration_seconds',
+  'Latency of event publishes, by topic',
+  LATENCY_BUCKETS,
+);
+const toolExecutions = counter(
+  'tool_executions_total',
+  'Tool executions by action and outcome (success, failure) with the failure error code',
+);
+const toolDuration = histogram(
+  'tool_duration_seconds',
+  'Latency of tool executions, by action',
+  LATENCY_BUCKETS,
+);
+
+function secondsSince(iso: string, now = Date.now()): number {
+  return Math.max(now - Date.parse(iso), 0) / 1000;
+}
+
+/**
+ * One committed transitionState(). `enteredAt` is when the turn entered
+ * `from`; intermediate states of a multi-step path take no time.
+ */
+export function recordTransition(t: {
+  handler: string;
+  from: ConversationState;
+  to: ConversationState;
+  enteredAt: string;
+  /** Set when `to` is terminal: when the turn was opened */
+  openedAt?: string;
+}): void {
+  stateTransitions.inc({ handler: t.handler, from: t.from, to: t.to });
+  stateDuration.observe({ state: t.from }, secondsSince(t.enteredAt));
+  if (t.openedAt) turnDuration.observe({ state: t.to }, secondsSince(t.openedAt));
+}
+
+export type ReceiptOutcome = 'claimed' | 'reclaimed' | 'duplicate' | 'in_flight';
+
+export function recordReceiptClaim(handler: string, outcome: ReceiptOutcome): void {
+  receiptClaims.inc({ handler, outcome });
+}
+
+export function recordPublish(p: {
+  handler: string;
+  eventType: string;
+  topic: string;
+  success: boolean;
+  seconds: number;
+}): void {
+  eventsPublished.inc({
+    handler: p.handler,
+    event_type: p.eventType,
+    topic: p.topic,
+    outcome: p.success ? 'success' : 'error',
+  });
+  publishDuration.observe({ topic: p.topic }, p.seconds);
+}
+
+/** `action` must be a registered tool name (or 'unknown') to bound label cardinality. */
+export function recordToolExecution(t: {
+  action: string;
+  success: boolean;
+  errorCode?: string;
+  seconds: number;
+}): void {
+  toolExecutions.inc({
+    action: t.action,
+    outcome: t.success ? 'success' : 'failure',
+    error_code: t.errorCode ?? '',
+  });
+  toolDuration.observe({ action: t.action }, t.seconds);
+}
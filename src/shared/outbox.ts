@@ -0,0 +1,159 @@
+/**
+ * Transactional outbox.
+ *
+ * Events are never published directly by a handler that also changes state.
+ * Instead the event is written to `outbox/{eventId}` in the same transaction
+ * as the state transition (see transitionState), and published afterwards by
+ * a relay:
+ *
+ * 1. Right after the commit, relayOutbox() publishes the entries just written
+ *    and marks them sent (fast path, same request).
+ * 2. The scheduled outboxRelay function calls sweepOutbox(), which
+ *    re-publishes entries still pending after OUTBOX_STRANDED_AFTER_MS –
+ *    i.e. the process crashed between commit and publish.
+ *
+ * Entries may also be delayed (`availableAt` in the future, e.g. executor
+ * retries). The fast path skips them; the sweep publishes them once due.
+ *
+ * Each entry keeps the trace context it was staged in, so a publish by the
+ * sweep still belongs to the trace of the turn that produced the event.
+ *
+ * Delivery is at-least-once: an entry can be published twice if the relay
+ * crashes after publishing but before marking it sent. Consumers already
+ * deduplicate on eventId via receipts.
+ */
+
+import { AgentEvent } from './types';
+import { getStore, StoreTransaction } from './store';
+import { publishEvent } from './event-bus';
+import { currentTraceparent } from './tracing';
+import { log } from './logger';
+
+/** Pending entries younger than this are left to the fast path */
+const OUTBOX_STRANDED_AFTER_MS = Number(process.env.OUTBOX_STRANDED_AFTER_MS) || 30_000;
+/** Entries handled per sweep */
+const OUTBOX_SWEEP_LIMIT = 100;
+
+export interface OutboxEntry {
+  eventId: string;
+  topic: string;
+  event: AgentEvent;
+  status: 'pending' | 'sent';
+  createdAt: string;
+  /** Not published before this time */
+  availableAt: string;
+  attempts: number;
+  lastError?: string;
+  sentAt?: string;
+  pubsubMessageId?: string;
+  /** W3C trace context of the transaction that staged the entry */
+  traceparent?: string;
+}
+
+export interface OutboxMessage {
+  topic: string;
+  event: AgentEvent;
+  /** Publish no earlier than this (ISO-8601); immediately if omitted */
+  availableAt?: string;
+}
+
+/** Stage an outbox entry inside an open transaction. */
+export function stageOutboxEntry(tx: StoreTransaction, { topic, event, availableAt }: OutboxMessage): void {
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    eventId: event.eventId,
+    topic,
+    event,
+    status: 'pending',
+    createdAt: now,
+    availableAt: availableAt ?? now,
+    attempts: 0,
+  };
+  const traceparent = currentTraceparent();
+  if (traceparent) entry.traceparent = traceparent;
+  tx.set(`outbox/${event.eventId}`, entry);
+}
+
+/**
+ * Publish one pending entry and mark it sent.
+ * Returns false (and records the error) if publishing failed.
+ */
+async function publishEntry(entry: OutboxEntry): Promise<boolean> {
+  const path = `outbox/${entry.eventId}`;
+  try {
+    const messageId = await publishEvent(entry.topic, entry.event, entry.traceparent);
+    await getStore().update(path, {
+      status: 'sent',
+      sentAt: new Date().toISOString(),
+      attempts: entry.attempts + 1,
+      pubsubMessageId: messageId,
+    });
+    return true;
+  } catch (err: any) {
+    await getStore().update(path, { attempts: entry.attempts + 1, lastError: err.message }).catch(() => undefined);
+    log.error('Outbox publish failed', {
+      handler: 'outbox',
+      eventId: entry.eventId,
+      conversationId: entry.event.conversationId,
+      topic: entry.topic,
+      error: err.message,
+    });
+    return false;
+  }
+}
+
+/**
+ * Fast path: publish the given entries right after their transaction
+ * committed. Never throws – anything left pending is picked up by the sweep.
+ */
+export async function relayOutbox(eventIds: string[]): Promise<void> {
+  for (const eventId of eventIds) {
+    try {
+      const entry = await getStore().get<OutboxEntry>(`outbox/${eventId}`);
+      if (!entry || entry.status !== 'pending') continue;
+      if (Date.parse(entry.availableAt) > Date.now()) continue;
+      await publishEntry(entry);
+    } catch (err: any) {
+      log.error('Outbox relay failed', { handler: 'outbox', eventId, error: err.message });
+    }
+  }
+}
+
+/**
+ * Publish delayed entries that are due and re-publish immediate entries still
+ * pending after OUTBOX_STRANDED_AFTER_MS. Called by the scheduled
+ * outboxRelay function (and periodically by the local runner).
+ */
+export async function sweepOutbox(): Promise<{ published: number; failed: number }> {
+  const now = new Date().toISOString();
+  const strandedCutoff = new Date(Date.now() - OUTBOX_STRANDED_AFTER_MS).toISOString();
+  const pending = await getStore().query<OutboxEntry>('outbox', {
+    where: [
+      { field: 'status', op: '==', value: 'pending' },
+      { field: 'availableAt', op: '<=', value: now },
+    ],
+    orderBy: { field: 'availableAt' },
+    limit: OUTBOX_SWEEP_LIMIT,
+  });
+
+  let published = 0;
+  let failed = 0;
+  for (const { data: entry } of pending) {
+    const delayed = entry.availableAt !== entry.createdAt;
+    // Recent immediate entries are still being handled by the fast path
+    if (!delayed && entry.createdAt > strandedCutoff) continue;
+
+    if (!delayed) {
+      log.warn('Re-publishing stranded outbox entry', {
+        handler: 'outbox',
+        eventId: entry.eventId,
+        conversationId: entry.event.conversationId,
+        createdAt: entry.createdAt,
+        attempts: entry.attempts,
+      });
+    }
+    if (await publishEntry(entry)) published++;
+    else failed++;
+  }
+  return { published, failed };
+}
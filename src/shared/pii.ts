@@ -0,0 +1,205 @@
+/**
+ * PII detection, redaction and tokenisation of user content.
+ *
+ * The original message text is kept only in the `messages` document. Two
+ * ways keep it out of everything else:
+ *
+ * - Redaction (`[REDACTED_EMAIL]`) is one-way. The logger applies it to
+ *   every structured field, and message reads by API keys without
+ *   `piiAccess` get redacted content.
+ * - Tokenisation (`[EMAIL_3f9a2c1b7d0e]`) is reversible for the pipeline.
+ *   With PII_TOKENIZE=true, content copied into events, the event log,
+ *   clarification answers and (through the reasoner) intent parameters is
+ *   tokenised by eventContent(). A token is an HMAC of the value under
+ *   PII_TOKEN_KEY and the tenant, so no token vault is needed: the executor
+ *   rebuilds the token → value map from the turn's messages
+ *   (piiTokenMap) and detokenises tool parameters right before execution.
+ *
+ * Detectors run in order, each on the output of the previous one, so a
+ * value is only ever matched once. PII_DETECTORS (comma-separated names)
+ * limits detection to the named detectors; registerPiiDetector() adds
+ * custom ones.
+ */
+
+import { createHmac } from 'crypto';
+
+const PII_TOKENIZE = process.env.PII_TOKENIZE === 'true';
+const PII_DETECTORS = process.env.PII_DETECTORS;
+/** Hex characters of the HMAC kept in a token */
+const TOKEN_HASH_LENGTH = 12;
+const TOKEN_PATTERN = /\[[A-Z][A-Z0-9_]*_[0-9a-f]{12}\]/g;
+
+export interface PiiDetector {
+  /** Lower-case name; upper-cased in tokens and redaction markers */
+  name: string;
+  /** Candidate matches (must have the `g` flag) */
+  pattern: RegExp;
+  /** Rejects candidates that only look like PII (checksums, lengths) */
+  validate?: (match: string) => boolean;
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/** Luhn checksum of payment card numbers */
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/** ISO 13616 mod-97 check of an IBAN */
+function ibanValid(value: string): boolean {
+  const iban = value.replace(/ /g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const n = ch >= 'A' ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of n) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+const detectors: PiiDetector[] = [
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    validate: ibanValid,
+  },
+  {
+    name: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => luhnValid(digitsOf(match)),
+  },
+  {
+    name: 'national_id',
+    // US social security number, UK national insurance number
+    pattern: /\b(?:(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}|[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D])\b/g,
+  },
+  {
+    name: 'phone',
+    // International (+CC …) or North American numbers; not bare digit runs,
+    // so dates, amounts and arithmetic are left alone
+    pattern: /(?:(?<![\w+])\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,4}|(?<!\w)\(\d{3}\)[ .-]?\d{3}[ .-]\d{4}|\b\d{3}[.-]\d{3}[.-]\d{4})\b/g,
+    validate: (match) => digitsOf(match).length >= 7 && digitsOf(match).length <= 15,
+  },
+];
+
+/** Add a detector; it runs after the built-in ones. */
+export function registerPiiDetector(detector: PiiDetector): void {
+  if (!detector.pattern.global) throw new Error(`PII detector ${detector.name} needs a global pattern`);
+  detectors.push(detector);
+}
+
+function activeDetectors(): PiiDetector[] {
+  if (PII_DETECTORS === undefined) return detectors;
+  const names = PII_DETECTORS.split(',').map((n) => n.trim());
+  return detectors.filter((d) => names.includes(d.name));
+}
+
+/** Replace every detected value with `replace(detector, value)`. */
+function replacePii(text: string, replace: (detector: PiiDetector, value: string) => string): string {
+  return activeDetectors().reduce((out, detector) =>
+    out.replace(detector.pattern, (match) =>
+      !detector.validate || detector.validate(match) ? replace(detector, match) : match), text);
+}
+
+/** The names of the detectors that match `text`, once each. */
+export function detectPii(text: string): string[] {
+  const found = new Set<string>();
+  replacePii(text, (detector, value) => {
+    found.add(detector.name);
+    return value;
+  });
+  return [...found];
+}
+
+// ── Redaction ──────────────────────────────────────────────
+
+export function redactPii(text: string): string {
+  return replacePii(text, (detector) => `[REDACTED_${detector.name.toUpperCase()}]`);
+}
+
+/**
+ * Redact every string in a JSON-like value. Fields named `…Id` / `…Ids`
+ * are identifiers (e.g. numeric Pub/Sub message ids) and are left as is.
+ */
+export function redactFields<T>(value: T): T {
+  return mapStrings(value, redactPii, (key) => !/Ids?$/.test(key));
+}
+
+function mapStrings<T>(value: T, fn: (s: string) => string, includeKey: (key: string) => boolean = () => true): T {
+  if (typeof value === 'string') return fn(value) as T;
+  if (Array.isArray(value)) return value.map((v) => mapStrings(v, fn, includeKey)) as T;
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) =>
+      [k, includeKey(k) ? mapStrings(v, fn, includeKey) : v])) as T;
+  }
+  return value;
+}
+
+// ── Tokenisation ───────────────────────────────────────────
+
+function tokenFor(tenantId: string, detector: PiiDetector, value: string): string {
+  const key = process.env.PII_TOKEN_KEY;
+  if (!key) throw new Error('PII_TOKEN_KEY must be set to tokenise PII');
+  const hash = createHmac('sha256', key).update(`${tenantId}\0${detector.name}\0${value}`).digest('hex');
+  return `[${detector.name.toUpperCase()}_${hash.slice(0, TOKEN_HASH_LENGTH)}]`;
+}
+
+export function tokenizePii(text: string, tenantId: string): string {
+  return replacePii(text, (detector, value) => tokenFor(tenantId, detector, value));
+}
+
+/**
+ * User content as it may be stored outside the `messages` document:
+ * tokenised with PII_TOKENIZE=true, otherwise unchanged.
+ */
+export function eventContent(text: string, tenantId: string): string {
+  return PII_TOKENIZE ? tokenizePii(text, tenantId) : text;
+}
+
+/** eventContent() applied to every string of a JSON-like value. */
+export function eventFields<T>(value: T, tenantId: string): T {
+  return PII_TOKENIZE ? mapStrings(value, (s) => tokenizePii(s, tenantId)) : value;
+}
+
+export function containsPiiTokens(value: unknown): boolean {
+  let found = false;
+  mapStrings(value, (s) => {
+    found ||= new RegExp(TOKEN_PATTERN.source).test(s);
+    return s;
+  });
+  return found;
+}
+
+/** Token → original value for every PII value in `originals` (the turn's messages). */
+export function piiTokenMap(originals: string[], tenantId: string): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const text of originals) {
+    replacePii(text, (detector, value) => {
+      const token = tokenFor(tenantId, detector, value);
+      tokens.set(token, value);
+      return token;
+    });
+  }
+  return tokens;
+}
+
+/** Replace known tokens in every string of `value`; unknown tokens are kept. */
+export function detokenizePii<T>(value: T, tokens: Map<string, string>): T {
+  return mapStrings(value, (s) => s.replace(TOKEN_PATTERN, (token) => tokens.get(token) ?? token));
+}
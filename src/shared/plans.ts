@@ -0,0 +1,157 @@
+/**
+ * Multi-step plans – an intent whose `steps` run one after another.
+ *
+ * The reasoner requests the first step; the executor runs one step per
+ * action_requested event and, when it succeeds, requests the next one in the
+ * same transaction. A step that fails for good stops the plan: the remaining
+ * steps are skipped and the turn ends in FAILED_EXECUTION.
+ *
+ * Parameters of a step may take the output of an earlier step:
+ *
+ *   { "$ref": "s1" }                  – the main output of step s1 (its tool's `output` path)
+ *   { "$ref": "s1.results.0.title" }  – a path into the result of step s1
+ *
+ * A reference replaces the whole value it stands in for, keeping the type of
+ * the referenced output. References are resolved right before the step runs;
+ * one that does not resolve fails the step with UNRESOLVED_REFERENCE.
+ */
+
+import { getTool } from './tools';
+import { AgentEventPayloads, PlanProgress, PlanStep, ReasoningIntent } from './types';
+
+export const PLAN_MAX_STEPS = Number(process.env.PLAN_MAX_STEPS) || 5;
+export const STEP_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export class PlanReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanReferenceError';
+  }
+}
+
+/** Output of a finished step, as needed to resolve references to it */
+export interface StepOutput {
+  action: string;
+  result: Record<string, unknown>;
+}
+
+interface Reference {
+  $ref: string;
+}
+
+function isReference(value: unknown): value is Reference {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.keys(value).length === 1 && typeof (value as Reference).$ref === 'string';
+}
+
+function mapValues(value: unknown, fn: (ref: Reference) => unknown): unknown {
+  if (isReference(value)) return fn(value);
+  if (Array.isArray(value)) return value.map((v) => mapValues(v, fn));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapValues(v, fn)]));
+  }
+  return value;
+}
+
+/** Step ids referenced anywhere in `value` */
+export function referencedSteps(value: unknown): string[] {
+  const ids = new Set<string>();
+  mapValues(value, (ref) => ids.add(ref.$ref.split('.')[0]));
+  return [...ids];
+}
+
+/** Top-level parameter names whose value contains a reference */
+export function parametersWithReferences(parameters: Record<string, unknown>): string[] {
+  return Object.keys(parameters).filter((key) => referencedSteps(parameters[key]).length > 0);
+}
+
+/** The value at `path` in a step's result; without a path, its tool's main output */
+export function outputValue(output: StepOutput, path: string[] = []): unknown {
+  const fullPath = path.length ? path : (getTool(output.action)?.output ?? '').split('.').filter(Boolean);
+  let value: unknown = output.result;
+  for (const segment of fullPath) {
+    value = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[segment] : undefined;
+  }
+  return value;
+}
+
+/** Replace every reference in `parameters` with the output it points to. */
+export function resolveReferences(
+  parameters: Record<string, unknown>,
+  outputs: Record<string, StepOutput>,
+): Record<string, unknown> {
+  return mapValues(parameters, ({ $ref }) => {
+    const [stepId, ...path] = $ref.split('.');
+    const output = outputs[stepId];
+    if (!output) throw new PlanReferenceError(`Step "${stepId}" has no output to refer to`);
+    const value = outputValue(output, path);
+    if (value === undefined) throw new PlanReferenceError(`Reference "${$ref}" did not resolve to a value`);
+    return value;
+  }) as Record<string, unknown>;
+}
+
+export function findStep(intent: ReasoningIntent, stepId: string): PlanStep | undefined {
+  return intent.steps?.find((s) => s.stepId === stepId);
+}
+
+/** The step after `stepId`, or undefined if it was the last one */
+export function nextStep(intent: ReasoningIntent, stepId: string): PlanStep | undefined {
+  const steps = intent.steps ?? [];
+  return steps[steps.findIndex((s) => s.stepId === stepId) + 1];
+}
+
+/** Payload of the action_requested event for an intent, or for one step of its plan */
+export function actionRequestPayload(
+  intent: ReasoningIntent,
+  step?: PlanStep,
+  attempt?: number,
+): AgentEventPayloads['action_requested'] {
+  return {
+    intentId: intent.intentId,
+    ...(step ? { stepId: step.stepId } : {}),
+    action: step?.action ?? intent.action,
+    parameters: step?.parameters ?? intent.parameters,
+    confidence: intent.confidence,
+    ...(attempt !== undefined ? { attempt } : {}),
+  };
+}
+
+// ── Progress ───────────────────────────────────────────────
+
+/** Progress of a plan whose first step has just been requested */
+export function startPlan(intent: ReasoningIntent): PlanProgress {
+  const steps = intent.steps ?? [];
+  return {
+    intentId: intent.intentId,
+    status: 'running',
+    currentStepId: steps[0]?.stepId ?? null,
+    completedSteps: 0,
+    totalSteps: steps.length,
+    steps: steps.map(({ stepId, action }, i) => ({ stepId, action, status: i === 0 ? 'running' : 'pending' })),
+  };
+}
+
+/**
+ * Record the outcome of step `stepId`: on success the next step starts (or
+ * the plan completes); on failure the remaining steps are skipped.
+ */
+export function advancePlan(progress: PlanProgress, stepId: string, actionId: string, success: boolean): PlanProgress {
+  const steps = progress.steps.map((s) => ({ ...s }));
+  const index = steps.findIndex((s) => s.stepId === stepId);
+  if (index === -1) throw new Error(`Step ${stepId} is not part of plan ${progress.intentId}`);
+  steps[index].status = success ? 'completed' : 'failed';
+  steps[index].actionId = actionId;
+
+  const next = success ? steps[index + 1] : undefined;
+  if (next) next.status = 'running';
+  if (!success) {
+    for (const s of steps.slice(index + 1)) s.status = 'skipped';
+  }
+  return {
+    ...progress,
+    status: next ? 'running' : success ? 'completed' : 'failed',
+    currentStepId: next?.stepId ?? null,
+    completedSteps: steps.filter((s) => s.status === 'completed').length,
+    steps,
+  };
+}
@@ -1,15 +1,37 @@
 /**
  * Pub/Sub utilities.
  *
- * Provides publish functionality and type definitions for
+ * Provides the Pub/Sub EventBus implementation and type definitions for
  * Cloud Functions 2nd gen Pub/Sub event triggers.
+ *
+ * Dead-lettered messages are read from the pull subscriptions created by
+ * scripts/setup.sh. Listing pulls messages and immediately releases them
+ * (ack deadline 0), so they stay in the queue until removed.
  */
 
-import { PubSub, Topic } from '@google-cloud/pubsub';
-import { AgentEvent } from './types';
-import { log } from './logger';
+import { PubSub, Topic, v1 } from '@google-cloud/pubsub';
+import { AgentEvent, AgentEventType } from './types';
+import { EventContractError, parseAgentEvent } from './event-schemas';
+import { currentTraceparent } from './tracing';
+import type { DeadLetterMessage, EventBus } from './event-bus';
+
+/** Dead-letter pull subscription per source topic, as created by scripts/setup.sh */
+const DEAD_LETTER_SUBSCRIPTIONS: Record<string, string> = {
+  [process.env.TOPIC_REASONING || 'reasoning-requested']:
+    process.env.DLQ_REASONING_SUBSCRIPTION || 'reasoning-dead-letter-sub',
+  [process.env.TOPIC_ACTION || 'action-requested']:
+    process.env.DLQ_ACTION_SUBSCRIPTION || 'action-dead-letter-sub',
+  [process.env.TOPIC_RESPONSE || 'response-requested']:
+    process.env.DLQ_RESPONSE_SUBSCRIPTION || 'response-dead-letter-sub',
+  [process.env.TOPIC_STATE_CHANGED || 'state-changed']:
+    process.env.DLQ_STATE_CHANGED_SUBSCRIPTION || 'state-changed-dead-letter-sub',
+};
+/** Upper bound on pull round-trips when searching or draining a dead-letter queue */
+const MAX_DEAD_LETTER_PULLS = 20;
+const PULL_BATCH_SIZE = 100;
 
 let client: PubSub;
+let subscriberClient: v1.SubscriberClient;
 
 function getPubSub(): PubSub {
   if (!client) {
@@ -18,6 +40,13 @@ function getPubSub(): PubSub {
   return client;
 }
 
+function getSubscriberClient(): v1.SubscriberClient {
+  if (!subscriberClient) {
+    subscriberClient = new v1.SubscriberClient();
+  }
+  return subscriberClient;
+}
+
 const topicCache = new Map<string, Topic>();
 
 function getTopic(name: string): Topic {
@@ -28,31 +57,102 @@ function getTopic(name: string): Topic {
 }
 
 /**
- * Publish an AgentEvent to the given Pub/Sub topic.
- * The event is JSON-encoded into the message data field.
+ * Attributes set on every published message (filterable without decoding
+ * data), plus the active span's `traceparent` for the consumer to continue.
  */
-export async function publishEvent(
-  topicName: string,
-  event: AgentEvent,
-): Promise<string> {
-  const topic = getTopic(topicName);
-  const messageId = await topic.publishMessage({
-    data: Buffer.from(JSON.stringify(event)),
-    attributes: {
-      eventId: event.eventId,
-      eventType: event.eventType,
-      conversationId: event.conversationId,
-    },
-  });
-  log.info('Published event', {
-    handler: 'pubsub',
+export function eventAttributes(event: AgentEvent): Record<string, string> {
+  const traceparent = currentTraceparent();
+  return {
     eventId: event.eventId,
     eventType: event.eventType,
+    tenantId: event.tenantId,
     conversationId: event.conversationId,
-    topic: topicName,
-    pubsubMessageId: messageId,
-  });
-  return messageId;
+    ...(traceparent ? { traceparent } : {}),
+  };
+}
+
+type ReceivedMessage = { ackId: string; message: DeadLetterMessage };
+
+export class PubSubEventBus implements EventBus {
+  readonly name = 'pubsub';
+
+  async publish(topicName: string, event: AgentEvent): Promise<string> {
+    return getTopic(topicName).publishMessage({
+      data: Buffer.from(JSON.stringify(event)),
+      attributes: eventAttributes(event),
+    });
+  }
+
+  async listDeadLetters(topic: string, limit: number): Promise<DeadLetterMessage[]> {
+    const subscription = await this.deadLetterSubscription(topic);
+    const received = await this.pull(topic, subscription, Math.min(limit, PULL_BATCH_SIZE));
+    await this.release(subscription, received.map((r) => r.ackId));
+    return received.map((r) => r.message);
+  }
+
+  async removeDeadLetters(topic: string, messageIds?: string[]): Promise<string[]> {
+    const subscription = await this.deadLetterSubscription(topic);
+    const wanted = messageIds ? new Set(messageIds) : undefined;
+    const removed: string[] = [];
+    const leased: string[] = [];
+
+    try {
+      for (let i = 0; i < MAX_DEAD_LETTER_PULLS; i++) {
+        if (wanted && wanted.size === 0) break;
+        const received = await this.pull(topic, subscription, PULL_BATCH_SIZE);
+        if (received.length === 0) break;
+
+        const ack: string[] = [];
+        for (const { ackId, message } of received) {
+          if (!wanted || wanted.delete(message.messageId)) {
+            ack.push(ackId);
+            removed.push(message.messageId);
+          } else {
+            leased.push(ackId);
+          }
+        }
+        if (ack.length) await getSubscriberClient().acknowledge({ subscription, ackIds: ack });
+      }
+    } finally {
+      // Messages pulled but not selected go straight back to the queue
+      await this.release(subscription, leased);
+    }
+    return removed;
+  }
+
+  private async deadLetterSubscription(topic: string): Promise<string> {
+    const name = DEAD_LETTER_SUBSCRIPTIONS[topic];
+    if (!name) throw new Error(`No dead-letter subscription configured for topic ${topic}`);
+    const projectId = await getSubscriberClient().getProjectId();
+    return getSubscriberClient().subscriptionPath(projectId, name);
+  }
+
+  private async pull(topic: string, subscription: string, maxMessages: number): Promise<ReceivedMessage[]> {
+    const [response] = await getSubscriberClient().pull({ subscription, maxMessages, returnImmediately: true });
+    return (response.receivedMessages ?? []).map((received) => {
+      const message = received.message ?? {};
+      const attributes = { ...(message.attributes ?? {}) };
+      const data = message.data ? Buffer.from(message.data as Uint8Array).toString('base64') : '';
+      const publishSeconds = Number(String(message.publishTime?.seconds ?? 0));
+      return {
+        ackId: received.ackId!,
+        message: {
+          messageId: message.messageId!,
+          topic,
+          subscription: attributes.CloudPubSubDeadLetterSourceSubscription,
+          data,
+          attributes,
+          publishTime: publishSeconds ? new Date(publishSeconds * 1000).toISOString() : undefined,
+          deliveryAttempts: Number(attributes.CloudPubSubDeadLetterSourceDeliveryCount) || undefined,
+        },
+      };
+    });
+  }
+
+  private async release(subscription: string, ackIds: string[]): Promise<void> {
+    if (ackIds.length === 0) return;
+    await getSubscriberClient().modifyAckDeadline({ subscription, ackIds, ackDeadlineSeconds: 0 });
+  }
 }
 
 /**
@@ -71,10 +171,22 @@ export interface MessagePublishedData {
 
 /**
  * Decode a Cloud Functions Pub/Sub CloudEvent payload into an AgentEvent.
- * The message data field is base64-encoded JSON.
+ * The message data field is base64-encoded JSON; it is upcast to the current
+ * schema version and validated (see shared/event-schemas.ts). With
+ * `eventTypes`, other event types are rejected as well. Throws
+ * EventContractError.
  */
-export function decodeEventData(data: MessagePublishedData | undefined): AgentEvent {
+export function decodeEventData<T extends AgentEventType>(
+  data: MessagePublishedData | undefined,
+  ...eventTypes: T[]
+): AgentEvent<T> {
   const raw = data?.message?.data;
-  if (!raw) throw new Error('Missing Pub/Sub message data in CloudEvent');
-  return JSON.parse(Buffer.from(raw, 'base64').toString('utf-8')) as AgentEvent;
+  if (!raw) throw new EventContractError('Missing Pub/Sub message data in CloudEvent');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, 'base64').toString('utf-8'));
+  } catch (err: any) {
+    throw new EventContractError(`Message data is not JSON: ${err.message}`);
+  }
+  return parseAgentEvent(parsed, eventTypes.length ? eventTypes : undefined);
 }
@@ -0,0 +1,107 @@
+/**
+ * Quarantine – messages that break the event contract.
+ *
+ * A message that is not JSON, fails its event type's schema or has a type
+ * its topic does not carry can never be processed; redelivering it would
+ * fail the same way until it is dead-lettered. Consumers decode with
+ * decodeOrQuarantine(), which records such a message in
+ * `quarantinedEvents/{id}` – the validation issues, the Pub/Sub attributes
+ * and the raw data – so the consumer can ack it.
+ *
+ * Events of a newer schema version than this deployment knows are not
+ * quarantined: they are nacked and picked up by an updated instance.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AgentEvent, AgentEventType } from './types';
+import { EventContractError } from './event-schemas';
+import { MessagePublishedData, decodeEventData } from './pubsub';
+import { getStore } from './store';
+import { log } from './logger';
+
+export interface QuarantinedEvent {
+  quarantineId: string;
+  /** Consumer that rejected the message */
+  handler: string;
+  /** Pub/Sub message id */
+  pubsubMessageId?: string;
+  /** Envelope fields from the Pub/Sub attributes, when present */
+  eventId?: string;
+  eventType?: string;
+  tenantId?: string;
+  conversationId?: string;
+  reason: string;
+  issues: string[];
+  /** Base64-encoded message data, as received */
+  data: string;
+  attributes: Record<string, string>;
+  quarantinedAt: string;
+}
+
+/** Record a message that broke the event contract. Redeliveries to the same handler overwrite the record. */
+export async function quarantineEvent(
+  handler: string,
+  data: MessagePublishedData | undefined,
+  error: EventContractError,
+): Promise<QuarantinedEvent> {
+  const message = data?.message;
+  const attributes = message?.attributes ?? {};
+  const quarantined: QuarantinedEvent = {
+    quarantineId: message?.messageId ? `${handler}_${message.messageId}` : uuidv4(),
+    handler,
+    pubsubMessageId: message?.messageId,
+    eventId: attributes.eventId,
+    eventType: attributes.eventType,
+    tenantId: attributes.tenantId,
+    conversationId: attributes.conversationId,
+    reason: error.message,
+    issues: error.issues,
+    data: message?.data ?? '',
+    attributes,
+    quarantinedAt: new Date().toISOString(),
+  };
+  await getStore().set(`quarantinedEvents/${quarantined.quarantineId}`, quarantined);
+
+  log.error('Quarantined invalid event', {
+    handler,
+    quarantineId: quarantined.quarantineId,
+    eventId: quarantined.eventId,
+    eventType: quarantined.eventType,
+    conversationId: quarantined.conversationId,
+    error: error.message,
+  });
+  return quarantined;
+}
+
+/**
+ * Decode a consumer's message, accepting only `eventTypes`. Returns null
+ * once an invalid message is quarantined – the caller acks it. Events of a
+ * newer schema version throw, so the message is nacked.
+ */
+export async function decodeOrQuarantine<T extends AgentEventType>(
+  handler: string,
+  data: MessagePublishedData | undefined,
+  ...eventTypes: T[]
+): Promise<AgentEvent<T> | null> {
+  try {
+    return decodeEventData(data, ...eventTypes);
+  } catch (err: any) {
+    if (!(err instanceof EventContractError)) throw err;
+    if (err.retryable) {
+      log.warn('Event not supported by this deployment, retrying', { handler, error: err.message });
+      throw err;
+    }
+    await quarantineEvent(handler, data, err);
+    return null;
+  }
+}
+
+/** Most recently quarantined messages first, optionally for one handler. */
+export async function listQuarantinedEvents(limit: number, handler?: string): Promise<QuarantinedEvent[]> {
+  const docs = await getStore().query<QuarantinedEvent>('quarantinedEvents', {
+    where: handler ? [{ field: 'handler', op: '==', value: handler }] : [],
+    orderBy: { field: 'quarantinedAt', direction: 'desc' },
+    limit,
+  });
+  return docs.map((d) => d.data);
+}
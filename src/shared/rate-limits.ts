@@ -0,0 +1,111 @@
+/**
+ * Rate limits and quotas, stored in the DocumentStore so every function
+ * instance sees the same counters.
+ *
+ *   rateLimits/{bucketId}     – token bucket { tokens, updatedAt }
+ *   quotas/{quotaId}_{day}    – daily counter { count, limit, day }
+ *
+ * Buckets refill continuously; each check is one transaction that refills,
+ * then takes a token if one is available. Quotas count per UTC day and reset
+ * at midnight UTC; a use whose request then failed can be refunded. Old
+ * documents are left for garbage collection.
+ */
+
+import { getStore } from './store';
+
+export interface TokenBucketPolicy {
+  /** Burst size – the bucket holds at most this many tokens */
+  capacity: number;
+  /** Tokens added per second */
+  refillPerSecond: number;
+}
+
+export interface LimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the limit is fully available again */
+  resetSeconds: number;
+  /** Seconds until the next request can succeed (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: string;
+}
+
+interface QuotaState {
+  count: number;
+  limit: number;
+  day: string;
+}
+
+/** Document ids must not contain "/"; keep the rest readable */
+function docId(id: string): string {
+  return encodeURIComponent(id);
+}
+
+/** Take one token from bucket `bucketId` if available. */
+export async function takeToken(bucketId: string, policy: TokenBucketPolicy): Promise<LimitDecision> {
+  const path = `rateLimits/${docId(bucketId)}`;
+  const { capacity, refillPerSecond } = policy;
+
+  return getStore().runTransaction(async (tx) => {
+    const now = Date.now();
+    const state = await tx.get<BucketState>(path);
+    const elapsedSeconds = state ? Math.max(now - Date.parse(state.updatedAt), 0) / 1000 : 0;
+    const available = state ? Math.min(capacity, state.tokens + elapsedSeconds * refillPerSecond) : capacity;
+
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+    tx.set(path, { tokens, updatedAt: new Date(now).toISOString() });
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((capacity - tokens) / refillPerSecond),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+    };
+  });
+}
+
+function quotaPath(quotaId: string, day: string): string {
+  return `quotas/${docId(quotaId)}_${day}`;
+}
+
+/** Count one use against a daily quota of `limit`; refused uses are not counted. */
+export async function consumeDailyQuota(quotaId: string, limit: number): Promise<LimitDecision> {
+  const now = new Date();
+  const day = now.toISOString().slice(0, 10);
+  const path = quotaPath(quotaId, day);
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  const resetSeconds = Math.ceil((midnight - now.getTime()) / 1000);
+
+  return getStore().runTransaction(async (tx) => {
+    const count = (await tx.get<QuotaState>(path))?.count ?? 0;
+    const allowed = count < limit;
+    if (allowed) {
+      const state: QuotaState = { count: count + 1, limit, day };
+      tx.set(path, state);
+    }
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(limit - count - (allowed ? 1 : 0), 0),
+      resetSeconds,
+      retryAfterSeconds: allowed ? 0 : resetSeconds,
+    };
+  });
+}
+
+/** Give back one use of today's quota, e.g. when the request it was counted for failed. */
+export async function refundDailyQuota(quotaId: string): Promise<void> {
+  const path = quotaPath(quotaId, new Date().toISOString().slice(0, 10));
+  await getStore().runTransaction(async (tx) => {
+    const state = await tx.get<QuotaState>(path);
+    if (state && state.count > 0) tx.update(path, { count: state.count - 1 });
+  });
+}
@@ -0,0 +1,339 @@
+/**
+ * Reasoning providers.
+ *
+ * The reasoner turns a user message into a raw intent object – one action,
+ * or a plan of steps – which is then validated against IntentSchema or
+ * PlanSchema. A provider that cannot tell what the message asks for returns
+ * { clarification: { question, choices? } } instead, and is asked again
+ * once the user has answered (see shared/clarifications.ts). Where these
+ * objects come from is pluggable:
+ *
+ * - mock:   deterministic keyword matcher (default, no network)
+ * - openai: any OpenAI-compatible chat-completions endpoint, asked for JSON output
+ *
+ * Selected via REASONING_PROVIDER. Providers never validate their own output –
+ * schema validation stays in the reasoner so every provider is held to the
+ * same contract. A provider may also write the reply to a message from its
+ * tool results (compose, see shared/responses.ts).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { listTools, describeParameters } from './tools';
+import { PLAN_MAX_STEPS } from './plans';
+
+export interface ReasoningRequest {
+  content: string;
+  conversationId: string;
+  messageId: string;
+  /** Questions already asked about this message and the user's answers, oldest first */
+  clarifications?: Array<{ question: string; answer: string }>;
+}
+
+/** A user message and the results of the tool calls made for it */
+export interface CompositionRequest {
+  content: string;
+  results: Array<{ action: string; result: Record<string, unknown> }>;
+}
+
+export interface ReasoningProvider {
+  readonly name: string;
+  /** Produce a raw (unvalidated) intent, plan or clarification question for the given message. */
+  reason(request: ReasoningRequest): Promise<Record<string, unknown>>;
+  /** Write the reply to a message from its tool results; providers without it leave replies to the tools' templates. */
+  compose?(request: CompositionRequest): Promise<string>;
+}
+
+/**
+ * How a provider call failed:
+ * - timeout:          no answer within the configured deadline (retryable)
+ * - provider_error:   network failure or error status from the provider
+ *                     (retryable for 429/5xx, permanent for other 4xx)
+ * - malformed_output: the model answered, but not with a JSON object (or,
+ *                     when composing, with an empty reply) (permanent)
+ */
+export type ReasoningErrorKind = 'timeout' | 'provider_error' | 'malformed_output';
+
+export class ReasoningProviderError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ReasoningErrorKind,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = 'ReasoningProviderError';
+  }
+}
+
+// ── Mock Provider ──────────────────────────────────────────
+
+/**
+ * Simulates LLM reasoning. Deterministic: same input → same output.
+ *
+ * The mock demonstrates the contract between reasoning and execution:
+ * content keywords → structured intent with action + parameters, or a plan
+ * when the message chains requests with "then". Without a keyword it asks
+ * which tool to use, and applies the tool named in the answer.
+ */
+export class MockReasoningProvider implements ReasoningProvider {
+  readonly name = 'mock';
+
+  async reason({ content, conversationId, messageId, clarifications }: ReasoningRequest): Promise<Record<string, unknown>> {
+    return {
+      intentId: uuidv4(),
+      conversationId,
+      messageId,
+      ...keywordPlan(content, clarifications?.map((c) => c.answer)),
+    };
+  }
+}
+
+/** Tools whose `text` input a chained step takes from the previous step's output */
+const TEXT_INPUT_TOOLS = ['summarize', 'translate'];
+
+/** Tools the mock offers when it asks what to do with a message */
+const CLARIFICATION_CHOICES = ['search', 'calculate', 'summarize', 'translate'];
+
+/**
+ * Like keywordIntent, but "search for X then summarize it" becomes a plan:
+ * one step per clause, where a summarize / translate step works on the
+ * output of the step before it.
+ *
+ * A message without a keyword (in some clause) is matched against the
+ * user's `answers` to earlier questions instead, latest first; if none of
+ * them names a tool either, the result is a clarification question.
+ */
+export function keywordPlan(content: string, answers: string[] = []): Record<string, unknown> {
+  const clauses = content.split(/\s*(?:,\s*)?\b(?:and then|then)\b\s*/i).filter((c) => c.trim());
+  const intents = clauses
+    .map((clause) => keywordIntent(clause))
+    .filter((i): i is NonNullable<typeof i> => i !== null);
+  if (clauses.length < 2 || intents.length < clauses.length) {
+    const intent = keywordIntent(content)
+      ?? [...answers].reverse().map((answer) => keywordIntent(answer, content)).find((i) => i !== null);
+    return intent ?? { clarification: clarificationQuestion(content, answers.length > 0) };
+  }
+
+  const steps = intents.map(({ action, parameters }, i) => {
+    const stepId = `s${i + 1}`;
+    if (i === 0 || !TEXT_INPUT_TOOLS.includes(action)) return { stepId, action, parameters };
+    const previous = `s${i}`;
+    return { stepId, action, parameters: { ...parameters, text: { $ref: previous } }, dependsOn: [previous] };
+  });
+  return { steps, confidence: Math.min(...intents.map((i) => i.confidence)) };
+}
+
+function clarificationQuestion(content: string, askedBefore: boolean): { question: string; choices: string[] } {
+  const excerpt = content.length > 80 ? `${content.slice(0, 77)}...` : content;
+  return {
+    question: askedBefore
+      ? `Sorry, I still can't tell. Should I search, calculate, summarize or translate "${excerpt}"?`
+      : `What would you like me to do with "${excerpt}"?`,
+    choices: CLARIFICATION_CHOICES,
+  };
+}
+
+/**
+ * Keyword → action mapping shared by the mock provider and the local LLM
+ * stub. The keywords are looked up in `content`; the parameters are taken
+ * from `subject`, which differs when an answer picks the tool for an
+ * earlier message. Null if no keyword matches.
+ */
+export function keywordIntent(content: string, subject = content): {
+  action: string;
+  parameters: Record<string, unknown>;
+  confidence: number;
+} | null {
+  const lower = content.toLowerCase();
+
+  if (lower.includes('search') || lower.includes('find')) {
+    return { action: 'search', parameters: { query: subject }, confidence: 0.92 };
+  }
+  if (lower.includes('calculate') || lower.includes('compute') || lower.includes('math')) {
+    return { action: 'calculate', parameters: { expression: subject }, confidence: 0.88 };
+  }
+  if (lower.includes('summarize') || lower.includes('summary')) {
+    return { action: 'summarize', parameters: { text: subject }, confidence: 0.85 };
+  }
+  if (lower.includes('translate')) {
+    return { action: 'translate', parameters: { text: subject, targetLang: 'en' }, confidence: 0.90 };
+  }
+  return null;
+}
+
+// ── OpenAI-compatible Provider ─────────────────────────────
+
+export interface OpenAIProviderConfig {
+  /** Base URL including the version prefix, e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+}
+
+/**
+ * Calls a chat-completions endpoint: in JSON mode to reason, returning the
+ * parsed object, and in text mode to compose replies. Ids are assigned here
+ * rather than by the model: the model only decides action, parameters and
+ * confidence.
+ */
+export class OpenAIReasoningProvider implements ReasoningProvider {
+  readonly name = 'openai';
+
+  constructor(private readonly config: OpenAIProviderConfig) {}
+
+  async reason({ content, conversationId, messageId, clarifications }: ReasoningRequest): Promise<Record<string, unknown>> {
+    const text = await this.complete([
+      { role: 'system', content: systemPrompt() },
+      { role: 'user', content },
+      ...(clarifications ?? []).flatMap(({ question, answer }) => [
+        { role: 'assistant', content: JSON.stringify({ clarification: { question } }) },
+        { role: 'user', content: answer },
+      ]),
+    ], true);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new ReasoningProviderError(
+        `Model output is not valid JSON: ${text.slice(0, 200)}`, 'malformed_output', false,
+      );
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ReasoningProviderError('Model output is not a JSON object', 'malformed_output', false);
+    }
+
+    return {
+      ...(parsed as Record<string, unknown>),
+      intentId: uuidv4(),
+      conversationId,
+      messageId,
+    };
+  }
+
+  async compose({ content, results }: CompositionRequest): Promise<string> {
+    const text = await this.complete([
+      { role: 'system', content: COMPOSE_PROMPT },
+      { role: 'user', content },
+      { role: 'user', content: `Tool results: ${JSON.stringify(results)}` },
+    ], false);
+    if (!text.trim()) throw new ReasoningProviderError('Model returned an empty reply', 'malformed_output', false);
+    return text.trim();
+  }
+
+  /**
+   * Send one chat completion request and return the model's message content.
+   * The timeout covers the whole exchange, body included, so a provider that
+   * stalls mid-response cannot hold the reasoner until the function is killed.
+   */
+  private async complete(messages: Array<{ role: string; content: string }>, json: boolean): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: this.config.model,
+            temperature: 0,
+            ...(json ? { response_format: { type: 'json_object' } } : {}),
+            messages,
+          }),
+          signal: controller.signal,
+        });
+      } catch (err: any) {
+        if (controller.signal.aborted) throw this.timeoutError();
+        throw new ReasoningProviderError(`Provider request failed: ${err.message}`, 'provider_error', true);
+      }
+
+      if (!response.ok) {
+        const retryable = response.status === 429 || response.status >= 500;
+        const detail = await response.text().catch(() => '');
+        throw new ReasoningProviderError(
+          `Provider returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+          'provider_error',
+          retryable,
+        );
+      }
+
+      let completion: { choices?: Array<{ message?: { content?: string | null } }> };
+      try {
+        completion = await response.json() as typeof completion;
+      } catch {
+        if (controller.signal.aborted) throw this.timeoutError();
+        throw new ReasoningProviderError('Provider returned a non-JSON response body', 'provider_error', true);
+      }
+
+      const text = completion.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new ReasoningProviderError('Provider response has no message content', 'provider_error', true);
+      }
+      return text;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private timeoutError(): ReasoningProviderError {
+    return new ReasoningProviderError(`Provider did not respond within ${this.config.timeoutMs}ms`, 'timeout', true);
+  }
+}
+
+const COMPOSE_PROMPT = [
+  'You write the assistant\'s reply to the user\'s message, based on the results of the tool calls made for it.',
+  'Answer in plain text, briefly, and only with information contained in the results.',
+].join('\n');
+
+function systemPrompt(): string {
+  const tools = listTools()
+    .map((t) => `- ${t.name}: ${t.description} Parameters: ${describeParameters(t)}`)
+    .join('\n');
+  return [
+    'You convert a user message into a tool call for an agent, or into a plan of tool calls.',
+    'Available tools:',
+    tools,
+    'Respond with a JSON object only, shaped as',
+    '{"action": <tool name>, "parameters": object, "confidence": number between 0 and 1}.',
+    'If the request needs several tool calls in sequence, respond instead with',
+    '{"steps": [{"stepId": "s1", "action": <tool name>, "parameters": object, "dependsOn": [<earlier stepIds>]}, ...],',
+    ` "confidence": number between 0 and 1}, with at most ${PLAN_MAX_STEPS} steps.`,
+    'A parameter value {"$ref": "s1"} is replaced by the main output of step s1;',
+    '{"$ref": "s1.<path>"} selects a field of its result instead.',
+    'If you cannot tell what the user wants, do not guess: respond with',
+    '{"clarification": {"question": string, "choices": [<up to 10 short suggested answers>]}}.',
+    'The user\'s answer follows as the next message; then respond with a tool call or plan.',
+  ].join('\n');
+}
+
+// ── Provider Selection ─────────────────────────────────────
+
+let provider: ReasoningProvider;
+
+export function getReasoningProvider(): ReasoningProvider {
+  if (!provider) {
+    provider = createReasoningProvider(process.env.REASONING_PROVIDER || 'mock');
+  }
+  return provider;
+}
+
+export function createReasoningProvider(name: string): ReasoningProvider {
+  switch (name) {
+    case 'mock':
+      return new MockReasoningProvider();
+    case 'openai':
+      return new OpenAIReasoningProvider({
+        baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.LLM_API_KEY,
+        model: process.env.LLM_MODEL || 'gpt-4o-mini',
+        timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 10_000,
+      });
+    default:
+      throw new Error(`Unknown reasoning provider: ${name}`);
+  }
+}
@@ -0,0 +1,879 @@
+/**
+ * Repository – the pipeline's persistence operations.
+ *
+ * Centralises all storage access and provides:
+ * - Conversation CRUD (including deletion for garbage collection) and
+ *   per-turn state machine enforcement
+ * - Message persistence
+ * - Idempotency receipt checks (transactional)
+ * - Client idempotency keys with response replay
+ * - Event logging
+ * - Intent and action result storage
+ * - Transactional outbox writes alongside state transitions
+ * - Re-driving stuck turns (for the watchdog)
+ * - Paginated reads of conversation subcollections and a merged timeline
+ *
+ * Everything goes through the DocumentStore from getStore(), so the same
+ * code runs on Firestore in production and in memory for local runs.
+ */
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getStore, MAX_BATCH_WRITES, StoreTransaction, Unsubscribe, WhereClause } from './store';
+import { assertTransition, isTerminalState } from './state-machine';
+import { OutboxMessage, relayOutbox, stageOutboxEntry } from './outbox';
+import { EVENT_SCHEMA_VERSIONS } from './event-schemas';
+import { ReceiptOutcome, recordReceiptClaim, recordTransition } from './metrics';
+import {
+  AgentEvent,
+  Conversation,
+  ConversationState,
+  Turn,
+  UserMessage,
+  ReasoningIntent,
+  ActionResult,
+  Approval,
+  Clarification,
+  PlanProgress,
+  TransitionRecord,
+} from './types';
+
+const TOPIC_STATE_CHANGED = process.env.TOPIC_STATE_CHANGED || 'state-changed';
+
+function conversationPath(conversationId: string): string {
+  return `conversations/${conversationId}`;
+}
+
+function turnPath(conversationId: string, messageId: string): string {
+  return `conversations/${conversationId}/turns/${messageId}`;
+}
+
+/** Zero-padded so document ids sort like the sequence numbers */
+function transitionPath(conversationId: string, sequence: number): string {
+  return `conversations/${conversationId}/transitions/${String(sequence).padStart(10, '0')}`;
+}
+
+// ── Conversations ──────────────────────────────────────────
+
+export async function createConversation(conversationId: string, tenantId: string): Promise<Conversation> {
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    conversationId,
+    tenantId,
+    state: 'RECEIVED',
+    status: 'IDLE',
+    turnCount: 0,
+    openTurns: 0,
+    sequence: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getStore().set(conversationPath(conversationId), conversation);
+  return conversation;
+}
+
+/**
+ * Read a conversation. With `tenantId`, a conversation owned by another
+ * tenant is reported as missing, so callers cannot probe for foreign ids.
+ */
+export async function getConversation(conversationId: string, tenantId?: string): Promise<Conversation | null> {
+  const conversation = await getStore().get<Conversation>(conversationPath(conversationId));
+  if (!conversation || conversation.deletingAt) return null;
+  if (tenantId !== undefined && conversation.tenantId !== tenantId) return null;
+  return conversation;
+}
+
+/**
+ * Delete an IDLE conversation with all its subcollections (garbage
+ * collection). The conversation is first marked as deleting – from then on
+ * it reads as missing and cannot open turns – and removed last, so an
+ * interrupted deletion is picked up again by the next run. Returns false if
+ * the conversation is gone or became active.
+ */
+export async function deleteConversation(conversationId: string): Promise<boolean> {
+  const store = getStore();
+  const convPath = conversationPath(conversationId);
+  const marked = await store.runTransaction(async (tx) => {
+    const conversation = await tx.get<Conversation>(convPath);
+    if (!conversation || conversation.status !== 'IDLE') return false;
+    if (!conversation.deletingAt) tx.update(convPath, { deletingAt: new Date().toISOString() });
+    return true;
+  });
+  if (!marked) return false;
+
+  for (const collection of CONVERSATION_COLLECTIONS) {
+    for (;;) {
+      const docs = await store.query(`${convPath}/${collection}`, { limit: MAX_BATCH_WRITES });
+      if (docs.length === 0) break;
+      const batch = store.batch();
+      for (const { id } of docs) batch.delete(`${convPath}/${collection}/${id}`);
+      await batch.commit();
+    }
+  }
+  await store.delete(convPath);
+  return true;
+}
+
+// ── Turns ──────────────────────────────────────────────────
+
+/**
+ * Open a new turn for the given message.
+ * The turn counter and the aggregate status are updated in the same
+ * transaction as the turn document, so concurrent messages on one
+ * conversation always receive distinct turn numbers.
+ */
+export async function openTurn(conversationId: string, messageId: string): Promise<Turn> {
+  const convPath = conversationPath(conversationId);
+
+  return getStore().runTransaction(async (tx) => {
+    const conversation = await tx.get<Conversation>(convPath);
+    if (!conversation || conversation.deletingAt) throw new Error(`Conversation ${conversationId} not found`);
+    const now = new Date().toISOString();
+    const turn: Turn = {
+      messageId,
+      conversationId,
+      turnNumber: (conversation.turnCount ?? 0) + 1,
+      state: 'RECEIVED',
+      createdAt: now,
+      updatedAt: now,
+    };
+    const sequence = (conversation.sequence ?? 0) + 1;
+    tx.set(turnPath(conversationId, messageId), turn);
+    tx.update(convPath, {
+      state: turn.state,
+      status: 'ACTIVE',
+      turnCount: turn.turnNumber,
+      openTurns: (conversation.openTurns ?? 0) + 1,
+      lastMessageId: messageId,
+      plan: null,
+      sequence,
+      updatedAt: now,
+    });
+    const record: TransitionRecord = {
+      sequence,
+      conversationId,
+      messageId,
+      turnNumber: turn.turnNumber,
+      from: null,
+      to: turn.state,
+      conversationStatus: 'ACTIVE',
+      producer: 'api',
+      at: now,
+    };
+    tx.set(transitionPath(conversationId, sequence), record);
+    return turn;
+  });
+}
+
+export async function getTurn(conversationId: string, messageId: string): Promise<Turn | null> {
+  return getStore().get<Turn>(turnPath(conversationId, messageId));
+}
+
+/**
+ * Follow a conversation's transitions with sequence > `afterSequence`, in
+ * order. Existing records are delivered first, then new ones as they commit.
+ */
+export function watchTransitions(
+  conversationId: string,
+  afterSequence: number,
+  onRecords: (records: TransitionRecord[]) => void,
+  onError: (err: Error) => void,
+): Unsubscribe {
+  return getStore().watch<TransitionRecord>(
+    `conversations/${conversationId}/transitions`,
+    {
+      where: [{ field: 'sequence', op: '>', value: afterSequence }],
+      orderBy: { field: 'sequence' },
+    },
+    (changes) => {
+      const added = changes
+        .filter((c) => c.type === 'added')
+        .map((c) => c.data)
+        .sort((a, b) => a.sequence - b.sequence);
+      if (added.length) onRecords(added);
+    },
+    onError,
+  );
+}
+
+export interface EventLogEntry {
+  eventId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Writes committed in the same transaction as a state transition, so the
+ * recorded state never disagrees with the intents, results, event log and
+ * outbound events that produced it.
+ *
+ * Every transition also emits a state_changed event to TOPIC_STATE_CHANGED
+ * through the outbox; the notifier function turns it into webhook deliveries.
+ */
+export interface TransitionEffects {
+  /** Service making the transition (recorded on the TransitionRecord and state_changed event) */
+  producer: AgentEvent['producer'];
+  /** Executor attempt accounting, stored on the turn (and mirrored if latest) */
+  execution?: Pick<Turn, 'attempts' | 'nextAttemptAt'>;
+  /** Plan progress, stored on the turn (and mirrored if latest) */
+  plan?: PlanProgress;
+  intent?: ReasoningIntent;
+  actionResult?: ActionResult;
+  /** Approval request or decision for the turn (see approvals.ts) */
+  approval?: Approval;
+  /** Clarification question asked or answered; replaces the turn's entry for the same question */
+  clarification?: Clarification;
+  /** Messages belonging to the turn, e.g. a clarification question or answer */
+  messages?: UserMessage[];
+  /** Assistant reply to the turn's message; stored with the messages and referenced by the turn */
+  reply?: UserMessage;
+  /** Entries appended to the conversation's events log */
+  events?: EventLogEntry[];
+  /** Events to publish once the transaction has committed (see outbox.ts) */
+  outbox?: OutboxMessage[];
+  /** Abort unless the turn is still in this state (guards decisions made on an earlier read) */
+  expectedState?: ConversationState;
+}
+
+/** Thrown when a transition's `expectedState` no longer matches the turn */
+export class StaleTransitionError extends Error {
+  constructor(messageId: string, readonly actual: ConversationState, readonly expected: ConversationState) {
+    super(`Turn ${messageId} is ${actual}, expected ${expected}`);
+    this.name = 'StaleTransitionError';
+  }
+}
+
+/**
+ * Move the turn opened by `messageId` to `nextState`.
+ *
+ * `nextState` may also be a path of states (e.g. INTENT_VALIDATED →
+ * ACTION_REQUESTED); every step is validated and only the last one is
+ * stored. Any `effects` are written in the same transaction, together with
+ * a TransitionRecord, and outbox entries are relayed right after the commit.
+ *
+ * The conversation document mirrors the state of its most recent turn and
+ * keeps the aggregate status: once the last open turn reaches a terminal
+ * state the conversation becomes IDLE and is ready for the next message.
+ */
+export async function transitionState(
+  conversationId: string,
+  messageId: string,
+  nextState: ConversationState | ConversationState[],
+  effects: TransitionEffects,
+): Promise<void> {
+  const convPath = conversationPath(conversationId);
+  const tPath = turnPath(conversationId, messageId);
+  const path = Array.isArray(nextState) ? nextState : [nextState];
+  if (path.length === 0) throw new Error('transitionState requires at least one state');
+  const finalState = path[path.length - 1];
+
+  const { outboxEventIds, previous } = await getStore().runTransaction(async (tx) => {
+    const [conversation, turn] = await Promise.all([
+      tx.get<Conversation>(convPath),
+      tx.get<Turn>(tPath),
+    ]);
+    if (!conversation) throw new Error(`Conversation ${conversationId} not found`);
+    if (!turn) throw new Error(`Turn ${messageId} not found in conversation ${conversationId}`);
+    if (effects.expectedState && turn.state !== effects.expectedState) {
+      throw new StaleTransitionError(messageId, turn.state, effects.expectedState);
+    }
+    path.reduce((from, to) => {
+      assertTransition(from, to);
+      return to;
+    }, turn.state);
+
+    const now = new Date().toISOString();
+    const turnUpdate: Partial<Turn> = { state: finalState, ...effects.execution, updatedAt: now };
+    if (effects.plan) turnUpdate.plan = effects.plan;
+    if (effects.reply) turnUpdate.replyMessageId = effects.reply.messageId;
+    if (effects.clarification) {
+      const { questionMessageId } = effects.clarification;
+      turnUpdate.clarifications = [
+        ...(turn.clarifications ?? []).filter((c) => c.questionMessageId !== questionMessageId),
+        effects.clarification,
+      ];
+    }
+    tx.update(tPath, turnUpdate);
+
+    const sequence = (conversation.sequence ?? 0) + 1;
+    const update: Partial<Conversation> = { sequence, updatedAt: now };
+    if (conversation.lastMessageId === messageId) {
+      update.state = finalState;
+      Object.assign(update, effects.execution);
+      if (effects.plan) update.plan = effects.plan;
+    }
+    if (isTerminalState(finalState)) {
+      const openTurns = Math.max((conversation.openTurns ?? 1) - 1, 0);
+      update.openTurns = openTurns;
+      update.status = openTurns > 0 ? 'ACTIVE' : 'IDLE';
+    }
+    tx.update(convPath, update);
+
+    const record: TransitionRecord = {
+      sequence,
+      conversationId,
+      messageId,
+      turnNumber: turn.turnNumber,
+      from: turn.state,
+      to: finalState,
+      conversationStatus: update.status ?? conversation.status,
+      producer: effects.producer,
+      intentId: effects.intent?.intentId,
+      actionId: effects.actionResult?.actionId,
+      stepId: effects.actionResult?.stepId,
+      ...effects.execution,
+      at: now,
+    };
+    tx.set(transitionPath(conversationId, sequence), record);
+
+    if (effects.intent) {
+      tx.set(intentPath(effects.intent), effects.intent);
+    }
+    if (effects.actionResult) {
+      tx.set(actionResultPath(effects.actionResult), effects.actionResult);
+    }
+    if (effects.approval) {
+      tx.set(`conversations/${conversationId}/approvals/${messageId}`, effects.approval);
+    }
+    for (const message of [...(effects.messages ?? []), ...(effects.reply ? [effects.reply] : [])]) {
+      tx.set(messagePath(conversationId, message.messageId), message);
+    }
+    for (const entry of effects.events ?? []) {
+      writeEventLog(tx, conversationId, entry);
+    }
+    const stateChanged: AgentEvent = {
+      eventId: uuidv4(),
+      eventType: 'state_changed',
+      schemaVersion: EVENT_SCHEMA_VERSIONS.state_changed,
+      tenantId: conversation.tenantId,
+      conversationId,
+      messageId,
+      timestamp: now,
+      producer: effects.producer,
+      payload: {
+        ...record,
+        eventTypes: (effects.events ?? []).map((e) => e.eventType),
+      },
+    };
+    const outbox = [...(effects.outbox ?? []), { topic: TOPIC_STATE_CHANGED, event: stateChanged }];
+    for (const message of outbox) {
+      stageOutboxEntry(tx, message);
+    }
+    return { outboxEventIds: outbox.map((m) => m.event.eventId), previous: turn };
+  });
+
+  recordTransition({
+    handler: effects.producer,
+    from: previous.state,
+    to: finalState,
+    enteredAt: previous.updatedAt,
+    openedAt: isTerminalState(finalState) ? previous.createdAt : undefined,
+  });
+  await relayOutbox(outboxEventIds);
+}
+
+/**
+ * Append event log entries and outbox events for a conversation without a
+ * state transition (e.g. an admin replay), atomically, then relay the outbox.
+ */
+export async function queueEvents(
+  conversationId: string,
+  effects: Pick<TransitionEffects, 'events' | 'outbox'>,
+): Promise<void> {
+  await getStore().runTransaction(async (tx) => {
+    for (const entry of effects.events ?? []) {
+      writeEventLog(tx, conversationId, entry);
+    }
+    for (const message of effects.outbox ?? []) {
+      stageOutboxEntry(tx, message);
+    }
+  });
+
+  if (effects.outbox?.length) {
+    await relayOutbox(effects.outbox.map((m) => m.event.eventId));
+  }
+}
+
+/**
+ * Re-emit the pending event of a turn that has not moved since `updatedAt`
+ * (watchdog). The turn keeps its state; its redrive counter goes up, and the
+ * event log entries and outbox events are written in the same transaction.
+ * Returns false, writing nothing, if the turn has changed in the meantime.
+ */
+export async function redriveTurn(
+  conversationId: string,
+  messageId: string,
+  expected: Pick<Turn, 'state' | 'updatedAt'>,
+  effects: Pick<TransitionEffects, 'events' | 'outbox'>,
+): Promise<boolean> {
+  const tPath = turnPath(conversationId, messageId);
+
+  const redriven = await getStore().runTransaction(async (tx) => {
+    const turn = await tx.get<Turn>(tPath);
+    if (!turn || turn.state !== expected.state || turn.updatedAt !== expected.updatedAt) return false;
+    tx.update(tPath, { redrives: (turn.redrives ?? 0) + 1, lastRedriveAt: new Date().toISOString() });
+    for (const entry of effects.events ?? []) {
+      writeEventLog(tx, conversationId, entry);
+    }
+    for (const message of effects.outbox ?? []) {
+      stageOutboxEntry(tx, message);
+    }
+    return true;
+  });
+
+  if (redriven && effects.outbox?.length) {
+    await relayOutbox(effects.outbox.map((m) => m.event.eventId));
+  }
+  return redriven;
+}
+
+// ── Messages ───────────────────────────────────────────────
+
+function messagePath(conversationId: string, messageId: string): string {
+  return `conversations/${conversationId}/messages/${messageId}`;
+}
+
+export async function saveMessage(msg: UserMessage): Promise<void> {
+  await getStore().set(messagePath(msg.conversationId, msg.messageId), msg);
+}
+
+export async function getMessage(conversationId: string, messageId: string): Promise<UserMessage | null> {
+  return getStore().get<UserMessage>(messagePath(conversationId, messageId));
+}
+
+// ── Idempotency Receipts ───────────────────────────────────
+
+/**
+ * Stale receipt threshold (ms).
+ * If a receipt has been in "processing" longer than this, it is considered
+ * stuck (the consumer likely crashed) and can be reclaimed by a Pub/Sub
+ * redelivery. This does NOT break idempotency because:
+ *   - Reasoner: re-publishing the same intent (same eventId) is a no-op on the executor side.
+ *   - Executor: checks for existing action results before executing (defense-in-depth).
+ */
+const RECEIPT_STALE_THRESHOLD_MS = 2 * 60 * 1000; // 2 minutes
+
+interface Receipt {
+  eventId: string;
+  handler: string;
+  conversationId: string;
+  messageId: string;
+  status: 'processing' | 'completed';
+  claimedAt: string;
+  retriedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Tries to claim a receipt for the given eventId inside a transaction.
+ *
+ * Possible outcomes:
+ *   1. No receipt exists          → create it, return true  (process the event)
+ *   2. Receipt exists, completed  → return false            (duplicate – skip)
+ *   3. Receipt exists, processing, recent → return false    (another instance is working on it)
+ *   4. Receipt exists, processing, stale  → reclaim it, return true (original consumer crashed)
+ *
+ * Receipts are enriched with handler name, conversation context, and status
+ * so they double as an operational audit trail for debugging. Each outcome
+ * is counted in agent_receipt_claims_total (see metrics.ts).
+ */
+export async function claimReceipt(
+  eventId: string,
+  meta: { handler: string; conversationId: string; messageId: string },
+): Promise<boolean> {
+  const receiptPath = `receipts/${eventId}`;
+
+  const outcome = await getStore().runTransaction(async (tx): Promise<ReceiptOutcome> => {
+    const data = await tx.get<Receipt>(receiptPath);
+
+    if (data) {
+      // Already completed — genuine duplicate, skip.
+      if (data.status === 'completed') return 'duplicate';
+
+      // Still processing — check if it's stale (consumer crashed).
+      if (data.status === 'processing' && data.claimedAt) {
+        const claimedAt = new Date(data.claimedAt).getTime();
+        const age = Date.now() - claimedAt;
+        if (age < RECEIPT_STALE_THRESHOLD_MS) {
+          return 'in_flight';                     // another instance is actively working
+        }
+        // Stale receipt — reclaim for retry.
+        tx.update(receiptPath, {
+          status: 'processing',
+          claimedAt: new Date().toISOString(),
+          retriedAt: new Date().toISOString(),
+        });
+        return 'reclaimed';
+      }
+
+      return 'duplicate';                         // unknown status — safe default
+    }
+
+    // No receipt — first attempt.
+    const receipt: Receipt = {
+      eventId,
+      handler: meta.handler,
+      conversationId: meta.conversationId,
+      messageId: meta.messageId,
+      status: 'processing',
+      claimedAt: new Date().toISOString(),
+    };
+    tx.set(receiptPath, receipt);
+    return 'claimed';
+  });
+
+  recordReceiptClaim(meta.handler, outcome);
+  return outcome === 'claimed' || outcome === 'reclaimed';
+}
+
+/**
+ * Mark a receipt as completed after successful processing.
+ * Uses set-with-merge to be resilient against the edge case where
+ * the receipt doc was lost (partial Firestore failure). A plain
+ * update() would throw if the doc didn’t exist, causing a Pub/Sub
+ * retry that could lead to double side-effects.
+ */
+export async function completeReceipt(eventId: string): Promise<void> {
+  await getStore().set(
+    `receipts/${eventId}`,
+    {
+      status: 'completed',
+      completedAt: new Date().toISOString(),
+    },
+    { merge: true },
+  );
+}
+
+/**
+ * Release a claimed receipt so the next Pub/Sub redelivery can process the
+ * event immediately instead of waiting for the stale threshold. Used when a
+ * handler hits a transient failure and nacks on purpose.
+ */
+export async function releaseReceipt(eventId: string): Promise<void> {
+  await getStore().delete(`receipts/${eventId}`);
+}
+
+// ── Client Idempotency Key ─────────────────────────────────
+
+/** How long a client idempotency key is remembered */
+const IDEMPOTENCY_KEY_TTL_MS = (Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24) * 60 * 60 * 1000;
+/**
+ * A key still "processing" after this long belongs to a request that died
+ * before completing it; the next retry may claim it again.
+ */
+const IDEMPOTENCY_IN_FLIGHT_TIMEOUT_MS = 60 * 1000;
+
+/** Response stored with a completed key and replayed to retries */
+export interface StoredResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+interface IdempotencyRecord {
+  tenantId: string;
+  key: string;
+  /** SHA-256 of the request body the key was first used with */
+  fingerprint: string;
+  messageId: string;
+  status: 'processing' | 'completed';
+  response?: StoredResponse;
+  createdAt: string;
+  completedAt?: string;
+  expiresAt: string;
+}
+
+export type IdempotencyClaim =
+  | { outcome: 'claimed' }
+  | { outcome: 'completed'; response: StoredResponse }
+  | { outcome: 'in_flight' }
+  | { outcome: 'mismatch' };
+
+/** Keys are client-chosen strings; hash them so any key is a valid document id. */
+function idempotencyKeyPath(tenantId: string, key: string): string {
+  return `idempotencyKeys/${tenantId}_${createHash('sha256').update(key).digest('hex')}`;
+}
+
+/**
+ * Atomically claim a client idempotency key (scoped to the tenant) for a
+ * request whose body hashes to `fingerprint`.
+ *
+ * Possible outcomes:
+ *   1. No live key                          → claimed    (process the request)
+ *   2. Completed, same fingerprint          → completed  (replay the stored response)
+ *   3. Processing, same fingerprint, recent → in_flight  (the original is still running)
+ *   4. Processing, same fingerprint, stale  → claimed    (the original died)
+ *   5. Different fingerprint                → mismatch   (key reused for another request)
+ *
+ * Expired keys count as absent. The check and the claim run in one
+ * transaction, so concurrent requests with the same key cannot both proceed.
+ */
+export async function claimIdempotencyKey(
+  tenantId: string,
+  key: string,
+  fingerprint: string,
+  messageId: string,
+): Promise<IdempotencyClaim> {
+  const keyPath = idempotencyKeyPath(tenantId, key);
+
+  return getStore().runTransaction(async (tx) => {
+    const now = Date.now();
+    const existing = await tx.get<IdempotencyRecord>(keyPath);
+
+    if (existing && Date.parse(existing.expiresAt) > now) {
+      if (existing.fingerprint !== fingerprint) return { outcome: 'mismatch' as const };
+      if (existing.status === 'completed' && existing.response) {
+        return { outcome: 'completed' as const, response: existing.response };
+      }
+      if (now - Date.parse(existing.createdAt) < IDEMPOTENCY_IN_FLIGHT_TIMEOUT_MS) {
+        return { outcome: 'in_flight' as const };
+      }
+    }
+
+    const record: IdempotencyRecord = {
+      tenantId,
+      key,
+      fingerprint,
+      messageId,
+      status: 'processing',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + IDEMPOTENCY_KEY_TTL_MS).toISOString(),
+    };
+    tx.set(keyPath, record);
+    return { outcome: 'claimed' as const };
+  });
+}
+
+/** Store the response of a claimed request so retries replay it. */
+export async function completeIdempotencyKey(tenantId: string, key: string, response: StoredResponse): Promise<void> {
+  await getStore().update(idempotencyKeyPath(tenantId, key), {
+    status: 'completed',
+    response,
+    completedAt: new Date().toISOString(),
+  });
+}
+
+/** Drop a claim after a failed request, so a retry is processed from scratch. */
+export async function releaseIdempotencyKey(tenantId: string, key: string): Promise<void> {
+  await getStore().delete(idempotencyKeyPath(tenantId, key));
+}
+
+// ── Event Log ──────────────────────────────────────────────
+
+function eventLogRecord({ eventId, eventType, payload }: EventLogEntry) {
+  return { eventId, eventType, timestamp: new Date().toISOString(), payload };
+}
+
+function writeEventLog(tx: StoreTransaction, conversationId: string, entry: EventLogEntry): void {
+  tx.set(`conversations/${conversationId}/events/${entry.eventId}`, eventLogRecord(entry));
+}
+
+export async function logEvent(
+  conversationId: string,
+  eventId: string,
+  eventType: string,
+  payload: Record<string, unknown>,
+): Promise<void> {
+  await getStore().set(
+    `conversations/${conversationId}/events/${eventId}`,
+    eventLogRecord({ eventId, eventType, payload }),
+  );
+}
+
+// ── Intents ────────────────────────────────────────────────
+
+export async function getIntent(conversationId: string, intentId: string): Promise<ReasoningIntent | null> {
+  return getStore().get<ReasoningIntent>(`conversations/${conversationId}/intents/${intentId}`);
+}
+
+function intentPath(intent: ReasoningIntent): string {
+  return `conversations/${intent.conversationId}/intents/${intent.intentId}`;
+}
+
+export async function saveIntent(intent: ReasoningIntent): Promise<void> {
+  await getStore().set(intentPath(intent), intent);
+}
+
+/** The valid intent the reasoner produced for a turn, if any. */
+export async function findValidIntent(conversationId: string, messageId: string): Promise<ReasoningIntent | null> {
+  const docs = await getStore().query<ReasoningIntent>(`conversations/${conversationId}/intents`, {
+    where: [
+      { field: 'messageId', op: '==', value: messageId },
+      { field: 'valid', op: '==', value: true },
+    ],
+    limit: 1,
+  });
+  return docs[0]?.data ?? null;
+}
+
+// ── Action Results ─────────────────────────────────────────
+
+export async function getActionResult(conversationId: string, actionId: string): Promise<ActionResult | null> {
+  return getStore().get<ActionResult>(`conversations/${conversationId}/actions/${actionId}`);
+}
+
+function actionResultPath(result: ActionResult): string {
+  return `conversations/${result.conversationId}/actions/${result.actionId}`;
+}
+
+export async function saveActionResult(result: ActionResult): Promise<void> {
+  await getStore().set(actionResultPath(result), result);
+}
+
+/**
+ * Check if an action result already exists for a given intentId (and, with
+ * retries, for a given attempt; with plans, for a given step).
+ * Used as defense-in-depth in the executor: even if the receipt check
+ * is bypassed (e.g., partial failure), we avoid duplicate execution.
+ */
+export async function findActionResultByIntentId(
+  conversationId: string,
+  intentId: string,
+  attempt?: number,
+  stepId?: string,
+): Promise<boolean> {
+  const where: WhereClause[] = [{ field: 'intentId', op: '==', value: intentId }];
+  if (attempt !== undefined) where.push({ field: 'attempt', op: '==', value: attempt });
+  if (stepId !== undefined) where.push({ field: 'stepId', op: '==', value: stepId });
+  const results = await getStore().query(`conversations/${conversationId}/actions`, {
+    where,
+    limit: 1,
+  });
+  return results.length > 0;
+}
+
+/** Successful action results of an intent – for a plan, the outputs of its finished steps. */
+export async function listSuccessfulActions(conversationId: string, intentId: string): Promise<ActionResult[]> {
+  const docs = await getStore().query<ActionResult>(`conversations/${conversationId}/actions`, {
+    where: [
+      { field: 'intentId', op: '==', value: intentId },
+      { field: 'success', op: '==', value: true },
+    ],
+  });
+  return docs.map((d) => d.data);
+}
+
+// ── Conversation Reads ─────────────────────────────────────
+
+/** Subcollections of a conversation and the field each is ordered by */
+const COLLECTION_ORDER_FIELDS = {
+  messages: 'createdAt',
+  turns: 'turnNumber',
+  transitions: 'sequence',
+  intents: 'createdAt',
+  actions: 'executedAt',
+  events: 'timestamp',
+  approvals: 'requestedAt',
+} as const;
+
+export type ConversationCollection = keyof typeof COLLECTION_ORDER_FIELDS;
+
+export const CONVERSATION_COLLECTIONS = Object.keys(COLLECTION_ORDER_FIELDS) as ConversationCollection[];
+
+export interface PageOptions {
+  limit: number;
+  order: 'asc' | 'desc';
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+function encodeCursor(value: unknown, id: string): string {
+  return Buffer.from(JSON.stringify({ v: value, id })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { value: unknown; id: string } {
+  try {
+    const { v, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof id !== 'string' || v === undefined) throw new Error();
+    return { value: v, id };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+/**
+ * One page of a conversation subcollection, ordered by its timestamp (or
+ * sequence) field with the document id as tie-breaker.
+ */
+export async function listConversationCollection<T>(
+  conversationId: string,
+  collection: ConversationCollection,
+  { limit, order, cursor }: PageOptions,
+): Promise<Page<T>> {
+  const field = COLLECTION_ORDER_FIELDS[collection];
+  const docs = await getStore().query<T>(`conversations/${conversationId}/${collection}`, {
+    orderBy: { field, direction: order },
+    startAfter: cursor ? decodeCursor(cursor) : undefined,
+    limit: limit + 1,
+  });
+
+  const items = docs.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items: items.map((d) => d.data),
+    nextCursor: docs.length > limit ? encodeCursor((last.data as Record<string, unknown>)[field], last.id) : null,
+  };
+}
+
+export type TimelineKind = 'message' | 'transition' | 'intent' | 'action' | 'event' | 'approval';
+
+export interface TimelineEntry {
+  at: string;
+  kind: TimelineKind;
+  data: Record<string, unknown>;
+}
+
+/** Entries read per subcollection when building a timeline */
+const TIMELINE_LIMIT_PER_COLLECTION = 500;
+
+const TIMELINE_SOURCES: Array<{ collection: ConversationCollection; kind: TimelineKind; timeField: string }> = [
+  { collection: 'messages', kind: 'message', timeField: 'createdAt' },
+  { collection: 'transitions', kind: 'transition', timeField: 'at' },
+  { collection: 'intents', kind: 'intent', timeField: 'createdAt' },
+  { collection: 'actions', kind: 'action', timeField: 'executedAt' },
+  { collection: 'events', kind: 'event', timeField: 'timestamp' },
+  { collection: 'approvals', kind: 'approval', timeField: 'requestedAt' },
+];
+
+/**
+ * Messages, state transitions, intents, action results and event log entries
+ * of a conversation merged into one chronological list. Entries with the
+ * same timestamp keep the order of TIMELINE_SOURCES. `truncated` is set if a
+ * subcollection had more than TIMELINE_LIMIT_PER_COLLECTION documents (the
+ * oldest are returned).
+ */
+export async function getConversationTimeline(
+  conversationId: string,
+): Promise<{ entries: TimelineEntry[]; truncated: boolean }> {
+  const pages = await Promise.all(
+    TIMELINE_SOURCES.map(({ collection }) =>
+      listConversationCollection<Record<string, unknown>>(conversationId, collection, {
+        limit: TIMELINE_LIMIT_PER_COLLECTION,
+        order: 'asc',
+      })),
+  );
+
+  const entries = pages.flatMap((page, i) =>
+    page.items.map((data): TimelineEntry => ({
+      at: data[TIMELINE_SOURCES[i].timeField] as string,
+      kind: TIMELINE_SOURCES[i].kind,
+      data,
+    })));
+  const rank = (kind: TimelineKind) => TIMELINE_SOURCES.findIndex((source) => source.kind === kind);
+  entries.sort((a, b) => a.at.localeCompare(b.at) || rank(a.kind) - rank(b.kind));
+
+  return { entries, truncated: pages.some((page) => page.nextCursor !== null) };
+}
+
@@ -0,0 +1,85 @@
+/**
+ * Response composition – the assistant's reply to a completed turn.
+ *
+ * Once the executor has completed a turn (ACTION_COMPLETED) it requests a
+ * response; the responder renders the action results into an assistant
+ * message and moves the turn to RESPONDED. RESPONSE_COMPOSER selects how:
+ *
+ *   template (default) – each tool's `reply` template, or its main output
+ *   provider           – the reasoning provider's compose(); the templates
+ *                        are used if the provider has none or it fails
+ *
+ * Templates render only the outputs of a plan that no later step consumed,
+ * so "search X then summarize it" is answered with the summary. A provider
+ * sees every step's result. Like the reasoner, it gets the message and the
+ * results as event content – tokenised with PII_TOKENIZE=true – and tokens
+ * in its reply are resolved against them.
+ */
+
+import { getTool } from './tools';
+import { outputValue, StepOutput } from './plans';
+import { getReasoningProvider } from './reasoning';
+import { containsPiiTokens, detokenizePii, eventContent, eventFields, piiTokenMap } from './pii';
+import { ActionResult, ReasoningIntent, UserMessage } from './types';
+import { log } from './logger';
+
+const RESPONSE_COMPOSER = process.env.RESPONSE_COMPOSER || 'template';
+
+export interface ComposedReply {
+  content: string;
+  composedBy: NonNullable<UserMessage['composedBy']>;
+}
+
+/** Successful results of the intent in execution order – one, or one per plan step */
+function orderedOutputs(intent: ReasoningIntent, results: ActionResult[]): Array<StepOutput & { stepId?: string }> {
+  if (!intent.steps) {
+    const done = results.find((r) => r.success);
+    return done ? [{ action: intent.action, result: done.result }] : [];
+  }
+  return intent.steps.flatMap(({ stepId, action }) => {
+    const done = results.find((r) => r.success && r.stepId === stepId);
+    return done ? [{ stepId, action, result: done.result }] : [];
+  });
+}
+
+/** Render outputs with their tools' reply templates, one paragraph each. */
+export function templateReply(outputs: StepOutput[]): string {
+  if (outputs.length === 0) return 'Done.';
+  return outputs.map((output) => {
+    const template = getTool(output.action)?.reply;
+    if (template) return template(output.result);
+    const value = outputValue(output) ?? output.result;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }).join('\n\n');
+}
+
+/** The reply to `content` (the original message), whose turn ran `intent` with the given action results. */
+export async function composeReply(
+  content: string,
+  tenantId: string,
+  intent: ReasoningIntent,
+  results: ActionResult[],
+): Promise<ComposedReply> {
+  const outputs = orderedOutputs(intent, results);
+  const provider = getReasoningProvider();
+  if (RESPONSE_COMPOSER === 'provider' && provider.compose) {
+    try {
+      const stepResults = outputs.map(({ action, result }) => ({ action, result }));
+      const reply = await provider.compose({
+        content: eventContent(content, tenantId),
+        results: eventFields(stepResults, tenantId),
+      });
+      if (!containsPiiTokens(reply)) return { content: reply, composedBy: 'provider' };
+      const tokens = piiTokenMap([content, JSON.stringify(stepResults)], tenantId);
+      return { content: detokenizePii(reply, tokens), composedBy: 'provider' };
+    } catch (err: any) {
+      log.warn('Provider could not compose the reply, using templates', {
+        handler: 'responder', conversationId: intent.conversationId, provider: provider.name, error: err.message,
+      });
+    }
+  }
+
+  const consumed = new Set(intent.steps?.flatMap((s) => s.dependsOn) ?? []);
+  const unconsumed = outputs.filter((o) => !o.stepId || !consumed.has(o.stepId));
+  return { content: templateReply(unconsumed), composedBy: 'template' };
+}
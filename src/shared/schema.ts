@@ -1,20 +1,59 @@
 /**
  * Schema validation for reasoning intent output.
  * Uses Zod for runtime validation – invalid outputs are stored but never executed.
+ *
+ * Validation is two-stage: the intent envelope is checked first, then the
+ * parameters are checked against the schema of the tool named in `action`
+ * (see shared/tools). Parameters are returned in their parsed form, with
+ * tool defaults applied.
+ *
+ * A multi-step plan carries `steps` instead of `action` / `parameters`. Each
+ * step is checked against its tool the same way, except for parameters that
+ * refer to an earlier step's output – those are checked when the step runs.
+ * Steps may only depend on (and refer to) earlier steps, so a valid plan
+ * never has a cycle.
+ *
+ * Instead of an intent, a provider may ask the user a question
+ * ({ clarification: { question, choices? } }); ClarificationSchema checks it.
  */
 
 import { z } from 'zod';
+import { getTool, listTools, formatIssues } from './tools';
+import { PLAN_MAX_STEPS, STEP_ID_PATTERN, referencedSteps, parametersWithReferences } from './plans';
+import { PlanStep } from './types';
+
+const toolName = z.string().refine((name) => getTool(name) !== undefined, (name) => ({
+  message: `Unknown action "${name}". Registered tools: ${listTools().map((t) => t.name).join(', ')}`,
+}));
 
 export const IntentSchema = z.object({
   intentId: z.string().uuid(),
   conversationId: z.string().min(1),
   messageId: z.string().min(1),
-  action: z.enum(['search', 'calculate', 'summarize', 'translate']),
+  action: toolName,
   parameters: z.record(z.unknown()),
   confidence: z.number().min(0).max(1),
 });
 
-export type ValidatedIntent = z.infer<typeof IntentSchema>;
+export const PlanSchema = z.object({
+  intentId: z.string().uuid(),
+  conversationId: z.string().min(1),
+  messageId: z.string().min(1),
+  steps: z.array(z.object({
+    stepId: z.string().regex(STEP_ID_PATTERN, 'Expected 1-32 letters, digits, "_" or "-"'),
+    action: toolName,
+    parameters: z.record(z.unknown()),
+    dependsOn: z.array(z.string()).default([]),
+  })).min(1).max(PLAN_MAX_STEPS),
+  confidence: z.number().min(0).max(1),
+});
+
+export const ClarificationSchema = z.object({
+  question: z.string().min(1).max(500),
+  choices: z.array(z.string().min(1).max(100)).min(1).max(10).optional(),
+});
+
+export type ValidatedIntent = z.infer<typeof IntentSchema> & { steps?: PlanStep[] };
 
 export interface ValidationResult {
   valid: boolean;
@@ -23,14 +62,72 @@ export interface ValidationResult {
 }
 
 export function validateIntent(raw: unknown): ValidationResult {
+  if (typeof raw === 'object' && raw !== null && 'steps' in raw) return validatePlan(raw);
+
   const result = IntentSchema.safeParse(raw);
-  if (result.success) {
-    return { valid: true, data: result.data };
+  if (!result.success) {
+    return { valid: false, error: formatIssues(result.error) };
   }
+
+  const tool = getTool(result.data.action)!;
+  const params = tool.parameters.safeParse(result.data.parameters);
+  if (!params.success) {
+    return {
+      valid: false,
+      error: params.error.issues
+        .map((i) => `parameters.${i.path.join('.')}: ${i.message}`)
+        .join('; '),
+    };
+  }
+  return { valid: true, data: { ...result.data, parameters: params.data } };
+}
+
+function validatePlan(raw: unknown): ValidationResult {
+  const result = PlanSchema.safeParse(raw);
+  if (!result.success) {
+    return { valid: false, error: formatIssues(result.error) };
+  }
+
+  const errors: string[] = [];
+  const earlier = new Set<string>();
+  const steps: PlanStep[] = result.data.steps.map((step, i) => {
+    const prefix = `steps.${i}`;
+    if (earlier.has(step.stepId)) errors.push(`${prefix}.stepId: Duplicate step id "${step.stepId}"`);
+
+    // References count as dependencies; both must point to earlier steps
+    const dependsOn = [...new Set([...step.dependsOn, ...referencedSteps(step.parameters)])];
+    for (const id of dependsOn.filter((d) => !earlier.has(d))) {
+      errors.push(`${prefix}.dependsOn: "${id}" is not an earlier step`);
+    }
+    earlier.add(step.stepId);
+
+    const schema = getTool(step.action)!.parameters;
+    const deferred = parametersWithReferences(step.parameters);
+    const checked = deferred.length && schema instanceof z.ZodObject
+      ? schema.omit(Object.fromEntries(deferred.map((key) => [key, true])))
+      : schema;
+    const params = checked.safeParse(step.parameters);
+    if (!params.success) {
+      errors.push(...params.error.issues.map((issue) => `${prefix}.parameters.${issue.path.join('.')}: ${issue.message}`));
+      return { ...step, dependsOn };
+    }
+    // Parsed values with defaults applied, references kept as they are
+    const parameters = { ...params.data, ...Object.fromEntries(deferred.map((key) => [key, step.parameters[key]])) };
+    return { ...step, parameters, dependsOn };
+  });
+  if (errors.length) return { valid: false, error: errors.join('; ') };
+
+  const { steps: _steps, ...envelope } = result.data;
   return {
-    valid: false,
-    error: result.error.issues
-      .map((i) => `${i.path.join('.')}: ${i.message}`)
-      .join('; '),
+    valid: true,
+    data: { ...envelope, action: steps[0].action, parameters: steps[0].parameters, steps },
   };
 }
+
+export function validateClarification(
+  raw: unknown,
+): { valid: boolean; data?: z.infer<typeof ClarificationSchema>; error?: string } {
+  const result = ClarificationSchema.safeParse(raw);
+  if (!result.success) return { valid: false, error: formatIssues(result.error) };
+  return { valid: true, data: result.data };
+}
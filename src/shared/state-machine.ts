@@ -1,20 +1,33 @@
 /**
- * State machine – defines valid conversation state transitions.
+ * State machine – defines valid turn state transitions.
  * Rejects any transition that is not explicitly allowed.
  */
 
 import { ConversationState } from './types';
 
+// TIMED_OUT is reachable from every non-terminal state (set by the watchdog)
 const VALID_TRANSITIONS: Record<ConversationState, ConversationState[]> = {
-  RECEIVED: ['REASONING_REQUESTED'],
-  REASONING_REQUESTED: ['INTENT_VALIDATED', 'FAILED_VALIDATION'],
-  INTENT_VALIDATED: ['ACTION_REQUESTED'],
-  ACTION_REQUESTED: ['ACTION_COMPLETED', 'FAILED_EXECUTION'],
-  ACTION_COMPLETED: [],          // terminal
+  RECEIVED: ['REASONING_REQUESTED', 'TIMED_OUT'],
+  REASONING_REQUESTED: ['INTENT_VALIDATED', 'NEEDS_CLARIFICATION', 'FAILED_VALIDATION', 'TIMED_OUT'],
+  // Back to REASONING_REQUESTED once the user has answered the question
+  NEEDS_CLARIFICATION: ['REASONING_REQUESTED', 'TIMED_OUT'],
+  INTENT_VALIDATED: ['ACTION_REQUESTED', 'AWAITING_APPROVAL', 'TIMED_OUT'],
+  AWAITING_APPROVAL: ['ACTION_REQUESTED', 'REJECTED', 'TIMED_OUT'],
+  // ACTION_REQUESTED again when a plan step succeeded and the next one is requested
+  ACTION_REQUESTED: ['ACTION_COMPLETED', 'ACTION_REQUESTED', 'RETRYING', 'FAILED_EXECUTION', 'TIMED_OUT'],
+  RETRYING: ['ACTION_COMPLETED', 'ACTION_REQUESTED', 'RETRYING', 'FAILED_EXECUTION', 'TIMED_OUT'],   // RETRYING again on another retryable failure
+  // The responder turns the action results into a reply
+  ACTION_COMPLETED: ['RESPONDED', 'TIMED_OUT'],
+  RESPONDED: [],                 // terminal
   FAILED_VALIDATION: [],         // terminal
   FAILED_EXECUTION: [],          // terminal
+  REJECTED: [],                  // terminal
+  TIMED_OUT: [],                 // terminal
 };
 
+/** Every turn state, in pipeline order */
+export const CONVERSATION_STATES = Object.keys(VALID_TRANSITIONS) as ConversationState[];
+
 export function validateTransition(
   current: ConversationState,
   next: ConversationState,
@@ -33,3 +46,8 @@ export function assertTransition(
     );
   }
 }
+
+/** A state with no outgoing transitions ends the turn. */
+export function isTerminalState(state: ConversationState): boolean {
+  return VALID_TRANSITIONS[state].length === 0;
+}
@@ -0,0 +1,129 @@
+/**
+ * Document store abstraction.
+ *
+ * All persistence goes through this interface, addressed by slash-separated
+ * paths (`conversations/{id}/turns/{messageId}`), so the same repository code
+ * runs against:
+ *
+ * - firestore: Cloud Firestore (default, production)
+ * - memory:    an in-process store for local runs without emulators or a project
+ *
+ * Selected via STORAGE_BACKEND. The surface is intentionally the small subset
+ * of Firestore the pipeline needs – documents, simple queries, batches,
+ * optimistic transactions and collection listeners. Calls made inside a
+ * trace are recorded as spans (see traced-store.ts).
+ */
+
+import { FirestoreStore } from './firestore-store';
+import { MemoryStore } from './memory-store';
+import { TracedStore } from './traced-store';
+
+export type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains';
+
+export interface WhereClause {
+  field: string;
+  op: WhereOp;
+  value: unknown;
+}
+
+export interface StoreQuery {
+  where?: WhereClause[];
+  /** Ties are broken by document id, in the same direction */
+  orderBy?: { field: string; direction?: 'asc' | 'desc' };
+  /** Cursor: start after the document with this `orderBy` value and id (requires orderBy) */
+  startAfter?: { value: unknown; id: string };
+  limit?: number;
+}
+
+export interface StoredDocument<T> {
+  /** Last path segment */
+  id: string;
+  data: T;
+}
+
+export interface StoreChange<T> {
+  type: 'added' | 'modified' | 'removed';
+  /** Last path segment */
+  id: string;
+  data: T;
+}
+
+/** Stops a listener started with DocumentStore.watch(). */
+export type Unsubscribe = () => void;
+
+export interface SetOptions {
+  /** Merge into an existing document instead of replacing it (nested maps are merged) */
+  merge?: boolean;
+}
+
+/**
+ * Writes collected inside runTransaction(). Reads must happen before writes
+ * (same rule as Firestore); writes are applied atomically on commit.
+ */
+export interface StoreTransaction {
+  get<T>(path: string): Promise<T | null>;
+  set(path: string, data: object, options?: SetOptions): void;
+  /** Shallow update of top-level fields; the commit fails if the document does not exist. */
+  update(path: string, data: object): void;
+  delete(path: string): void;
+}
+
+/** Non-transactional write batch, committed atomically. */
+export interface StoreBatch {
+  set(path: string, data: object, options?: SetOptions): void;
+  update(path: string, data: object): void;
+  delete(path: string): void;
+  commit(): Promise<void>;
+}
+
+/** Firestore allows 500 writes per batch; stay below it on every backend */
+export const MAX_BATCH_WRITES = 400;
+
+export interface DocumentStore {
+  readonly name: string;
+  get<T>(path: string): Promise<T | null>;
+  getAll<T>(paths: string[]): Promise<Array<T | null>>;
+  set(path: string, data: object, options?: SetOptions): Promise<void>;
+  /** Shallow update of top-level fields; throws if the document does not exist. */
+  update(path: string, data: object): Promise<void>;
+  delete(path: string): Promise<void>;
+  /** Query the documents directly inside a collection (not its subcollections). */
+  query<T>(collectionPath: string, query?: StoreQuery): Promise<Array<StoredDocument<T>>>;
+  batch(): StoreBatch;
+  /** Run `fn` with optimistic concurrency; it is retried if a read document changed before commit. */
+  runTransaction<T>(fn: (tx: StoreTransaction) => Promise<T>): Promise<T>;
+  /**
+   * Listen to the documents of a collection that match `query.where`. The
+   * first `onChange` call reports all current matches as `added` (in query
+   * order); later calls report committed changes. `limit` is ignored.
+   * `onChange` is not called for empty change sets.
+   */
+  watch<T>(
+    collectionPath: string,
+    query: StoreQuery,
+    onChange: (changes: Array<StoreChange<T>>) => void,
+    onError: (err: Error) => void,
+  ): Unsubscribe;
+}
+
+// ── Backend Selection ──────────────────────────────────────
+
+let store: DocumentStore | undefined;
+
+export function getStore(): DocumentStore {
+  if (!store) {
+    store = new TracedStore(createStore(process.env.STORAGE_BACKEND || 'firestore'));
+  }
+  return store;
+}
+
+function createStore(name: string): DocumentStore {
+  switch (name) {
+    case 'firestore':
+      return new FirestoreStore();
+    case 'memory':
+      return new MemoryStore();
+    default:
+      throw new Error(`Unknown storage backend: ${name}`);
+  }
+}
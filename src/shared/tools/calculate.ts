@@ -0,0 +1,53 @@
+/**
+ * calculate – evaluate an arithmetic expression with the sandboxed
+ * evaluator in ./calculator. Accepts either a plain expression or natural
+ * language ("calculate 15% of 240"); parse and math errors come back as a
+ * failed outcome with a machine-readable errorCode.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './registry';
+import { CalculationError, evaluate, extractExpression } from './calculator';
+
+export const calculateTool = defineTool({
+  name: 'calculate',
+  description:
+    'Evaluate an arithmetic expression. Supports + - * / ^, parentheses, percentages, ' +
+    'sqrt, log, ln, exp, abs, floor, ceil, round, min, max and the constants pi, e, tau.',
+  output: 'answer',
+  reply: (result) => `${result.evaluated} = ${result.answer}`,
+  parameters: z.object({
+    expression: z.string().min(1),
+    /** Decimal places to round the answer to */
+    precision: z.number().int().min(0).max(15).optional(),
+  }),
+  async handler({ expression, precision }) {
+    const extracted = extractExpression(expression);
+    try {
+      const { value } = evaluate(extracted, precision);
+      return {
+        success: true,
+        result: {
+          tool: 'calculate',
+          expression,
+          evaluated: extracted,
+          answer: value,
+        },
+      };
+    } catch (err) {
+      if (!(err instanceof CalculationError)) throw err;
+      return {
+        success: false,
+        result: {
+          tool: 'calculate',
+          expression,
+          evaluated: extracted,
+          errorCode: err.code,
+          position: err.position,
+        },
+        error: err.message,
+        errorCode: err.code,
+      };
+    }
+  },
+});
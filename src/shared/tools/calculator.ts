@@ -0,0 +1,435 @@
+/**
+ * Sandboxed arithmetic evaluator for the calculate tool.
+ *
+ * Expressions are tokenised and parsed into a small AST by a recursive-descent
+ * parser, then evaluated by walking that AST – nothing is ever passed to
+ * eval() or Function(), and only the operators, functions and constants
+ * listed below can be referenced.
+ *
+ * Grammar (lowest to highest precedence):
+ *   additive       := multiplicative (('+' | '-') multiplicative)*
+ *   multiplicative := unary (('*' | '/') unary | implicit-product)*
+ *   unary          := ('+' | '-') unary | power
+ *   power          := postfix ('^' unary)?          (right-associative)
+ *   postfix        := primary '%'*
+ *   primary        := number | constant | function '(' args ')' | '(' additive ')'
+ *
+ * Percentages follow calculator conventions: `15%` is 0.15, and `a + b%` /
+ * `a - b%` adjust `a` by b percent of itself (200 + 10% = 220).
+ */
+
+export type CalculationErrorCode =
+  | 'PARSE_ERROR'
+  | 'UNKNOWN_IDENTIFIER'
+  | 'DIVISION_BY_ZERO'
+  | 'DOMAIN_ERROR'
+  | 'EXPRESSION_TOO_COMPLEX';
+
+export class CalculationError extends Error {
+  constructor(
+    message: string,
+    readonly code: CalculationErrorCode,
+    readonly position?: number,
+  ) {
+    super(message);
+    this.name = 'CalculationError';
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_DEPTH = 64;
+/** Significant digits kept in results; hides binary float noise (0.1 + 0.2). */
+const SIGNIFICANT_DIGITS = 15;
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI,
+};
+
+interface FunctionSpec {
+  minArgs: number;
+  maxArgs: number;
+  apply(args: number[]): number;
+}
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  sqrt: {
+    minArgs: 1, maxArgs: 1,
+    apply: ([x]) => {
+      if (x < 0) throw new CalculationError('sqrt of a negative number', 'DOMAIN_ERROR');
+      return Math.sqrt(x);
+    },
+  },
+  log: {
+    // log(x) is base 10; log(x, base) for any other base
+    minArgs: 1, maxArgs: 2,
+    apply: ([x, base = 10]) => {
+      if (x <= 0) throw new CalculationError('log of a non-positive number', 'DOMAIN_ERROR');
+      if (base <= 0 || base === 1) throw new CalculationError('Invalid logarithm base', 'DOMAIN_ERROR');
+      return Math.log(x) / Math.log(base);
+    },
+  },
+  ln: {
+    minArgs: 1, maxArgs: 1,
+    apply: ([x]) => {
+      if (x <= 0) throw new CalculationError('ln of a non-positive number', 'DOMAIN_ERROR');
+      return Math.log(x);
+    },
+  },
+  exp: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.exp(x) },
+  abs: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.abs(x) },
+  floor: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.floor(x) },
+  ceil: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.ceil(x) },
+  round: {
+    minArgs: 1, maxArgs: 2,
+    apply: ([x, digits = 0]) => {
+      if (!Number.isInteger(digits) || digits < 0 || digits > 15) {
+        throw new CalculationError('round() digits must be an integer between 0 and 15', 'DOMAIN_ERROR');
+      }
+      return roundTo(x, digits);
+    },
+  },
+  min: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, apply: (args) => Math.max(...args) },
+};
+
+// ── Tokeniser ──────────────────────────────────────────────
+
+type TokenType = 'number' | 'ident' | 'op' | 'lparen' | 'rparen' | 'comma';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: number;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const number = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(input.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], pos: i });
+      i += number[0].length;
+      continue;
+    }
+    const ident = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(input.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0].toLowerCase(), pos: i });
+      i += ident[0].length;
+      continue;
+    }
+    if (input.startsWith('**', i)) {
+      tokens.push({ type: 'op', value: '^', pos: i });
+      i += 2;
+      continue;
+    }
+    if ('+-*/^%'.includes(ch)) tokens.push({ type: 'op', value: ch, pos: i });
+    else if (ch === '(') tokens.push({ type: 'lparen', value: ch, pos: i });
+    else if (ch === ')') tokens.push({ type: 'rparen', value: ch, pos: i });
+    else if (ch === ',') tokens.push({ type: 'comma', value: ch, pos: i });
+    else throw new CalculationError(`Unexpected character "${ch}"`, 'PARSE_ERROR', i);
+    i++;
+  }
+  return tokens;
+}
+
+// ── Parser ─────────────────────────────────────────────────
+
+type Node =
+  | { type: 'number'; value: number }
+  | { type: 'percent'; operand: Node }
+  | { type: 'unary'; op: '+' | '-'; operand: Node }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: Node; right: Node; pos: number }
+  | { type: 'call'; name: string; args: Node[]; pos: number };
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): Node {
+    if (this.tokens.length === 0) throw new CalculationError('Empty expression', 'PARSE_ERROR', 0);
+    const node = this.additive();
+    const extra = this.peek();
+    if (extra) throw new CalculationError(`Unexpected "${extra.value}"`, 'PARSE_ERROR', extra.pos);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new CalculationError('Unexpected end of expression', 'PARSE_ERROR', this.length);
+    return token;
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'op' && token.value === value;
+  }
+
+  private enter(): void {
+    if (++this.depth > MAX_DEPTH) {
+      throw new CalculationError('Expression is nested too deeply', 'EXPRESSION_TOO_COMPLEX');
+    }
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+    while (this.isOp('+') || this.isOp('-')) {
+      const { value, pos } = this.next();
+      const right = this.multiplicative();
+      left = { type: 'binary', op: value as '+' | '-', left, right, pos };
+    }
+    return left;
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+    for (;;) {
+      if (this.isOp('*') || this.isOp('/')) {
+        const { value, pos } = this.next();
+        left = { type: 'binary', op: value as '*' | '/', left, right: this.unary(), pos };
+        continue;
+      }
+      // Implicit product: 2(3 + 4), 2pi, (1 + 2)(3 + 4)
+      const token = this.peek();
+      if (token && (token.type === 'lparen' || token.type === 'ident')) {
+        left = { type: 'binary', op: '*', left, right: this.unary(), pos: token.pos };
+        continue;
+      }
+      return left;
+    }
+  }
+
+  private unary(): Node {
+    if (this.isOp('+') || this.isOp('-')) {
+      this.enter();
+      const op = this.next().value as '+' | '-';
+      const node: Node = { type: 'unary', op, operand: this.unary() };
+      this.depth--;
+      return node;
+    }
+    return this.power();
+  }
+
+  private power(): Node {
+    const base = this.postfix();
+    if (this.isOp('^')) {
+      const { pos } = this.next();
+      this.enter();
+      const exponent = this.unary();
+      this.depth--;
+      return { type: 'binary', op: '^', left: base, right: exponent, pos };
+    }
+    return base;
+  }
+
+  private postfix(): Node {
+    let node = this.primary();
+    while (this.isOp('%')) {
+      this.next();
+      node = { type: 'percent', operand: node };
+    }
+    return node;
+  }
+
+  private primary(): Node {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: Number(token.value) };
+
+      case 'lparen': {
+        this.enter();
+        const inner = this.additive();
+        this.expect('rparen', ')');
+        this.depth--;
+        return inner;
+      }
+
+      case 'ident': {
+        if (this.peek()?.type === 'lparen') {
+          if (!Object.hasOwn(FUNCTIONS, token.value)) {
+            throw new CalculationError(`Unknown function "${token.value}"`, 'UNKNOWN_IDENTIFIER', token.pos);
+          }
+          this.next();
+          this.enter();
+          const args: Node[] = [this.additive()];
+          while (this.peek()?.type === 'comma') {
+            this.next();
+            args.push(this.additive());
+          }
+          this.expect('rparen', ')');
+          this.depth--;
+          return { type: 'call', name: token.value, args, pos: token.pos };
+        }
+        if (Object.hasOwn(CONSTANTS, token.value)) {
+          return { type: 'number', value: CONSTANTS[token.value] };
+        }
+        throw new CalculationError(`Unknown identifier "${token.value}"`, 'UNKNOWN_IDENTIFIER', token.pos);
+      }
+
+      default:
+        throw new CalculationError(`Unexpected "${token.value}"`, 'PARSE_ERROR', token.pos);
+    }
+  }
+
+  private expect(type: TokenType, display: string): void {
+    const token = this.peek();
+    if (token?.type !== type) {
+      throw new CalculationError(`Expected "${display}"`, 'PARSE_ERROR', token?.pos ?? this.length);
+    }
+    this.index++;
+  }
+}
+
+// ── Evaluation ─────────────────────────────────────────────
+
+function evaluateNode(node: Node): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+
+    case 'percent':
+      return evaluateNode(node.operand) / 100;
+
+    case 'unary': {
+      const value = evaluateNode(node.operand);
+      return node.op === '-' ? -value : value;
+    }
+
+    case 'call': {
+      const spec = FUNCTIONS[node.name];
+      if (node.args.length < spec.minArgs || node.args.length > spec.maxArgs) {
+        throw new CalculationError(
+          `${node.name}() takes ${describeArity(spec)}, got ${node.args.length}`, 'PARSE_ERROR', node.pos,
+        );
+      }
+      return spec.apply(node.args.map(evaluateNode));
+    }
+
+    case 'binary': {
+      const left = evaluateNode(node.left);
+      // a ± b% adjusts a by b percent of itself
+      if ((node.op === '+' || node.op === '-') && node.right.type === 'percent') {
+        const rate = evaluateNode(node.right);
+        return node.op === '+' ? left * (1 + rate) : left * (1 - rate);
+      }
+      const right = evaluateNode(node.right);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) throw new CalculationError('Division by zero', 'DIVISION_BY_ZERO', node.pos);
+          return left / right;
+        case '^': {
+          const value = Math.pow(left, right);
+          if (Number.isNaN(value)) {
+            throw new CalculationError('Fractional power of a negative number', 'DOMAIN_ERROR', node.pos);
+          }
+          return value;
+        }
+      }
+    }
+  }
+}
+
+function describeArity(spec: FunctionSpec): string {
+  if (spec.maxArgs === Infinity) return `at least ${spec.minArgs} argument(s)`;
+  if (spec.minArgs === spec.maxArgs) return `${spec.minArgs} argument(s)`;
+  return `${spec.minArgs}–${spec.maxArgs} arguments`;
+}
+
+/** Round half away from zero to `digits` decimal places, without float drift. */
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  const rounded = Math.round(Math.abs(Number((value * factor).toPrecision(SIGNIFICANT_DIGITS)))) / factor;
+  return Math.sign(value) * rounded;
+}
+
+export interface CalculationResult {
+  /** Expression that was actually evaluated (after natural-language extraction) */
+  expression: string;
+  value: number;
+}
+
+/**
+ * Parse and evaluate an arithmetic expression.
+ * `precision` rounds the result to that many decimal places; without it the
+ * result is normalised to 15 significant digits.
+ */
+export function evaluate(expression: string, precision?: number): CalculationResult {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new CalculationError(
+      `Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`, 'EXPRESSION_TOO_COMPLEX',
+    );
+  }
+  const ast = new Parser(tokenize(expression), expression.length).parse();
+  const raw = evaluateNode(ast);
+  if (!Number.isFinite(raw)) {
+    throw new CalculationError('Result is not a finite number', 'DOMAIN_ERROR');
+  }
+  const normalised = Number(raw.toPrecision(SIGNIFICANT_DIGITS));
+  const value = precision === undefined ? normalised : roundTo(normalised, precision);
+  return { expression, value: Object.is(value, -0) ? 0 : value };
+}
+
+// ── Natural-language extraction ────────────────────────────
+
+const WORD_OPERATORS: Array<[RegExp, string]> = [
+  [/\bto the power of\b/g, '^'],
+  [/\bdivided by\b/g, '/'],
+  [/\bmultiplied by\b/g, '*'],
+  [/\bsquared\b/g, '^2'],
+  [/\bcubed\b/g, '^3'],
+  [/\bpercent\b/g, '%'],
+  [/\bplus\b/g, '+'],
+  [/\bminus\b/g, '-'],
+  [/\btimes\b/g, '*'],
+  [/\bover\b/g, '/'],
+  // "15% of 240" – only between operands, so "the sum of 2 and 3" keeps its words
+  [/(?<=[\d%)]\s*)\bof\b(?=\s*[\d.(])/g, '*'],
+  [/(\d)\s*x\s*(?=[\d(])/g, '$1*'],
+  [/×/g, '*'],
+  [/÷/g, '/'],
+];
+
+const KNOWN_WORDS = new Set([...Object.keys(CONSTANTS), ...Object.keys(FUNCTIONS)]);
+
+/**
+ * Pull an arithmetic expression out of free text, e.g.
+ *   "calculate 15% of 240"            → "15 % * 240"
+ *   "what is 2 to the power of 10?"   → "2 ^ 10"
+ *   "compute 1,000 divided by 8"      → "1000 / 8"
+ * Words that are not operators, functions or constants are dropped; a plain
+ * expression passes through with only whitespace changes.
+ */
+export function extractExpression(content: string): string {
+  let text = content.toLowerCase();
+  for (const [pattern, replacement] of WORD_OPERATORS) {
+    text = text.replace(pattern, replacement);
+  }
+  // Thousands separators (1,000,000) – only outside function calls, where commas separate arguments
+  if (!/[a-z_]\s*\(/.test(text)) {
+    text = text.replace(/\b(\d{1,3})((?:,\d{3})+)(?!\d)/g, (_m, head: string, rest: string) => head + rest.replace(/,/g, ''));
+  }
+
+  const parts = text.match(/(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|\*\*|[-+*/^%(),]/g) ?? [];
+  // Unknown words are dropped, unless they are called like a function – foo(2) –
+  // in which case they are kept so evaluation reports UNKNOWN_IDENTIFIER.
+  const called = new Set([...text.matchAll(/([a-z_][a-z0-9_]*)\(/g)].map((m) => m[1]));
+  const kept = parts.filter((part) => !/^[a-z_]/.test(part) || KNOWN_WORDS.has(part) || called.has(part));
+  return kept.join(' ');
+}
@@ -0,0 +1,81 @@
+/**
+ * Built-in tools.
+ *
+ * Importing this module registers every built-in tool. Dispatch goes through
+ * executeTool(), which looks the tool up by name and re-validates parameters
+ * against its schema before calling the handler.
+ *
+ * Handlers report expected failures as outcomes. Anything they throw (e.g. a
+ * storage error) is turned into a retryable TOOL_ERROR outcome.
+ *
+ * Every call is a `tool <action>` span; a failed outcome marks it failed.
+ * Outcome and latency are recorded in the tool metrics, under 'unknown' for
+ * actions that are not registered.
+ */
+
+import { registerTool, getTool, formatIssues, ToolOutcome } from './registry';
+import { searchTool } from './search';
+import { calculateTool } from './calculate';
+import { summarizeTool } from './summarize';
+import { translateTool } from './translate';
+import { withSpan } from '../tracing';
+import { recordToolExecution } from '../metrics';
+
+registerTool(searchTool);
+registerTool(calculateTool);
+registerTool(summarizeTool);
+registerTool(translateTool);
+
+export function executeTool(
+  action: string,
+  parameters: Record<string, unknown>,
+): Promise<ToolOutcome> {
+  return withSpan(`tool ${action}`, { attributes: { tool: action } }, async (span) => {
+    const startedAt = Date.now();
+    const outcome = await dispatchTool(action, parameters);
+    recordToolExecution({
+      action: getTool(action) ? action : 'unknown',
+      success: outcome.success,
+      errorCode: outcome.errorCode,
+      seconds: (Date.now() - startedAt) / 1000,
+    });
+    span.setAttributes({ success: outcome.success, errorCode: outcome.errorCode, retryable: outcome.retryable });
+    if (!outcome.success) span.fail(outcome.error);
+    return outcome;
+  });
+}
+
+async function dispatchTool(
+  action: string,
+  parameters: Record<string, unknown>,
+): Promise<ToolOutcome> {
+  const tool = getTool(action);
+  if (!tool) {
+    return { success: false, result: {}, error: `Unknown action: ${action}`, errorCode: 'UNKNOWN_ACTION' };
+  }
+  const parsed = tool.parameters.safeParse(parameters);
+  if (!parsed.success) {
+    return {
+      success: false,
+      result: {},
+      error: `Invalid parameters for ${action}: ${formatIssues(parsed.error)}`,
+      errorCode: 'INVALID_PARAMETERS',
+    };
+  }
+  try {
+    return await tool.handler(parsed.data);
+  } catch (err: any) {
+    return { success: false, result: {}, error: err.message, errorCode: 'TOOL_ERROR', retryable: true };
+  }
+}
+
+export {
+  ToolDefinition,
+  ToolOutcome,
+  defineTool,
+  registerTool,
+  getTool,
+  listTools,
+  describeParameters,
+  formatIssues,
+} from './registry';
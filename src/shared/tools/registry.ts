@@ -0,0 +1,86 @@
+/**
+ * Tool registry.
+ *
+ * Each tool declares its name, a description the reasoner can show to a
+ * model, a Zod schema for its parameters and an async handler. Intent
+ * validation and executor dispatch both go through this registry, so adding
+ * a tool means registering one definition – nothing else changes.
+ */
+
+import { z } from 'zod';
+
+/** Outcome of a single tool invocation, persisted as an ActionResult. */
+export interface ToolOutcome {
+  success: boolean;
+  result: Record<string, unknown>;
+  error?: string;
+  /** Machine-readable failure reason, e.g. DIVISION_BY_ZERO */
+  errorCode?: string;
+  /**
+   * Whether the same call may succeed when tried again (timeouts, unavailable
+   * backends). Failures are permanent unless marked retryable.
+   */
+  retryable?: boolean;
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  parameters: S;
+  /**
+   * Executions allowed per tenant per UTC day (unlimited if unset).
+   * TOOL_DAILY_QUOTAS overrides it per deployment.
+   */
+  dailyQuota?: number;
+  /**
+   * Dot path of the main output in the result (e.g. "summary"); a later plan
+   * step referring to this tool's step without a path receives this value.
+   */
+  output?: string;
+  /**
+   * Template rendering a successful result as the assistant's reply (see
+   * shared/responses.ts); without one the main output is shown as it is.
+   */
+  reply?(result: Record<string, unknown>): string;
+  handler(params: z.infer<S>): Promise<ToolOutcome>;
+}
+
+/** Identity helper so handler parameter types are inferred from the schema. */
+export function defineTool<S extends z.ZodTypeAny>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool;
+}
+
+const tools = new Map<string, ToolDefinition>();
+
+export function registerTool(tool: ToolDefinition): void {
+  if (tools.has(tool.name)) {
+    throw new Error(`Tool already registered: ${tool.name}`);
+  }
+  tools.set(tool.name, tool);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.get(name);
+}
+
+export function listTools(): ToolDefinition[] {
+  return [...tools.values()];
+}
+
+/**
+ * Compact parameter signature for prompts, e.g. `{"text", "targetLang"?}`.
+ * Only object schemas are described field by field.
+ */
+export function describeParameters(tool: ToolDefinition): string {
+  if (!(tool.parameters instanceof z.ZodObject)) return '{}';
+  const fields = Object.entries(tool.parameters.shape as z.ZodRawShape)
+    .map(([key, schema]) => (schema.isOptional() ? `"${key}"?` : `"${key}"`));
+  return `{${fields.join(', ')}}`;
+}
+
+/** Flatten Zod issues into the `path: message; ...` format used in validation errors. */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((i) => `${i.path.join('.')}: ${i.message}`)
+    .join('; ');
+}
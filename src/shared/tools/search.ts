@@ -0,0 +1,46 @@
+/**
+ * search – BM25-ranked lookup in the local knowledge base
+ * (see shared/knowledge-base.ts). Documents are ingested via POST /documents.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './registry';
+import { searchKnowledgeBase, SearchHit } from '../knowledge-base';
+
+/** Passages quoted in a reply */
+const REPLY_MAX_HITS = 3;
+/** Every query reads the postings of each term */
+const SEARCH_DAILY_QUOTA = Number(process.env.SEARCH_DAILY_QUOTA) || 10_000;
+
+export const searchTool = defineTool({
+  name: 'search',
+  description: 'Search the ingested knowledge base for passages relevant to a query.',
+  dailyQuota: SEARCH_DAILY_QUOTA,
+  output: 'results.0.snippet',
+  reply(result) {
+    const hits = (result.results as SearchHit[] | undefined) ?? [];
+    if (hits.length === 0) return `I found nothing in the knowledge base for "${result.query}".`;
+    const total = Number(result.totalResults) || hits.length;
+    return [
+      `I found ${total} passage${total === 1 ? '' : 's'} for "${result.query}":`,
+      ...hits.slice(0, REPLY_MAX_HITS).map((hit) => `- ${hit.title}: ${hit.snippet}`),
+    ].join('\n');
+  },
+  parameters: z.object({
+    query: z.string().min(1),
+    /** Maximum number of passages to return */
+    limit: z.number().int().min(1).max(20).default(5),
+  }),
+  async handler({ query, limit }) {
+    const { hits, totalMatches } = await searchKnowledgeBase(query, limit);
+    return {
+      success: true,
+      result: {
+        tool: 'search',
+        query,
+        results: hits,
+        totalResults: totalMatches,
+      },
+    };
+  },
+});
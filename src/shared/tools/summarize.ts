@@ -0,0 +1,27 @@
+/**
+ * summarize – condense a piece of text.
+ * Mocked: fixed summary.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './registry';
+
+export const summarizeTool = defineTool({
+  name: 'summarize',
+  description: 'Summarize a piece of text.',
+  output: 'summary',
+  reply: (result) => `Summary: ${result.summary}`,
+  parameters: z.object({
+    text: z.string().min(1),
+  }),
+  async handler({ text }) {
+    return {
+      success: true,
+      result: {
+        tool: 'summarize',
+        inputLength: text.length,
+        summary: 'This is a mocked summary of the provided text.',
+      },
+    };
+  },
+});
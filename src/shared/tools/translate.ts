@@ -0,0 +1,28 @@
+/**
+ * translate – translate text into a target language.
+ * Mocked: fixed translation.
+ */
+
+import { z } from 'zod';
+import { defineTool } from './registry';
+
+export const translateTool = defineTool({
+  name: 'translate',
+  description: 'Translate text into a target language (ISO 639-1 code, e.g. "en").',
+  output: 'translation',
+  reply: (result) => `Translation (${result.targetLang}): ${result.translation}`,
+  parameters: z.object({
+    text: z.string().min(1),
+    targetLang: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, 'Expected an ISO 639-1 language code').default('en'),
+  }),
+  async handler({ targetLang }) {
+    return {
+      success: true,
+      result: {
+        tool: 'translate',
+        targetLang,
+        translation: 'This is a mocked translation output.',
+      },
+    };
+  },
+});
@@ -0,0 +1,88 @@
+/**
+ * DocumentStore decorator that records a client span per store call.
+ *
+ * getStore() wraps every backend in it. Calls made outside a trace are
+ * passed straight through, so background work does not start a trace per
+ * read. Transactions are one span (including retries); the reads and writes
+ * inside them are not traced individually. Listeners are not traced.
+ */
+
+import type {
+  DocumentStore,
+  SetOptions,
+  StoreBatch,
+  StoreChange,
+  StoreQuery,
+  StoreTransaction,
+  StoredDocument,
+  Unsubscribe,
+} from './store';
+import { SpanAttributes, currentSpan, withSpan } from './tracing';
+
+export class TracedStore implements DocumentStore {
+  constructor(private readonly inner: DocumentStore) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  private traced<T>(operation: string, attributes: SpanAttributes, fn: () => Promise<T>): Promise<T> {
+    if (!currentSpan()) return fn();
+    return withSpan(`store.${operation}`, {
+      kind: 'client',
+      attributes: { 'db.system': this.inner.name, 'db.operation': operation, ...attributes },
+    }, fn);
+  }
+
+  get<T>(path: string): Promise<T | null> {
+    return this.traced('get', { 'db.path': path }, () => this.inner.get<T>(path));
+  }
+
+  getAll<T>(paths: string[]): Promise<Array<T | null>> {
+    return this.traced('getAll', { 'db.documents': paths.length }, () => this.inner.getAll<T>(paths));
+  }
+
+  set(path: string, data: object, options?: SetOptions): Promise<void> {
+    return this.traced('set', { 'db.path': path }, () => this.inner.set(path, data, options));
+  }
+
+  update(path: string, data: object): Promise<void> {
+    return this.traced('update', { 'db.path': path }, () => this.inner.update(path, data));
+  }
+
+  delete(path: string): Promise<void> {
+    return this.traced('delete', { 'db.path': path }, () => this.inner.delete(path));
+  }
+
+  query<T>(collectionPath: string, query?: StoreQuery): Promise<Array<StoredDocument<T>>> {
+    return this.traced('query', { 'db.path': collectionPath }, async () => {
+      const docs = await this.inner.query<T>(collectionPath, query);
+      currentSpan()?.setAttributes({ 'db.documents': docs.length });
+      return docs;
+    });
+  }
+
+  batch(): StoreBatch {
+    const batch = this.inner.batch();
+    let writes = 0;
+    return {
+      set: (path, data, options) => { writes++; batch.set(path, data, options); },
+      update: (path, data) => { writes++; batch.update(path, data); },
+      delete: (path) => { writes++; batch.delete(path); },
+      commit: () => this.traced('batch', { 'db.writes': writes }, () => batch.commit()),
+    };
+  }
+
+  runTransaction<T>(fn: (tx: StoreTransaction) => Promise<T>): Promise<T> {
+    return this.traced('transaction', {}, () => this.inner.runTransaction(fn));
+  }
+
+  watch<T>(
+    collectionPath: string,
+    query: StoreQuery,
+    onChange: (changes: Array<StoreChange<T>>) => void,
+    onError: (err: Error) => void,
+  ): Unsubscribe {
+    return this.inner.watch(collectionPath, query, onChange, onError);
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Distributed tracing with W3C trace context.
+ *
+ * A trace starts at the api (or continues the caller's `traceparent`
+ * header) and follows the turn through Pub/Sub: the outbox stores the
+ * producer's context with each entry, publishEvent() sets it as the
+ * `traceparent` message attribute, and traceHandler() restores it in each
+ * cloudEvent handler. The active span lives in AsyncLocalStorage, so
+ * nested work – store calls, tool execution, publishes – becomes child
+ * spans without passing contexts around, and every log entry carries the
+ * trace and span id.
+ *
+ * Finished spans go to the exporter selected by TRACE_EXPORTER:
+ *
+ *   none (default) – spans are only used for propagation and log correlation
+ *   log            – one structured log entry per span
+ *   file           – JSON lines appended to TRACE_FILE (default traces.jsonl),
+ *                    for offline runs
+ *
+ * setSpanExporter() installs any other SpanExporter.
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { appendFileSync } from 'fs';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import type { MessagePublishedData } from './pubsub';
+import { log } from './logger';
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  /** W3C `sampled` flag – unsampled spans propagate but are not exported */
+  sampled: boolean;
+}
+
+export type SpanKind = 'server' | 'client' | 'producer' | 'consumer' | 'internal';
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/** A finished span, as handed to the exporter */
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  status: 'ok' | 'error';
+  error?: string;
+  attributes: SpanAttributes;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  /** Parent context; defaults to the active span. A `traceparent` header value is accepted too. */
+  parent?: SpanContext | string;
+  attributes?: SpanAttributes;
+}
+
+// ── Trace Context ──────────────────────────────────────────
+
+export function parseTraceparent(header: string | undefined): SpanContext | undefined {
+  const match = header ? TRACEPARENT_PATTERN.exec(header.trim().toLowerCase()) : null;
+  if (!match || match[1] === INVALID_TRACE_ID || match[2] === INVALID_SPAN_ID) return undefined;
+  return { traceId: match[1], spanId: match[2], sampled: (parseInt(match[3], 16) & 1) === 1 };
+}
+
+export function formatTraceparent({ traceId, spanId, sampled }: SpanContext): string {
+  return `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+}
+
+// ── Spans ──────────────────────────────────────────────────
+
+export class Span {
+  readonly context: SpanContext;
+  readonly parentSpanId?: string;
+  private readonly startedAt = Date.now();
+  private readonly attributes: SpanAttributes;
+  private error?: string;
+  private ended = false;
+
+  constructor(readonly name: string, readonly kind: SpanKind, parent: SpanContext | undefined, attributes: SpanAttributes = {}) {
+    this.context = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      sampled: parent?.sampled ?? true,
+    };
+    this.parentSpanId = parent?.spanId;
+    this.attributes = { ...attributes };
+  }
+
+  setAttributes(attributes: SpanAttributes): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  /** Mark the span as failed; the first error wins. */
+  fail(error: unknown): void {
+    this.error ??= error instanceof Error ? error.message : String(error);
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    if (!this.context.sampled) return;
+    const endedAt = Date.now();
+    exportSpan({
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTime: new Date(this.startedAt).toISOString(),
+      endTime: new Date(endedAt).toISOString(),
+      durationMs: endedAt - this.startedAt,
+      status: this.error === undefined ? 'ok' : 'error',
+      ...(this.error !== undefined ? { error: this.error } : {}),
+      attributes: this.attributes,
+    });
+  }
+}
+
+const activeSpan = new AsyncLocalStorage<Span>();
+
+export function currentSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
+
+/** `traceparent` value of the active span, if any */
+export function currentTraceparent(): string | undefined {
+  const span = currentSpan();
+  return span ? formatTraceparent(span.context) : undefined;
+}
+
+/** Start a span; it is not active until passed to runInSpan(). */
+export function startSpan(name: string, options: SpanOptions = {}): Span {
+  const parent = typeof options.parent === 'string'
+    ? parseTraceparent(options.parent)
+    : options.parent ?? currentSpan()?.context;
+  return new Span(name, options.kind ?? 'internal', parent, options.attributes);
+}
+
+/** Run `fn` with `span` as the active span (the span is not ended). */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return activeSpan.run(span, fn);
+}
+
+/** Run `fn` in a new active span, ended when `fn` settles; a rejection marks it failed. */
+export async function withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+  const span = startSpan(name, options);
+  try {
+    return await runInSpan(span, () => fn(span));
+  } catch (err) {
+    span.fail(err);
+    throw err;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Wrap a cloudEvent handler in a consumer span, continuing the trace of the
+ * message's `traceparent` attribute (a new trace for scheduler ticks).
+ * `messaging.delay_ms` is the time the message spent in Pub/Sub.
+ */
+export function traceHandler(
+  handler: string,
+  fn: (event: CloudEvent<MessagePublishedData>) => Promise<void>,
+): (event: CloudEvent<MessagePublishedData>) => Promise<void> {
+  return (event) => {
+    const message = event.data?.message;
+    const publishedAt = message?.publishTime ? Date.parse(message.publishTime) : NaN;
+    return withSpan(handler, {
+      kind: 'consumer',
+      parent: parseTraceparent(message?.attributes?.traceparent),
+      attributes: {
+        'messaging.message_id': message?.messageId,
+        'messaging.event_type': message?.attributes?.eventType,
+        'messaging.delay_ms': Number.isNaN(publishedAt) ? undefined : Math.max(0, Date.now() - publishedAt),
+        eventId: message?.attributes?.eventId,
+        conversationId: message?.attributes?.conversationId,
+      },
+    }, () => fn(event));
+  };
+}
+
+// ── Exporters ──────────────────────────────────────────────
+
+export interface SpanExporter {
+  readonly name: string;
+  /** Called synchronously when a sampled span ends; must not throw */
+  export(span: SpanRecord): void;
+}
+
+class NoopSpanExporter implements SpanExporter {
+  readonly name = 'none';
+  export(): void {}
+}
+
+class LogSpanExporter implements SpanExporter {
+  readonly name = 'log';
+  export(span: SpanRecord): void {
+    log.debug('Span finished', { handler: 'tracing', span });
+  }
+}
+
+/** Appends one JSON line per span – the file can be loaded into any trace viewer that reads JSON. */
+export class FileSpanExporter implements SpanExporter {
+  readonly name = 'file';
+  constructor(readonly path: string) {}
+  export(span: SpanRecord): void {
+    appendFileSync(this.path, JSON.stringify(span) + '\n');
+  }
+}
+
+let exporter: SpanExporter | undefined;
+
+export function getSpanExporter(): SpanExporter {
+  if (!exporter) {
+    exporter = createSpanExporter(process.env.TRACE_EXPORTER || 'none');
+  }
+  return exporter;
+}
+
+/** Replace the exporter, e.g. with one that ships spans to a tracing backend. */
+export function setSpanExporter(spanExporter: SpanExporter): void {
+  exporter = spanExporter;
+}
+
+function createSpanExporter(name: string): SpanExporter {
+  switch (name) {
+    case 'none':
+      return new NoopSpanExporter();
+    case 'log':
+      return new LogSpanExporter();
+    case 'file':
+      return new FileSpanExporter(process.env.TRACE_FILE || 'traces.jsonl');
+    default:
+      throw new Error(`Unknown trace exporter: ${name}`);
+  }
+}
+
+function exportSpan(span: SpanRecord): void {
+  try {
+    getSpanExporter().export(span);
+  } catch (err: any) {
+    // Tracing must never fail the work it observes
+    log.warn('Span export failed', { handler: 'tracing', spanName: span.name, error: err.message });
+  }
+}
@@ -1,13 +1,39 @@
 /**
  * Event contract types for the AI agent pipeline.
- * Every event flowing through Pub/Sub conforms to this structure.
+ * Every event flowing through Pub/Sub conforms to this structure; the
+ * runtime schemas and version upcasters are in shared/event-schemas.ts.
  */
 
-export interface AgentEvent {
+/** Payload of each event type */
+export interface AgentEventPayloads {
+  /** Reason about `content` – the turn's message, or the original message once a clarification is answered */
+  reasoning_requested: { content: string; answerMessageId?: string };
+  /** Run one tool call: the intent's action, or a plan step */
+  action_requested: {
+    intentId: string;
+    stepId?: string;
+    action: string;
+    parameters: Record<string, unknown>;
+    confidence: number;
+    /** Executor attempt, 1 if omitted */
+    attempt?: number;
+  };
+  response_requested: { intentId: string; actionId?: string };
+  state_changed: TransitionRecord & { eventTypes: string[] };
+  webhook_delivery_requested: { webhookId: string; deliveryId: string };
+}
+
+export type AgentEventType = keyof AgentEventPayloads;
+
+interface AgentEventEnvelope<T extends AgentEventType> {
   /** Globally unique event identifier – used for idempotency */
   eventId: string;
   /** Discriminator for event type */
-  eventType: 'reasoning_requested' | 'action_requested';
+  eventType: T;
+  /** Version of the payload schema for this event type (absent = 1) */
+  schemaVersion: number;
+  /** Tenant owning the conversation (also set as a Pub/Sub attribute) */
+  tenantId: string;
   /** Conversation this event belongs to */
   conversationId: string;
   /** Originating user message */
@@ -15,39 +41,166 @@ export interface AgentEvent {
   /** ISO-8601 timestamp */
   timestamp: string;
   /** Service that produced this event */
-  producer: 'api' | 'reasoner' | 'executor';
+  producer: 'api' | 'reasoner' | 'executor' | 'responder' | 'notifier' | 'watchdog';
   /** Event-specific payload */
-  payload: Record<string, unknown>;
+  payload: AgentEventPayloads[T];
 }
 
-/** Conversation state machine */
+/** An event of one of the given types; narrowing `eventType` narrows `payload` */
+export type AgentEvent<T extends AgentEventType = AgentEventType> = { [K in T]: AgentEventEnvelope<K> }[T];
+
+/**
+ * Turn state machine.
+ * Every user message opens a new turn; each turn moves through these states
+ * independently, so a conversation can accept follow-up messages after an
+ * earlier turn has reached a terminal state.
+ */
 export type ConversationState =
   | 'RECEIVED'
   | 'REASONING_REQUESTED'
+  | 'NEEDS_CLARIFICATION'
   | 'INTENT_VALIDATED'
+  | 'AWAITING_APPROVAL'
   | 'ACTION_REQUESTED'
+  | 'RETRYING'
   | 'ACTION_COMPLETED'
+  | 'RESPONDED'
   | 'FAILED_VALIDATION'
-  | 'FAILED_EXECUTION';
+  | 'FAILED_EXECUTION'
+  | 'REJECTED'
+  | 'TIMED_OUT';
+
+/**
+ * Aggregate conversation status.
+ * ACTIVE while at least one turn is still in a non-terminal state, IDLE otherwise.
+ */
+export type ConversationStatus = 'ACTIVE' | 'IDLE';
 
 /** Firestore conversation document */
 export interface Conversation {
   conversationId: string;
+  /** Tenant of the API key that created the conversation; only it can read or extend it */
+  tenantId: string;
+  /** State of the most recent turn */
+  state: ConversationState;
+  status: ConversationStatus;
+  /** Number of turns opened so far (also the turnNumber of the latest turn) */
+  turnCount: number;
+  /** Number of turns not yet in a terminal state */
+  openTurns: number;
+  /** Sequence number of the latest TransitionRecord (0 before the first turn) */
+  sequence?: number;
+  /** messageId of the most recent turn */
+  lastMessageId?: string;
+  /** Executor attempts of the most recent turn */
+  attempts?: number;
+  /** Next executor attempt of the most recent turn, while it is RETRYING */
+  nextAttemptAt?: string | null;
+  /** Plan progress of the most recent turn (null if it did not run a multi-step plan) */
+  plan?: PlanProgress | null;
+  /** Set when garbage collection starts deleting the conversation; it is then treated as gone */
+  deletingAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One request/response cycle within a conversation.
+ * Stored under conversations/{conversationId}/turns/{messageId} – the turn is
+ * keyed by the user message that opened it.
+ */
+export interface Turn {
+  messageId: string;
+  conversationId: string;
+  /** 1-based position of this turn within the conversation */
+  turnNumber: number;
   state: ConversationState;
+  /** Executor attempts made so far */
+  attempts?: number;
+  /** When the next executor attempt is due; set while RETRYING, null otherwise */
+  nextAttemptAt?: string | null;
+  /** Progress of the turn's multi-step plan, if the reasoner produced one */
+  plan?: PlanProgress;
+  /** Questions the reasoner asked about the message, oldest first */
+  clarifications?: Clarification[];
+  /** Assistant message replying to the turn's message, once RESPONDED */
+  replyMessageId?: string;
+  /** Times the watchdog re-emitted this turn's pending event */
+  redrives?: number;
+  lastRedriveAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
-/** User message stored in Firestore */
+/**
+ * One state change of a turn, appended in the same transaction as the change.
+ * Stored under conversations/{conversationId}/transitions/{sequence}; the
+ * sequence is per conversation and strictly increasing, so it orders the
+ * progress of all turns (and serves as the SSE event id of the stream).
+ */
+export interface TransitionRecord {
+  sequence: number;
+  conversationId: string;
+  messageId: string;
+  turnNumber: number;
+  /** null when the turn was opened */
+  from: ConversationState | null;
+  to: ConversationState;
+  /** Conversation status after this transition */
+  conversationStatus: ConversationStatus;
+  /** Service that made the transition */
+  producer: AgentEvent['producer'];
+  /** Intent / action result written in the same transaction */
+  intentId?: string;
+  actionId?: string;
+  /** Plan step of the action result, for multi-step plans */
+  stepId?: string;
+  attempts?: number;
+  nextAttemptAt?: string | null;
+  at: string;
+}
+
+/**
+ * Message stored in Firestore. Most are user messages that open a turn;
+ * clarification questions and replies (assistant) and answers to the
+ * questions (user) belong to the turn of the message they are about.
+ */
 export interface UserMessage {
   messageId: string;
   conversationId: string;
+  tenantId: string;
+  /** Absent on messages stored before assistant messages existed (= user) */
+  role?: 'user' | 'assistant';
   content: string;
+  /** Suggested answers to a clarification question */
+  choices?: string[];
+  /** How an assistant reply was written (see shared/responses.ts) */
+  composedBy?: 'template' | 'provider';
+  /** Message that opened the turn, for messages that did not open one themselves */
+  turnMessageId?: string;
+  /** API key that posted a user message; absent on older and assistant messages */
+  apiKeyId?: string;
   createdAt: string;
   /** Client-supplied idempotency key to prevent duplicate API submissions */
   idempotencyKey?: string;
 }
 
+/**
+ * A question the reasoner asked because it could not tell what a message
+ * meant, and the user's answer (see shared/clarifications.ts).
+ */
+export interface Clarification {
+  /** Assistant message carrying the question */
+  questionMessageId: string;
+  question: string;
+  choices?: string[];
+  askedAt: string;
+  /** User message that answered it; unset while the question is open */
+  answerMessageId?: string;
+  answer?: string;
+  answeredAt?: string;
+}
+
 /** Structured intent produced by the reasoner */
 export interface ReasoningIntent {
   intentId: string;
@@ -56,11 +209,42 @@ export interface ReasoningIntent {
   action: string;
   parameters: Record<string, unknown>;
   confidence: number;
+  /**
+   * Ordered steps of a multi-step plan; `action` and `parameters` then
+   * repeat the first step. Absent for single-action intents.
+   */
+  steps?: PlanStep[];
   createdAt: string;
   valid: boolean;
   validationError?: string;
 }
 
+/**
+ * One step of a plan. A parameter value of the form { "$ref": "<stepId>" }
+ * or { "$ref": "<stepId>.<path>" } is replaced, before the step runs, by the
+ * output of that earlier step (see shared/plans.ts).
+ */
+export interface PlanStep {
+  stepId: string;
+  action: string;
+  parameters: Record<string, unknown>;
+  /** Earlier steps this step needs; includes every step it references */
+  dependsOn: string[];
+}
+
+export type PlanStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+/** Execution progress of a plan, stored on the turn and mirrored on the conversation */
+export interface PlanProgress {
+  intentId: string;
+  status: 'running' | 'completed' | 'failed';
+  /** Step being executed (null once the plan has finished) */
+  currentStepId: string | null;
+  completedSteps: number;
+  totalSteps: number;
+  steps: Array<{ stepId: string; action: string; status: PlanStepStatus; actionId?: string }>;
+}
+
 /** Action execution result */
 export interface ActionResult {
   actionId: string;
@@ -71,4 +255,39 @@ export interface ActionResult {
   executedAt: string;
   success: boolean;
   error?: string;
+  /** Machine-readable failure reason reported by the tool */
+  errorCode?: string;
+  /** Plan step this result belongs to (multi-step plans only) */
+  stepId?: string;
+  /** 1-based executor attempt that produced this result (per step for plans) */
+  attempt: number;
+  /** Whether the failure was classified as transient by the tool */
+  retryable?: boolean;
+  /** Set when another attempt was scheduled after this one */
+  nextAttemptAt?: string;
+}
+
+/**
+ * Human approval of a turn's intent, requested when an approval rule
+ * matched. Stored under conversations/{conversationId}/approvals/{messageId}
+ * and kept after the decision as its audit record.
+ */
+export interface Approval {
+  conversationId: string;
+  messageId: string;
+  intentId: string;
+  /** Rules that required approval, e.g. "confidence 0.6 below 0.7" */
+  reasons: string[];
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  /** What the reasoner proposed */
+  proposed: { action: string; parameters: Record<string, unknown>; steps?: PlanStep[] };
+  /** Parameters as approved, when the approver edited them */
+  approved?: { parameters: Record<string, unknown>; steps?: PlanStep[] };
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  /** API key that made the decision, and the person named in the request */
+  decidedBy?: { apiKeyId: string; actor?: string };
+  comment?: string;
 }
+
@@ -0,0 +1,294 @@
+/**
+ * Watchdog – finds turns that stopped moving and re-drives or times them out.
+ *
+ * A turn is stuck when it has stayed in one of the non-terminal states below
+ * longer than that state's deadline (WATCHDOG_DEADLINES, in seconds, e.g.
+ * "RECEIVED=60,ACTION_REQUESTED=900"). For RETRYING the clock starts at the
+ * scheduled attempt, and every re-drive restarts it.
+ *
+ * A stuck turn is re-driven by emitting the event it is waiting for again,
+ * with a new eventId so a receipt left `processing` by a crashed consumer
+ * does not swallow it:
+ *
+ *   RECEIVED             → REASONING_REQUESTED + reasoning_requested
+ *   REASONING_REQUESTED  → reasoning_requested again
+ *   INTENT_VALIDATED     → ACTION_REQUESTED + action_requested
+ *   ACTION_REQUESTED     → action_requested again
+ *   RETRYING             → action_requested for the next attempt
+ *   ACTION_COMPLETED     → response_requested again
+ *
+ * For a multi-step plan, action_requested is emitted for the current step.
+ * A turn in AWAITING_APPROVAL is not re-driven: once its approval has
+ * expired (APPROVAL_TIMEOUT_MINUTES) it moves to TIMED_OUT. Neither is one
+ * in NEEDS_CLARIFICATION, which times out when the user has not answered
+ * within CLARIFICATION_TIMEOUT_MINUTES.
+ *
+ * After WATCHDOG_MAX_REDRIVES re-drives, or when the message or intent to
+ * re-drive from is missing, the turn moves to the terminal TIMED_OUT state.
+ * Every decision is written to the conversation's events log
+ * (turn_redriven / turn_timed_out) in the same transaction as its effect.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getStore } from './store';
+import {
+  findValidIntent,
+  getMessage,
+  redriveTurn,
+  transitionState,
+  EventLogEntry,
+} from './repository';
+import { OutboxMessage } from './outbox';
+import { actionRequestPayload, findStep, startPlan } from './plans';
+import { APPROVAL_TIMEOUT_MS, approvalReasons, expireApproval, getApproval, requestApproval } from './approvals';
+import { CLARIFICATION_TIMEOUT_MS } from './clarifications';
+import { EVENT_SCHEMA_VERSIONS } from './event-schemas';
+import { eventContent } from './pii';
+import { AgentEvent, AgentEventPayloads, Conversation, ConversationState, PlanProgress, Turn } from './types';
+import { log } from './logger';
+
+const TOPIC_REASONING = process.env.TOPIC_REASONING || 'reasoning-requested';
+const TOPIC_ACTION = process.env.TOPIC_ACTION || 'action-requested';
+const TOPIC_RESPONSE = process.env.TOPIC_RESPONSE || 'response-requested';
+const WATCHDOG_MAX_REDRIVES = Number(process.env.WATCHDOG_MAX_REDRIVES) || 2;
+const WATCHDOG_TIME_BUDGET_MS = Number(process.env.WATCHDOG_TIME_BUDGET_MS) || 50_000;
+const SCAN_PAGE_SIZE = 100;
+
+/** Seconds a turn may stay in a state before the watchdog steps in */
+const DEFAULT_DEADLINES: Partial<Record<ConversationState, number>> = {
+  RECEIVED: 60,
+  REASONING_REQUESTED: 600,
+  NEEDS_CLARIFICATION: CLARIFICATION_TIMEOUT_MS / 1000,
+  INTENT_VALIDATED: 120,
+  ACTION_REQUESTED: 900,
+  RETRYING: 600,
+  ACTION_COMPLETED: 300,
+  AWAITING_APPROVAL: APPROVAL_TIMEOUT_MS / 1000,
+};
+
+const DEADLINES: Partial<Record<ConversationState, number>> = {
+  ...DEFAULT_DEADLINES,
+  ...Object.fromEntries(
+    (process.env.WATCHDOG_DEADLINES || '')
+      .split(',')
+      .map((entry) => entry.split('=').map((s) => s.trim()))
+      .filter(([state, seconds]) => state in DEFAULT_DEADLINES && Number(seconds) > 0)
+      .map(([state, seconds]) => [state, Number(seconds)]),
+  ),
+};
+
+const WATCHED_STATES = Object.keys(DEFAULT_DEADLINES) as ConversationState[];
+
+export interface WatchdogReport {
+  runId: string;
+  startedAt: string;
+  finishedAt: string;
+  conversationsScanned: number;
+  stuckTurns: number;
+  redriven: number;
+  timedOut: number;
+  /** Turns that changed while being handled, or failed; retried on the next run */
+  skipped: number;
+  /** False if the time budget ran out before every active conversation was scanned */
+  complete: boolean;
+}
+
+/** When the turn last moved (or was re-driven), or – while RETRYING – when its next attempt was due */
+function stuckSince(turn: Turn): number {
+  const times = [turn.updatedAt, turn.lastRedriveAt, turn.state === 'RETRYING' ? turn.nextAttemptAt : null]
+    .filter((t): t is string => !!t)
+    .map((t) => Date.parse(t));
+  return Math.max(...times);
+}
+
+function isStuck(turn: Turn, now = Date.now()): boolean {
+  const deadline = DEADLINES[turn.state];
+  return deadline !== undefined && now - stuckSince(turn) > deadline * 1000;
+}
+
+type Outcome = 'redriven' | 'timed_out' | 'skipped';
+type RedrivenEventType = 'reasoning_requested' | 'action_requested' | 'response_requested';
+
+async function timeOut(conversation: Conversation, turn: Turn, reason: string): Promise<Outcome> {
+  const { conversationId } = conversation;
+  await transitionState(conversationId, turn.messageId, 'TIMED_OUT', {
+    producer: 'watchdog',
+    expectedState: turn.state,
+    execution: turn.state === 'RETRYING' ? { attempts: turn.attempts, nextAttemptAt: null } : undefined,
+    events: [{
+      eventId: uuidv4(),
+      eventType: 'turn_timed_out',
+      payload: { state: turn.state, reason, redrives: turn.redrives ?? 0, stuckSince: new Date(stuckSince(turn)).toISOString() },
+    }],
+  });
+  log.warn('Turn timed out', { handler: 'watchdog', conversationId, messageId: turn.messageId, state: turn.state, reason });
+  return 'timed_out';
+}
+
+async function redrive(conversation: Conversation, turn: Turn): Promise<Outcome> {
+  const { conversationId, tenantId } = conversation;
+  const { messageId } = turn;
+  const newEvent = <T extends RedrivenEventType>(eventType: T, payload: AgentEventPayloads[T]): AgentEvent<T> => ({
+    eventId: uuidv4(),
+    eventType,
+    schemaVersion: EVENT_SCHEMA_VERSIONS[eventType],
+    tenantId,
+    conversationId,
+    messageId,
+    timestamp: new Date().toISOString(),
+    producer: 'watchdog',
+    payload,
+  });
+  const redrivenEntry = (event: AgentEvent): EventLogEntry => ({
+    eventId: uuidv4(),
+    eventType: 'turn_redriven',
+    payload: {
+      state: turn.state,
+      redrive: (turn.redrives ?? 0) + 1,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      stuckSince: new Date(stuckSince(turn)).toISOString(),
+    },
+  });
+
+  let event: AgentEvent<RedrivenEventType>;
+  let outbox: OutboxMessage;
+  let plan: PlanProgress | undefined;
+  if (turn.state === 'RECEIVED' || turn.state === 'REASONING_REQUESTED') {
+    const message = await getMessage(conversationId, messageId);
+    if (!message) return timeOut(conversation, turn, 'message not found');
+    event = newEvent('reasoning_requested', { content: eventContent(message.content, tenantId) });
+    outbox = { topic: TOPIC_REASONING, event };
+  } else if (turn.state === 'ACTION_COMPLETED') {
+    const intent = await findValidIntent(conversationId, messageId);
+    if (!intent) return timeOut(conversation, turn, 'no valid intent for turn');
+    event = newEvent('response_requested', { intentId: intent.intentId });
+    outbox = { topic: TOPIC_RESPONSE, event };
+  } else {
+    const intent = await findValidIntent(conversationId, messageId);
+    if (!intent) return timeOut(conversation, turn, 'no valid intent for turn');
+    // A validated intent still goes through approval when a rule matches
+    const reasons = turn.state === 'INTENT_VALIDATED' ? approvalReasons(intent) : [];
+    if (reasons.length) {
+      const { approval, entry } = requestApproval(intent, reasons);
+      await transitionState(conversationId, messageId, 'AWAITING_APPROVAL', {
+        producer: 'watchdog',
+        expectedState: turn.state,
+        approval,
+        events: [entry],
+      });
+      log.warn('Moved stuck turn to approval', { handler: 'watchdog', conversationId, messageId, reasons });
+      return 'redriven';
+    }
+    if (intent.steps && turn.state === 'INTENT_VALIDATED') plan = startPlan(intent);
+    const stepId = (plan ?? turn.plan)?.currentStepId;
+    const step = stepId ? findStep(intent, stepId) : undefined;
+    if (intent.steps && !step) return timeOut(conversation, turn, 'no current plan step');
+    const attempt = turn.state === 'RETRYING' ? (turn.attempts ?? 0) + 1 : 1;
+    event = newEvent('action_requested', actionRequestPayload(intent, step, attempt));
+    outbox = { topic: TOPIC_ACTION, event };
+  }
+  const events = [
+    redrivenEntry(event),
+    { eventId: event.eventId, eventType: event.eventType, payload: { ...event.payload, redriven: true } },
+  ];
+
+  // States whose event was never emitted are moved on; the others only re-emit
+  const next: Partial<Record<ConversationState, ConversationState>> = {
+    RECEIVED: 'REASONING_REQUESTED',
+    INTENT_VALIDATED: 'ACTION_REQUESTED',
+  };
+  const nextState = next[turn.state];
+  if (nextState) {
+    await transitionState(conversationId, messageId, nextState, {
+      producer: 'watchdog',
+      expectedState: turn.state,
+      plan,
+      events,
+      outbox: [outbox],
+    });
+  } else if (!(await redriveTurn(conversationId, messageId, turn, { events, outbox: [outbox] }))) {
+    return 'skipped';
+  }
+
+  log.warn('Re-drove stuck turn', {
+    handler: 'watchdog', conversationId, messageId, state: turn.state, eventId: event.eventId, redrive: (turn.redrives ?? 0) + 1,
+  });
+  return 'redriven';
+}
+
+async function handleStuckTurn(conversation: Conversation, turn: Turn): Promise<Outcome> {
+  if (turn.state === 'NEEDS_CLARIFICATION') return timeOut(conversation, turn, 'clarification not answered');
+  if (turn.state === 'AWAITING_APPROVAL') {
+    const approval = await getApproval(conversation.conversationId, turn.messageId);
+    if (!approval) return timeOut(conversation, turn, 'approval not found');
+    if (approval.status !== 'pending' || Date.parse(approval.expiresAt) > Date.now()) return 'skipped';
+    await expireApproval(approval);
+    log.warn('Approval expired', { handler: 'watchdog', conversationId: conversation.conversationId, messageId: turn.messageId });
+    return 'timed_out';
+  }
+  if ((turn.redrives ?? 0) >= WATCHDOG_MAX_REDRIVES) {
+    return timeOut(conversation, turn, `no progress after ${turn.redrives} re-drives`);
+  }
+  return redrive(conversation, turn);
+}
+
+/**
+ * Scan ACTIVE conversations for stuck turns and handle each of them, until
+ * all are scanned or WATCHDOG_TIME_BUDGET_MS has passed. Conversations are
+ * scanned oldest update first, so a run cut short covers the likeliest ones.
+ */
+export async function runWatchdog(): Promise<WatchdogReport> {
+  const store = getStore();
+  const runId = uuidv4();
+  const startedAt = new Date().toISOString();
+  const deadline = Date.now() + WATCHDOG_TIME_BUDGET_MS;
+  const report: WatchdogReport = {
+    runId, startedAt, finishedAt: startedAt,
+    conversationsScanned: 0, stuckTurns: 0, redriven: 0, timedOut: 0, skipped: 0, complete: false,
+  };
+
+  let after: { value: unknown; id: string } | undefined;
+  while (Date.now() < deadline) {
+    const conversations = await store.query<Conversation>('conversations', {
+      where: [{ field: 'status', op: '==', value: 'ACTIVE' }],
+      orderBy: { field: 'updatedAt' },
+      startAfter: after,
+      limit: SCAN_PAGE_SIZE,
+    });
+    if (conversations.length === 0) {
+      report.complete = true;
+      break;
+    }
+    const last = conversations[conversations.length - 1];
+    after = { value: last.data.updatedAt, id: last.id };
+
+    for (const { data: conversation } of conversations) {
+      if (conversation.deletingAt) continue;
+      report.conversationsScanned++;
+      const turns = await store.query<Turn>(`conversations/${conversation.conversationId}/turns`, {
+        where: [{ field: 'state', op: 'in', value: WATCHED_STATES }],
+      });
+      const now = Date.now();
+      for (const { data: turn } of turns) {
+        if (!isStuck(turn, now)) continue;
+        report.stuckTurns++;
+        try {
+          const outcome = await handleStuckTurn(conversation, turn);
+          if (outcome === 'redriven') report.redriven++;
+          else if (outcome === 'timed_out') report.timedOut++;
+          else report.skipped++;
+        } catch (err: any) {
+          // Usually the turn moved on between the scan and the transaction
+          report.skipped++;
+          log.warn('Could not handle stuck turn', {
+            handler: 'watchdog', conversationId: conversation.conversationId, messageId: turn.messageId, state: turn.state, error: err.message,
+          });
+        }
+      }
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
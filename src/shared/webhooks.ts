@@ -0,0 +1,381 @@
+/**
+ * Outbound webhooks on conversation state changes.
+ *
+ *   webhooks/{webhookId}                          – subscription (url, secret, filters)
+ *   webhooks/{webhookId}/deliveries/{deliveryId}  – delivery log, one entry per
+ *                                                   state change, with every attempt
+ *
+ * transitionState() emits a state_changed event through the outbox for every
+ * transition; the notifier function calls dispatchStateChange(), which
+ * creates a delivery for each matching subscription and attempts it. Failed
+ * attempts are retried with backoff via delayed webhook_delivery_requested
+ * events in the outbox, up to WEBHOOK_MAX_ATTEMPTS.
+ *
+ * Each request carries `X-Webhook-Signature: t=<unix seconds>,v1=<hex>`, where
+ * v1 is HMAC-SHA256(secret, "<t>.<raw body>"). Receivers should recompute it
+ * and reject timestamps older than a few minutes to guard against replays.
+ *
+ * Webhook URLs must not reach internal services: the host is resolved when
+ * the webhook is created and again before every attempt, and loopback,
+ * private, link-local and other reserved addresses (e.g. the metadata server
+ * at 169.254.169.254) are refused. Redirects are not followed.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { AgentEvent, AgentEventPayloads, ConversationState } from './types';
+import { getStore, MAX_BATCH_WRITES } from './store';
+import { stageOutboxEntry } from './outbox';
+import { EVENT_SCHEMA_VERSIONS } from './event-schemas';
+import { backoffDelayMs } from './backoff';
+import { log } from './logger';
+
+const TOPIC_STATE_CHANGED = process.env.TOPIC_STATE_CHANGED || 'state-changed';
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 5_000;
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+const WEBHOOK_RETRY_BASE_DELAY_MS = Number(process.env.WEBHOOK_RETRY_BASE_DELAY_MS) || 30_000;
+const WEBHOOK_RETRY_MAX_DELAY_MS = Number(process.env.WEBHOOK_RETRY_MAX_DELAY_MS) || 60 * 60_000;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+/** How far a signature timestamp may be from the receiver's clock */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Addresses a webhook may not target (RFC 6890 special-purpose ranges) */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [
+  // IPv4-mapped addresses (::ffff:a.b.c.d) are checked against the IPv4 ranges;
+  // NAT64 ones could still wrap any of them
+  ['::', 127], ['64:ff9b::', 96], ['100::', 64],
+  ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+
+export interface Webhook {
+  webhookId: string;
+  url: string;
+  /** HMAC key; only returned when the webhook is created */
+  secret: string;
+  /** Only deliver this tenant's transitions (all tenants if unset) */
+  tenantId?: string;
+  /** Deliver transitions into one of these states */
+  states?: ConversationState[];
+  /** Deliver transitions that logged one of these event types (e.g. action_executed) */
+  eventTypes?: string[];
+  description?: string;
+  createdAt: string;
+}
+
+export type WebhookView = Omit<Webhook, 'secret'>;
+
+export type StateChangeData = AgentEventPayloads['state_changed'];
+
+export interface WebhookPayload {
+  /** Delivery id – stable across retries, use it to deduplicate */
+  id: string;
+  type: 'conversation.state_changed';
+  createdAt: string;
+  data: StateChangeData;
+}
+
+export interface WebhookAttempt {
+  attempt: number;
+  at: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  webhookId: string;
+  tenantId: string;
+  conversationId: string;
+  messageId: string;
+  /** state_changed event that caused the delivery */
+  sourceEventId: string;
+  payload: WebhookPayload;
+  status: 'pending' | 'retrying' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  nextAttemptAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function webhookPath(webhookId: string): string {
+  return `webhooks/${webhookId}`;
+}
+
+function deliveryPath(webhookId: string, deliveryId: string): string {
+  return `webhooks/${webhookId}/deliveries/${deliveryId}`;
+}
+
+function toView({ secret: _secret, ...view }: Webhook): WebhookView {
+  return view;
+}
+
+// ── Subscriptions ──────────────────────────────────────────
+
+export async function createWebhook(
+  input: Pick<Webhook, 'url' | 'tenantId' | 'states' | 'eventTypes' | 'description'>,
+): Promise<Webhook> {
+  const webhook: Webhook = {
+    webhookId: uuidv4(),
+    ...input,
+    secret: `whsec_${randomBytes(24).toString('hex')}`,
+    createdAt: new Date().toISOString(),
+  };
+  await getStore().set(webhookPath(webhook.webhookId), webhook);
+  return webhook;
+}
+
+export async function getWebhook(webhookId: string): Promise<WebhookView | null> {
+  const webhook = await getStore().get<Webhook>(webhookPath(webhookId));
+  return webhook ? toView(webhook) : null;
+}
+
+export async function listWebhooks(): Promise<WebhookView[]> {
+  const docs = await getStore().query<Webhook>('webhooks', { orderBy: { field: 'createdAt' } });
+  return docs.map((d) => toView(d.data));
+}
+
+/** Remove a webhook and its delivery log. Pending retries are dropped. */
+export async function deleteWebhook(webhookId: string): Promise<boolean> {
+  const store = getStore();
+  if (!(await store.get(webhookPath(webhookId)))) return false;
+  await store.delete(webhookPath(webhookId));
+
+  for (;;) {
+    const deliveries = await store.query(`webhooks/${webhookId}/deliveries`, { limit: MAX_BATCH_WRITES });
+    if (deliveries.length === 0) break;
+    const batch = store.batch();
+    for (const { id } of deliveries) batch.delete(deliveryPath(webhookId, id));
+    await batch.commit();
+  }
+  return true;
+}
+
+export async function listDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+  const docs = await getStore().query<WebhookDelivery>(`webhooks/${webhookId}/deliveries`, {
+    orderBy: { field: 'createdAt', direction: 'desc' },
+    limit,
+  });
+  return docs.map((d) => d.data);
+}
+
+/**
+ * Reason the URL cannot be used as a webhook target, or null. Plain http only
+ * with WEBHOOK_ALLOW_HTTP=true; private and reserved addresses only with
+ * WEBHOOK_ALLOW_PRIVATE=true.
+ */
+export async function invalidWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return '"url" must be an absolute URL';
+  }
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && process.env.WEBHOOK_ALLOW_HTTP === 'true')) {
+    return '"url" must use https';
+  }
+  if (process.env.WEBHOOK_ALLOW_PRIVATE === 'true') return null;
+
+  // Every address the host resolves to must be public: a client may connect to any of them
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `"url" host ${parsed.hostname} does not resolve`;
+  }
+  const blocked = addresses.find(({ address, family }) =>
+    BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  return blocked ? `"url" must not point to a private or reserved address (${blocked.address})` : null;
+}
+
+/**
+ * A webhook only sees its tenant's transitions (if scoped to one). Without
+ * state or event type filters it receives all of them; otherwise any filter may match.
+ */
+export function webhookMatches(
+  webhook: Pick<Webhook, 'tenantId' | 'states' | 'eventTypes'>,
+  tenantId: string,
+  change: StateChangeData,
+): boolean {
+  const { states, eventTypes } = webhook;
+  if (webhook.tenantId && webhook.tenantId !== tenantId) return false;
+  if (!states?.length && !eventTypes?.length) return true;
+  return (states ?? []).includes(change.to)
+    || (eventTypes ?? []).some((type) => change.eventTypes.includes(type));
+}
+
+// ── Signing ────────────────────────────────────────────────
+
+function signatureDigest(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** Value of the signature header for `body` sent at `timestamp` (unix seconds). */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `t=${timestamp},v1=${signatureDigest(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a signature header the way receivers should: v1 must match the raw
+ * body (compared in constant time) and t must be within `toleranceSeconds`
+ * of `now`, so a captured request cannot be replayed later.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS,
+  now = Date.now(),
+): boolean {
+  const fields = new Map(header.split(',').map((part): [string, string] => {
+    const [name, ...value] = part.trim().split('=');
+    return [name, value.join('=')];
+  }));
+  const timestamp = Number(fields.get('t'));
+  const signature = fields.get('v1');
+  if (!Number.isSafeInteger(timestamp) || !signature || !/^[0-9a-f]+$/.test(signature)) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signatureDigest(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ── Delivery ───────────────────────────────────────────────
+
+/**
+ * Create a delivery for every webhook matching a state_changed event and
+ * attempt it. Delivery ids are derived from the event, so a redelivered
+ * event does not deliver twice – it only makes the first attempt of a
+ * delivery that is still pending.
+ */
+export async function dispatchStateChange(event: AgentEvent<'state_changed'>): Promise<number> {
+  const change: StateChangeData = event.payload;
+  const webhooks = await getStore().query<Webhook>('webhooks');
+  const matching = webhooks.map((d) => d.data).filter((w) => webhookMatches(w, event.tenantId, change));
+
+  for (const webhook of matching) {
+    const deliveryId = `${event.eventId}_${webhook.webhookId}`;
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      deliveryId,
+      webhookId: webhook.webhookId,
+      tenantId: event.tenantId,
+      conversationId: event.conversationId,
+      messageId: event.messageId,
+      sourceEventId: event.eventId,
+      payload: { id: deliveryId, type: 'conversation.state_changed', createdAt: now, data: change },
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    // A delivery still pending was stored by a run that crashed before its
+    // first attempt; nothing else schedules it, so attempt it here
+    const due = await getStore().runTransaction(async (tx) => {
+      const existing = await tx.get<WebhookDelivery>(deliveryPath(webhook.webhookId, deliveryId));
+      if (existing) return existing.status === 'pending';
+      tx.set(deliveryPath(webhook.webhookId, deliveryId), delivery);
+      return true;
+    });
+    if (due) await attemptDelivery(webhook.webhookId, deliveryId);
+  }
+  return matching.length;
+}
+
+/**
+ * POST a pending delivery once and record the attempt. On failure the next
+ * attempt is scheduled through the outbox until WEBHOOK_MAX_ATTEMPTS.
+ */
+export async function attemptDelivery(webhookId: string, deliveryId: string): Promise<void> {
+  const store = getStore();
+  const [webhook, delivery] = await Promise.all([
+    store.get<Webhook>(webhookPath(webhookId)),
+    store.get<WebhookDelivery>(deliveryPath(webhookId, deliveryId)),
+  ]);
+  if (!webhook || !delivery) return;                      // webhook deleted in the meantime
+  if (delivery.status === 'delivered' || delivery.status === 'failed') return;
+
+  const body = JSON.stringify(delivery.payload);
+  const attemptNumber = delivery.attempts.length + 1;
+  const started = Date.now();
+  const attempt: WebhookAttempt = { attempt: attemptNumber, at: new Date(started).toISOString(), durationMs: 0 };
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    // Checked again on every attempt: the host may resolve differently than at creation
+    const urlError = await invalidWebhookUrl(webhook.url);
+    if (urlError) throw new Error(urlError);
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'loops-ai-webhooks/1',
+        'X-Webhook-Id': webhookId,
+        'X-Webhook-Delivery': deliveryId,
+        [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, Math.floor(started / 1000), body),
+      },
+      body,
+      // A redirect could point anywhere, including addresses refused above
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+    attempt.statusCode = response.status;
+    if (!response.ok) attempt.error = `HTTP ${response.status}`;
+  } catch (err: any) {
+    attempt.error = controller.signal.aborted ? `Timed out after ${WEBHOOK_TIMEOUT_MS}ms` : err.message;
+  } finally {
+    clearTimeout(timer);
+    attempt.durationMs = Date.now() - started;
+  }
+
+  const now = new Date().toISOString();
+  const attempts = [...delivery.attempts, attempt];
+  const logContext = { handler: 'notifier', webhookId, deliveryId, conversationId: delivery.conversationId, attempt: attemptNumber };
+
+  if (!attempt.error) {
+    await store.update(deliveryPath(webhookId, deliveryId), { status: 'delivered', attempts, nextAttemptAt: null, updatedAt: now });
+    log.info('Webhook delivered', { ...logContext, statusCode: attempt.statusCode });
+    return;
+  }
+
+  if (attemptNumber >= WEBHOOK_MAX_ATTEMPTS) {
+    await store.update(deliveryPath(webhookId, deliveryId), { status: 'failed', attempts, nextAttemptAt: null, updatedAt: now });
+    log.error('Webhook delivery failed, attempts exhausted', { ...logContext, error: attempt.error });
+    return;
+  }
+
+  const nextAttemptAt = new Date(
+    Date.now() + backoffDelayMs(attemptNumber, WEBHOOK_RETRY_BASE_DELAY_MS, WEBHOOK_RETRY_MAX_DELAY_MS),
+  ).toISOString();
+  const retry: AgentEvent = {
+    eventId: uuidv4(),
+    eventType: 'webhook_delivery_requested',
+    schemaVersion: EVENT_SCHEMA_VERSIONS.webhook_delivery_requested,
+    tenantId: delivery.tenantId,
+    conversationId: delivery.conversationId,
+    messageId: delivery.messageId,
+    timestamp: now,
+    producer: 'notifier',
+    payload: { webhookId, deliveryId },
+  };
+  await store.runTransaction(async (tx) => {
+    tx.update(deliveryPath(webhookId, deliveryId), { status: 'retrying', attempts, nextAttemptAt, updatedAt: now });
+    stageOutboxEntry(tx, { topic: TOPIC_STATE_CHANGED, event: retry, availableAt: nextAttemptAt });
+  });
+  log.warn('Webhook delivery failed, retry scheduled', { ...logContext, error: attempt.error, nextAttemptAt });
+}
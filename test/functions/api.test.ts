@@ -0,0 +1,123 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+const DAILY_MESSAGE_QUOTA = 3;
+
+describe('POST /messages daily quota', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+
+  function post(body: unknown, idempotencyKey?: string): Promise<globalThis.Response> {
+    return fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+        ...(idempotencyKey ? { 'X-Idempotency-Key': idempotencyKey } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  before(async () => {
+    // Read when the modules load
+    process.env.STORAGE_BACKEND = 'memory';
+    process.env.EVENT_BUS = 'memory';
+    process.env.DAILY_MESSAGE_QUOTA = String(DAILY_MESSAGE_QUOTA);
+    const { app } = await import('../../src/functions/api');
+    const { issueApiKey } = await import('../../src/shared');
+
+    ({ key: apiKey } = await issueApiKey('t1', 'test'));
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('charges only accepted messages, not invalid bodies, replays or key reuse', async () => {
+    const first = await post({ content: 'search for refunds' }, 'k1');
+    assert.equal(first.status, 201);
+    assert.equal(first.headers.get('RateLimit-Remaining'), String(DAILY_MESSAGE_QUOTA - 1));
+
+    assert.equal((await post({ content: '' })).status, 400);
+    assert.equal((await post({ content: 'search', conversationId: 'missing' })).status, 404);
+    const replay = await post({ content: 'search for refunds' }, 'k1');
+    assert.equal(replay.status, 201);
+    assert.equal(replay.headers.get('Idempotent-Replayed'), 'true');
+    assert.equal((await post({ content: 'something else' }, 'k1')).status, 422);
+
+    const second = await post({ content: 'search for invoices' });
+    assert.equal(second.status, 201);
+    assert.equal(second.headers.get('RateLimit-Remaining'), String(DAILY_MESSAGE_QUOTA - 2));
+  });
+
+  it('refuses messages once the quota is used up, without keeping the idempotency key', async () => {
+    assert.equal((await post({ content: 'search for shipping' })).status, 201);
+
+    const refused = await post({ content: 'search for returns' }, 'k2');
+    assert.equal(refused.status, 429);
+    assert.ok(Number(refused.headers.get('Retry-After')) > 0);
+    assert.equal(refused.headers.get('RateLimit-Remaining'), '0');
+
+    // The key was released: the same request is refused again rather than reported as in flight
+    assert.equal((await post({ content: 'search for returns' }, 'k2')).status, 429);
+  });
+});
+
+describe('POST /messages idempotency keys', () => {
+  let server: Server;
+  let baseUrl: string;
+  const keys: string[] = [];
+
+  function post(key: string, body: unknown, idempotencyKey: string): Promise<globalThis.Response> {
+    return fetch(`${baseUrl}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}`, 'X-Idempotency-Key': idempotencyKey },
+      body: JSON.stringify(body),
+    });
+  }
+
+  before(async () => {
+    process.env.STORAGE_BACKEND = 'memory';
+    process.env.EVENT_BUS = 'memory';
+    const { app } = await import('../../src/functions/api');
+    const { issueApiKey } = await import('../../src/shared');
+
+    for (const tenantId of ['ta', 'tb']) keys.push((await issueApiKey(tenantId, 'test')).key);
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('answers 409 while the first request with the key is still processing', async () => {
+    const { claimIdempotencyKey } = await import('../../src/shared');
+    // Same fingerprint as the api computes for the body below
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify({ content: 'search for refunds', conversationId: null }))
+      .digest('hex');
+    await claimIdempotencyKey('ta', 'busy', fingerprint, 'm1');
+
+    const response = await post(keys[0], { content: 'search for refunds' }, 'busy');
+    assert.equal(response.status, 409);
+  });
+
+  it('scopes keys to the tenant', async () => {
+    const first = await post(keys[0], { content: 'search for refunds' }, 'shared');
+    const other = await post(keys[1], { content: 'search for invoices' }, 'shared');
+
+    assert.equal(first.status, 201);
+    assert.equal(other.status, 201);
+    assert.equal(other.headers.get('Idempotent-Replayed'), null);
+    assert.notEqual(
+      (await other.json() as { messageId: string }).messageId,
+      (await first.json() as { messageId: string }).messageId,
+    );
+  });
+});
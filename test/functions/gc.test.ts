@@ -0,0 +1,49 @@
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { gcHandler } from '../../src/functions/gc';
+import { getStore, MessagePublishedData } from '../../src/shared';
+
+const RECEIPT = 'receipts/expired';
+
+function tick(body: string): CloudEvent<MessagePublishedData> {
+  return {
+    data: { message: { data: Buffer.from(body).toString('base64') } },
+  } as unknown as CloudEvent<MessagePublishedData>;
+}
+
+async function receiptExists(): Promise<boolean> {
+  return (await getStore().get(RECEIPT)) !== null;
+}
+
+describe('gcHandler', () => {
+  before(() => {
+    process.env.STORAGE_BACKEND = 'memory';
+  });
+
+  beforeEach(async () => {
+    await getStore().set(RECEIPT, { status: 'completed', completedAt: '2000-01-01T00:00:00.000Z' });
+  });
+
+  for (const body of ['tick', '{"dryRun": "true"}', '{"dryrun": true}', '{"collections": ["receipt"]}', '[]']) {
+    it(`runs a dry run for the invalid tick body ${body}`, async () => {
+      await gcHandler(tick(body));
+      assert.ok(await receiptExists());
+    });
+  }
+
+  it('honours a valid dry run', async () => {
+    await gcHandler(tick('{"dryRun": true, "collections": ["receipts"]}'));
+    assert.ok(await receiptExists());
+  });
+
+  it('deletes expired documents for a valid body', async () => {
+    await gcHandler(tick('{"collections": ["receipts"]}'));
+    assert.ok(!(await receiptExists()));
+  });
+
+  it('deletes expired documents for an empty body', async () => {
+    await gcHandler(tick('{}'));
+    assert.ok(!(await receiptExists()));
+  });
+});
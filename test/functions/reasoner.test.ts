@@ -0,0 +1,93 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import { startLlmStubServer } from '../../src/dev/llm-stub-server';
+import { reasonerHandler } from '../../src/functions/reasoner';
+import {
+  AgentEvent,
+  EVENT_SCHEMA_VERSIONS,
+  MessagePublishedData,
+  createConversation,
+  getStore,
+  getTurn,
+  openTurn,
+  transitionState,
+} from '../../src/shared';
+
+/** A turn waiting for the reasoner, and the reasoning_requested event for it */
+async function reasoningRequested(content: string): Promise<AgentEvent<'reasoning_requested'>> {
+  const conversationId = uuidv4();
+  const messageId = uuidv4();
+  await createConversation(conversationId, 't1');
+  await openTurn(conversationId, messageId);
+  await transitionState(conversationId, messageId, 'REASONING_REQUESTED', { producer: 'api' });
+  return {
+    eventId: uuidv4(),
+    eventType: 'reasoning_requested',
+    schemaVersion: EVENT_SCHEMA_VERSIONS.reasoning_requested,
+    tenantId: 't1',
+    conversationId,
+    messageId,
+    timestamp: new Date().toISOString(),
+    producer: 'api',
+    payload: { content },
+  };
+}
+
+function delivery(event: AgentEvent): CloudEvent<MessagePublishedData> {
+  return {
+    data: { message: { data: Buffer.from(JSON.stringify(event)).toString('base64'), messageId: '1' } },
+  } as unknown as CloudEvent<MessagePublishedData>;
+}
+
+describe('reasonerHandler with the openai provider', () => {
+  let stub: Server;
+
+  before(async () => {
+    stub = await startLlmStubServer(0);
+    process.env.STORAGE_BACKEND = 'memory';
+    process.env.EVENT_BUS = 'memory';
+    process.env.REASONING_PROVIDER = 'openai';
+    process.env.LLM_BASE_URL = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/v1`;
+    process.env.LLM_TIMEOUT_MS = '300';
+  });
+
+  after(() => {
+    stub.closeAllConnections();
+    return new Promise<void>((resolve) => stub.close(() => resolve()));
+  });
+
+  it('requests the action for a valid intent', async () => {
+    const event = await reasoningRequested('search for refund policy');
+    await reasonerHandler(delivery(event));
+
+    assert.equal((await getTurn(event.conversationId, event.messageId))?.state, 'ACTION_REQUESTED');
+  });
+
+  it('fails validation when the provider rejects the request', async () => {
+    const event = await reasoningRequested('search [stub:bad-request]');
+    await reasonerHandler(delivery(event));
+
+    assert.equal((await getTurn(event.conversationId, event.messageId))?.state, 'FAILED_VALIDATION');
+  });
+
+  it('fails validation when the model output is malformed', async () => {
+    const event = await reasoningRequested('search [stub:malformed]');
+    await reasonerHandler(delivery(event));
+
+    assert.equal((await getTurn(event.conversationId, event.messageId))?.state, 'FAILED_VALIDATION');
+  });
+
+  for (const marker of ['[stub:error]', '[stub:timeout]']) {
+    it(`nacks and releases the receipt on ${marker}`, async () => {
+      const event = await reasoningRequested(`search ${marker}`);
+      await assert.rejects(reasonerHandler(delivery(event)));
+
+      assert.equal((await getTurn(event.conversationId, event.messageId))?.state, 'REASONING_REQUESTED');
+      assert.equal(await getStore().get(`receipts/${event.eventId}`), null);
+    });
+  }
+});
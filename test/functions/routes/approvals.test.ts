@@ -0,0 +1,93 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+
+type Shared = typeof import('../../../src/shared');
+
+describe('POST /conversations/:id/approve', () => {
+  let server: Server;
+  let baseUrl: string;
+  let shared: Shared;
+  /** Keys: one that posts messages, and two approvers */
+  const keys = {} as Record<'requester' | 'approver' | 'otherApprover', { keyId: string; key: string }>;
+
+  function post(path: string, key: string, body: unknown): Promise<globalThis.Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}` },
+      body: JSON.stringify(body),
+    });
+  }
+
+  /** Post a message with `key` and move its turn to AWAITING_APPROVAL, as the reasoner would */
+  async function pendingApproval(key: string): Promise<{ conversationId: string; messageId: string }> {
+    const response = await post('/messages', key, { content: 'search for refunds' });
+    assert.equal(response.status, 201);
+    const { conversationId, messageId } = await response.json() as { conversationId: string; messageId: string };
+
+    const intent = {
+      intentId: uuidv4(),
+      conversationId,
+      messageId,
+      action: 'search',
+      parameters: { query: 'refunds', limit: 5 },
+      confidence: 0.5,
+      createdAt: new Date().toISOString(),
+      valid: true,
+    };
+    const { approval, entry } = shared.requestApproval(intent, ['confidence 0.5 below 0.9']);
+    await shared.transitionState(conversationId, messageId, ['INTENT_VALIDATED', 'AWAITING_APPROVAL'], {
+      producer: 'reasoner',
+      intent,
+      approval,
+      events: [entry],
+    });
+    return { conversationId, messageId };
+  }
+
+  before(async () => {
+    // Read when the modules load
+    process.env.STORAGE_BACKEND = 'memory';
+    process.env.EVENT_BUS = 'memory';
+    const { app } = await import('../../../src/functions/api');
+    shared = await import('../../../src/shared');
+
+    for (const [name, approver] of [['requester', false], ['approver', true], ['otherApprover', true]] as const) {
+      const { apiKey, key } = await shared.issueApiKey('t1', name, false, approver);
+      keys[name] = { keyId: apiKey.keyId, key };
+    }
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('records the API key that posted the message', async () => {
+    const { conversationId, messageId } = await pendingApproval(keys.approver.key);
+    assert.equal((await shared.getMessage(conversationId, messageId))?.apiKeyId, keys.approver.keyId);
+  });
+
+  it('answers 403 to keys that are not approvers', async () => {
+    const { conversationId } = await pendingApproval(keys.approver.key);
+
+    for (const decision of ['approve', 'reject']) {
+      const response = await post(`/conversations/${conversationId}/${decision}`, keys.requester.key, {});
+      assert.equal(response.status, 403);
+    }
+  });
+
+  it('answers 403 to the approver that posted the message, and lets another one decide', async () => {
+    const { conversationId, messageId } = await pendingApproval(keys.approver.key);
+
+    const own = await post(`/conversations/${conversationId}/approve`, keys.approver.key, { messageId });
+    assert.equal(own.status, 403);
+    assert.match((await own.json() as { error: string }).error, /posted the message/);
+
+    const other = await post(`/conversations/${conversationId}/approve`, keys.otherApprover.key, { messageId });
+    assert.equal(other.status, 200);
+    assert.deepEqual((await other.json() as { decidedBy: unknown }).decidedBy, { apiKeyId: keys.otherApprover.keyId });
+  });
+});
@@ -0,0 +1,86 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { chargeMessageQuota, rateLimitMessages } from '../../../src/functions/routes/rate-limit';
+
+interface FakeResponse {
+  locals: Record<string, unknown>;
+  headers: Record<string, string>;
+  statusCode: number;
+  body?: unknown;
+}
+
+function fakeResponse(apiKeyId: string): FakeResponse & Response {
+  const res: FakeResponse = { locals: { apiKeyId, tenantId: 't1' }, headers: {}, statusCode: 200 };
+  return Object.assign(res, {
+    set(headers: string | Record<string, string>, value?: string) {
+      Object.assign(res.headers, typeof headers === 'string' ? { [headers]: value } : headers);
+      return this;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return this;
+    },
+  }) as unknown as FakeResponse & Response;
+}
+
+/** Run the middleware; true if it called next() */
+async function passes(ip: string, res: Response): Promise<boolean> {
+  let called = false;
+  await rateLimitMessages({ ip } as Request, res, () => {
+    called = true;
+  });
+  return called;
+}
+
+describe('rateLimitMessages', () => {
+  before(() => {
+    process.env.STORAGE_BACKEND = 'memory';
+  });
+
+  it('reports the most constrained bucket in the RateLimit headers', async () => {
+    const res = fakeResponse('k-headers');
+    assert.ok(await passes('10.0.0.1', res));
+
+    // Key bucket: 20 burst at 1/s; IP bucket: 40 burst at 2/s
+    assert.deepEqual(res.headers, { 'RateLimit-Limit': '20', 'RateLimit-Remaining': '19', 'RateLimit-Reset': '1' });
+  });
+
+  it('answers 429 with Retry-After once the key bucket is empty', async () => {
+    for (let i = 0; i < 20; i++) assert.ok(await passes('10.0.0.2', fakeResponse('k-burst')));
+
+    const res = fakeResponse('k-burst');
+    assert.equal(await passes('10.0.0.2', res), false);
+    assert.equal(res.statusCode, 429);
+    assert.equal(res.headers['Retry-After'], '1');
+    assert.equal(res.headers['RateLimit-Remaining'], '0');
+    assert.equal(res.headers['RateLimit-Limit'], '20');
+  });
+
+  it('does not take a key token when the IP bucket refuses', async () => {
+    for (let i = 0; i < 40; i++) await passes('10.0.0.3', fakeResponse(`k-ip-${i % 3}`));
+
+    const refused = fakeResponse('k-spared');
+    assert.equal(await passes('10.0.0.3', refused), false);
+    assert.equal(refused.headers['RateLimit-Limit'], '40');
+
+    const other = fakeResponse('k-spared');
+    assert.ok(await passes('10.0.0.4', other));
+    assert.equal(other.headers['RateLimit-Remaining'], '19');
+  });
+});
+
+describe('chargeMessageQuota', () => {
+  it('keeps reporting the bucket while it is closer to running out than the quota', async () => {
+    const res = fakeResponse('k-quota');
+    res.locals.rateLimit = { allowed: true, limit: 20, remaining: 19, resetSeconds: 1, retryAfterSeconds: 0 };
+    assert.ok(await chargeMessageQuota(res));
+
+    // 4999 messages left today
+    assert.equal(res.headers['RateLimit-Limit'], '20');
+  });
+});
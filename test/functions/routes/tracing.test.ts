@@ -0,0 +1,43 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { parseTraceparent } from '../../../src/shared/tracing';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('traceRequests', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    // Read when the modules load
+    process.env.STORAGE_BACKEND = 'memory';
+    process.env.EVENT_BUS = 'memory';
+    const { app } = await import('../../../src/functions/api');
+
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('continues the caller\'s trace and names the request span in traceresponse', async () => {
+    const response = await fetch(`${baseUrl}/health`, { headers: { traceparent: TRACEPARENT } });
+
+    const span = parseTraceparent(response.headers.get('traceresponse') ?? undefined);
+    assert.equal(span?.traceId, '4bf92f3577b34da6a3ce929d0e0e4736');
+    assert.notEqual(span?.spanId, '00f067aa0ba902b7');
+    assert.equal(span?.sampled, true);
+  });
+
+  it('starts a new trace without a valid traceparent', async () => {
+    for (const headers of [{}, { traceparent: 'garbage' }] as Array<Record<string, string>>) {
+      const response = await fetch(`${baseUrl}/health`, { headers });
+      const span = parseTraceparent(response.headers.get('traceresponse') ?? undefined);
+      assert.ok(span);
+      assert.notEqual(span.traceId, '4bf92f3577b34da6a3ce929d0e0e4736');
+    }
+  });
+});
@@ -0,0 +1,233 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ApprovalDecision,
+  ApprovalError,
+  decideApproval,
+  getApproval,
+  requestApproval,
+} from '../../src/shared/approvals';
+import {
+  createConversation,
+  getConversation,
+  getIntent,
+  getTurn,
+  openTurn,
+  saveMessage,
+  transitionState,
+} from '../../src/shared/repository';
+import type { Conversation, PlanStep, ReasoningIntent } from '../../src/shared/types';
+
+const REQUESTER_KEY = 'requester';
+const APPROVER_KEY = 'approver';
+
+interface PendingTurn {
+  conversationId: string;
+  messageId: string;
+  intent: ReasoningIntent;
+}
+
+/** A turn posted with REQUESTER_KEY whose intent waits for approval */
+async function awaitingApproval(
+  conversationId: string,
+  intent: Partial<ReasoningIntent> = {},
+  expiresAt?: string,
+): Promise<PendingTurn> {
+  const messageId = uuidv4();
+  await openTurn(conversationId, messageId);
+  await saveMessage({
+    messageId,
+    conversationId,
+    tenantId: 't1',
+    role: 'user',
+    content: 'search for refunds',
+    apiKeyId: REQUESTER_KEY,
+    createdAt: new Date().toISOString(),
+  });
+  await transitionState(conversationId, messageId, 'REASONING_REQUESTED', { producer: 'api' });
+
+  const intentDoc: ReasoningIntent = {
+    intentId: uuidv4(),
+    conversationId,
+    messageId,
+    action: 'search',
+    parameters: { query: 'refunds', limit: 5 },
+    confidence: 0.5,
+    createdAt: new Date().toISOString(),
+    valid: true,
+    ...intent,
+  };
+  const { approval, entry } = requestApproval(intentDoc, ['confidence 0.5 below 0.9']);
+  if (expiresAt) approval.expiresAt = expiresAt;
+  await transitionState(conversationId, messageId, ['INTENT_VALIDATED', 'AWAITING_APPROVAL'], {
+    producer: 'reasoner',
+    intent: intentDoc,
+    approval,
+    events: [entry],
+  });
+  return { conversationId, messageId, intent: intentDoc };
+}
+
+async function newConversation(): Promise<Conversation> {
+  const conversationId = uuidv4();
+  await createConversation(conversationId, 't1');
+  return (await getConversation(conversationId, 't1'))!;
+}
+
+function approve(extra: Partial<ApprovalDecision> = {}): ApprovalDecision {
+  return { approve: true, apiKeyId: APPROVER_KEY, actor: 'alice', ...extra };
+}
+
+async function rejectsWith(promise: Promise<unknown>, kind: ApprovalError['kind'], message?: RegExp): Promise<void> {
+  await assert.rejects(promise, (err: unknown) => {
+    assert.ok(err instanceof ApprovalError);
+    assert.equal(err.kind, kind);
+    if (message) assert.match(err.message, message);
+    return true;
+  });
+}
+
+before(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.EVENT_BUS = 'memory';
+});
+
+describe('decideApproval', () => {
+  it('approves with another key and records who decided', async () => {
+    const conversation = await newConversation();
+    const { messageId } = await awaitingApproval(conversation.conversationId);
+
+    const approval = await decideApproval(conversation, undefined, approve({ comment: 'ok' }));
+
+    assert.equal(approval.status, 'approved');
+    assert.deepEqual(approval.decidedBy, { apiKeyId: APPROVER_KEY, actor: 'alice' });
+    assert.equal(approval.approved, undefined);
+    assert.equal((await getTurn(conversation.conversationId, messageId))?.state, 'ACTION_REQUESTED');
+  });
+
+  it('rejects into REJECTED', async () => {
+    const conversation = await newConversation();
+    const { messageId } = await awaitingApproval(conversation.conversationId);
+
+    const approval = await decideApproval(conversation, messageId, approve({ approve: false }));
+
+    assert.equal(approval.status, 'rejected');
+    assert.equal((await getTurn(conversation.conversationId, messageId))?.state, 'REJECTED');
+  });
+
+  it('refuses a decision made with the key that posted the message', async () => {
+    const conversation = await newConversation();
+    const { messageId } = await awaitingApproval(conversation.conversationId);
+
+    for (const approveIt of [true, false]) {
+      await rejectsWith(
+        decideApproval(conversation, messageId, approve({ approve: approveIt, apiKeyId: REQUESTER_KEY })),
+        'forbidden',
+      );
+    }
+    assert.equal((await getApproval(conversation.conversationId, messageId))?.status, 'pending');
+    assert.equal((await getTurn(conversation.conversationId, messageId))?.state, 'AWAITING_APPROVAL');
+  });
+
+  it('expires an approval past its deadline instead of deciding it', async () => {
+    const conversation = await newConversation();
+    const { messageId } = await awaitingApproval(
+      conversation.conversationId,
+      {},
+      new Date(Date.now() - 1_000).toISOString(),
+    );
+
+    await rejectsWith(decideApproval(conversation, messageId, approve()), 'not_pending', /expired/);
+    assert.equal((await getApproval(conversation.conversationId, messageId))?.status, 'expired');
+    assert.equal((await getTurn(conversation.conversationId, messageId))?.state, 'TIMED_OUT');
+
+    await rejectsWith(decideApproval(conversation, messageId, approve()), 'not_pending', /already expired/);
+  });
+
+  it('refuses to decide twice', async () => {
+    const conversation = await newConversation();
+    const { messageId } = await awaitingApproval(conversation.conversationId);
+    await decideApproval(conversation, messageId, approve());
+
+    await rejectsWith(decideApproval(conversation, messageId, approve()), 'not_pending', /already approved/);
+  });
+
+  it('needs a messageId when several approvals are pending', async () => {
+    const conversation = await newConversation();
+    await awaitingApproval(conversation.conversationId);
+    const { messageId } = await awaitingApproval(conversation.conversationId);
+
+    await rejectsWith(decideApproval(conversation, undefined, approve()), 'ambiguous');
+    assert.equal((await decideApproval(conversation, messageId, approve())).messageId, messageId);
+    // One left, so it can be decided without a messageId again
+    assert.equal((await decideApproval(conversation, undefined, approve())).status, 'approved');
+  });
+
+  it('reports a missing approval as not found', async () => {
+    const conversation = await newConversation();
+
+    await rejectsWith(decideApproval(conversation, undefined, approve()), 'not_found', /No pending approval/);
+    await rejectsWith(decideApproval(conversation, 'missing', approve()), 'not_found', /No approval found/);
+  });
+});
+
+describe('decideApproval with edited parameters', () => {
+  const steps: PlanStep[] = [
+    { stepId: 'find', action: 'search', parameters: { query: 'prices', limit: 5 }, dependsOn: [] },
+    { stepId: 'sum', action: 'calculate', parameters: { expression: '2 + 2' }, dependsOn: [] },
+  ];
+
+  it('validates the new parameters, applies tool defaults and keeps the proposal', async () => {
+    const conversation = await newConversation();
+    const { messageId, intent } = await awaitingApproval(conversation.conversationId);
+
+    const approval = await decideApproval(conversation, messageId, approve({ parameters: { query: 'invoices' } }));
+
+    assert.deepEqual(approval.proposed.parameters, { query: 'refunds', limit: 5 });
+    assert.deepEqual(approval.approved?.parameters, { query: 'invoices', limit: 5 });
+    assert.deepEqual((await getIntent(conversation.conversationId, intent.intentId))?.parameters, { query: 'invoices', limit: 5 });
+  });
+
+  it('refuses parameters that fail the tool schema and leaves the turn waiting', async () => {
+    const conversation = await newConversation();
+    const { messageId } = await awaitingApproval(conversation.conversationId);
+
+    await rejectsWith(
+      decideApproval(conversation, messageId, approve({ parameters: { query: '', limit: 50 } })),
+      'invalid_parameters',
+      /parameters\.query.*parameters\.limit/,
+    );
+    assert.equal((await getTurn(conversation.conversationId, messageId))?.state, 'AWAITING_APPROVAL');
+  });
+
+  it('edits plans by step id only', async () => {
+    const conversation = await newConversation();
+    const single = await awaitingApproval(conversation.conversationId);
+    const plan = await awaitingApproval(conversation.conversationId, { steps });
+
+    await rejectsWith(
+      decideApproval(conversation, single.messageId, approve({ steps: { find: { query: 'x' } } })),
+      'invalid_parameters',
+      /single action/,
+    );
+    await rejectsWith(
+      decideApproval(conversation, plan.messageId, approve({ parameters: { query: 'x' } })),
+      'invalid_parameters',
+      /is a plan/,
+    );
+    await rejectsWith(
+      decideApproval(conversation, plan.messageId, approve({ steps: { nope: { query: 'x' } } })),
+      'invalid_parameters',
+      /Unknown step ids: nope/,
+    );
+    await rejectsWith(
+      decideApproval(conversation, plan.messageId, approve({ steps: { sum: { expression: '' } } })),
+      'invalid_parameters',
+    );
+
+    const approval = await decideApproval(conversation, plan.messageId, approve({ steps: { sum: { expression: '3 * 3' } } }));
+    assert.deepEqual(approval.approved?.steps?.map((s) => s.parameters), [{ query: 'prices', limit: 5 }, { expression: '3 * 3' }]);
+    assert.equal((await getTurn(conversation.conversationId, plan.messageId))?.plan?.currentStepId, 'find');
+  });
+});
@@ -0,0 +1,30 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { backoffDelayMs } from '../../src/shared/backoff';
+
+describe('backoffDelayMs', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('doubles the delay with every attempt', () => {
+    mock.method(Math, 'random', () => 1);
+    assert.deepEqual([1, 2, 3, 4].map((n) => backoffDelayMs(n, 1_000, 60_000)), [1_000, 2_000, 4_000, 8_000]);
+  });
+
+  it('caps the delay at maxMs', () => {
+    mock.method(Math, 'random', () => 1);
+    assert.equal(backoffDelayMs(7, 1_000, 60_000), 60_000);
+    assert.equal(backoffDelayMs(50, 1_000, 60_000), 60_000);
+  });
+
+  it('jitters between half and the full delay', () => {
+    mock.method(Math, 'random', () => 0);
+    assert.equal(backoffDelayMs(3, 1_000, 60_000), 2_000);
+    assert.equal(backoffDelayMs(50, 1_000, 60_000), 30_000);
+
+    mock.restoreAll();
+    for (let i = 0; i < 100; i++) {
+      const delay = backoffDelayMs(2, 30_000, 3_600_000);
+      assert.ok(delay >= 30_000 && delay <= 60_000, `delay ${delay}`);
+    }
+  });
+});
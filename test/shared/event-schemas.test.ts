@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EVENT_SCHEMA_VERSIONS, EventContractError, parseAgentEvent, upcastEvent } from '../../src/shared/event-schemas';
+
+/** An event as published before events were versioned: no schemaVersion */
+function legacyEvent(eventType: string, payload: Record<string, unknown>): Record<string, unknown> {
+  return {
+    eventId: 'e1',
+    eventType,
+    tenantId: 't1',
+    conversationId: 'c1',
+    messageId: 'm1',
+    timestamp: new Date().toISOString(),
+    producer: 'api',
+    payload,
+  };
+}
+
+function contractError(fn: () => unknown): EventContractError {
+  let caught: unknown;
+  assert.throws(fn, (err: unknown) => {
+    caught = err;
+    return err instanceof EventContractError;
+  });
+  return caught as EventContractError;
+}
+
+describe('upcastEvent', () => {
+  it('upcasts unversioned events by applying the defaults their consumers used to', () => {
+    const reasoning = upcastEvent(legacyEvent('reasoning_requested', {}));
+    assert.equal(reasoning.schemaVersion, EVENT_SCHEMA_VERSIONS.reasoning_requested);
+    assert.deepEqual(reasoning.payload, { content: '' });
+
+    const action = upcastEvent(legacyEvent('action_requested', { intentId: 'i1', action: 'search', confidence: 1 }));
+    assert.deepEqual((action.payload as Record<string, unknown>).parameters, {});
+  });
+
+  it('keeps values the old event already had', () => {
+    const upcast = upcastEvent(legacyEvent('reasoning_requested', { content: 'hello' }));
+    assert.deepEqual(upcast.payload, { content: 'hello' });
+  });
+
+  it('only bumps the version of types without an upcaster', () => {
+    const raw = legacyEvent('response_requested', { intentId: 'i1' });
+    assert.deepEqual(upcastEvent(raw), { ...raw, schemaVersion: EVENT_SCHEMA_VERSIONS.response_requested });
+  });
+
+  it('leaves current events, unknown types and malformed versions for validation to judge', () => {
+    const current = legacyEvent('reasoning_requested', {});
+    current.schemaVersion = EVENT_SCHEMA_VERSIONS.reasoning_requested;
+    assert.equal(upcastEvent(current).payload, current.payload);
+
+    const unknown = legacyEvent('something_else', {});
+    assert.equal(upcastEvent(unknown), unknown);
+    const malformed = { ...legacyEvent('reasoning_requested', {}), schemaVersion: '1' };
+    assert.equal(upcastEvent(malformed), malformed);
+  });
+
+  it('rejects events newer than this deployment as retryable', () => {
+    const err = contractError(() => upcastEvent({ ...legacyEvent('reasoning_requested', {}), schemaVersion: 99 }));
+    assert.equal(err.retryable, true);
+    assert.match(err.message, /schema version 99 is newer than the supported version 2/);
+  });
+});
+
+describe('parseAgentEvent', () => {
+  it('returns the upcast, validated event', () => {
+    const event = parseAgentEvent(legacyEvent('reasoning_requested', {}), ['reasoning_requested']);
+    assert.equal(event.schemaVersion, 2);
+    assert.equal(event.payload.content, '');
+  });
+
+  it('reports every schema issue without marking it retryable', () => {
+    const err = contractError(() => parseAgentEvent(legacyEvent('action_requested', { action: 'search', confidence: 2 })));
+    assert.equal(err.retryable, false);
+    assert.match(err.message, /^Invalid action_requested event: /);
+    assert.deepEqual(err.issues.map((i) => i.split(':')[0]).sort(), ['payload.confidence', 'payload.intentId']);
+  });
+
+  it('rejects non-objects, unknown types and types the consumer does not take', () => {
+    assert.match(contractError(() => parseAgentEvent([])).message, /not a JSON object/);
+    assert.match(contractError(() => parseAgentEvent(legacyEvent('something_else', {}))).message, /Invalid something_else event/);
+    assert.match(
+      contractError(() => parseAgentEvent(legacyEvent('response_requested', { intentId: 'i1' }), ['reasoning_requested'])).message,
+      /Unexpected event type response_requested \(expected reasoning_requested\)/,
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkText, deleteDocument, getDocument, ingestDocument, searchKnowledgeBase, tokenize } from '../../src/shared/knowledge-base';
+import { DocumentStore, getStore, StoreTransaction } from '../../src/shared/store';
+
+/** `count` distinct words, e.g. "w0 w1 w2" */
+function words(count: number, prefix = 'w'): string {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+}
+
+function wordCount(text: string): number {
+  return text.split(' ').length;
+}
+
+/** Let the next batch commit fail, as if the process crashed; returns the restore function. */
+function crashNextBatch(store: DocumentStore): () => void {
+  const batch = store.batch;
+  store.batch = () => {
+    store.batch = batch;
+    const failing = batch.call(store);
+    failing.commit = () => Promise.reject(new Error('crashed'));
+    return failing;
+  };
+  return () => {
+    store.batch = batch;
+  };
+}
+
+/** Let the `n`-th transaction from now fail; returns the restore function. */
+function crashTransaction(store: DocumentStore, n: number): () => void {
+  const runTransaction = store.runTransaction;
+  let calls = 0;
+  store.runTransaction = <T>(fn: (tx: StoreTransaction) => Promise<T>): Promise<T> => {
+    if (++calls === n) return Promise.reject(new Error('crashed'));
+    return runTransaction.call(store, fn) as Promise<T>;
+  };
+  return () => {
+    store.runTransaction = runTransaction;
+  };
+}
+
+describe('tokenize', () => {
+  it('lowercases, strips diacritics and drops stopwords and single characters', () => {
+    assert.deepEqual(
+      tokenize('The Café is OPEN, and I like it: naïve résumé 42 a'),
+      ['cafe', 'open', 'like', 'naive', 'resume', '42'],
+    );
+  });
+});
+
+describe('chunkText', () => {
+  it('returns no chunks for blank text and one chunk for short text', () => {
+    assert.deepEqual(chunkText('   '), []);
+    assert.deepEqual(chunkText('One.  Two!\nThree?'), ['One. Two! Three?']);
+  });
+
+  it('packs sentences up to 120 words and repeats the last sentence as overlap', () => {
+    // Ten sentences of 30 words each
+    const sentences = Array.from({ length: 10 }, (_, i) => `Sentence ${i} ${words(28, `s${i}x`)}.`);
+    const chunks = chunkText(sentences.join(' '));
+
+    assert.deepEqual(chunks.map(wordCount), [120, 120, 120]);
+    assert.ok(chunks[0].endsWith(sentences[3]));
+    assert.ok(chunks[1].startsWith(sentences[3]));
+    assert.ok(chunks[2].startsWith(sentences[6]));
+    assert.ok(chunks[2].endsWith(sentences[9]));
+  });
+
+  it('splits a sentence longer than a chunk on word boundaries', () => {
+    assert.deepEqual(chunkText(words(300)).map(wordCount), [120, 120, 60]);
+  });
+});
+
+describe('searchKnowledgeBase', () => {
+  const ingested: string[] = [];
+
+  async function ingest(documentId: string, content: string): Promise<void> {
+    await ingestDocument({ documentId, title: documentId, content });
+    ingested.push(documentId);
+  }
+
+  async function rankedIds(query: string, limit?: number): Promise<string[]> {
+    const { hits } = await searchKnowledgeBase(query, limit);
+    return hits.map((hit) => hit.documentId);
+  }
+
+  before(() => {
+    process.env.STORAGE_BACKEND = 'memory';
+  });
+
+  afterEach(async () => {
+    for (const documentId of ingested.splice(0)) await deleteDocument(documentId);
+  });
+
+  it('ranks chunks with more occurrences of a term higher', async () => {
+    await ingest('once', 'Refunds are issued by the billing team within days.');
+    await ingest('twice', 'Refunds are issued by the billing team. Refunds take days.');
+
+    assert.deepEqual(await rankedIds('refunds'), ['twice', 'once']);
+  });
+
+  it('ranks shorter chunks higher for the same term frequency', async () => {
+    await ingest('short', 'Refunds take days.');
+    await ingest('long', `Refunds take days ${words(80)}.`);
+
+    assert.deepEqual(await rankedIds('refunds'), ['short', 'long']);
+  });
+
+  it('weighs rare terms more than common ones', async () => {
+    await ingest('common', 'Shipping shipping shipping costs.');
+    await ingest('rare', 'Customs paperwork costs.');
+    await ingest('other', 'Shipping takes days.');
+
+    const { hits } = await searchKnowledgeBase('shipping customs');
+    assert.equal(hits[0].documentId, 'rare');
+  });
+
+  it('returns at most `limit` hits but counts every match', async () => {
+    await ingest('a', 'Invoices are sent monthly.');
+    await ingest('b', 'Invoices can be downloaded.');
+    await ingest('c', 'Invoices list every charge.');
+
+    const { hits, totalMatches } = await searchKnowledgeBase('invoices', 2);
+    assert.equal(hits.length, 2);
+    assert.equal(totalMatches, 3);
+  });
+
+  it('returns a snippet and title for each hit', async () => {
+    await ingest('policy', 'Returns are accepted for thirty days.');
+
+    const { hits } = await searchKnowledgeBase('returns');
+    assert.equal(hits[0].title, 'policy');
+    assert.equal(hits[0].snippet, 'Returns are accepted for thirty days.');
+    assert.ok(hits[0].score > 0);
+  });
+
+  it('finds nothing for a query made of stopwords', async () => {
+    await ingest('doc', 'The answer is in the document.');
+
+    assert.deepEqual(await searchKnowledgeBase('the and of'), { hits: [], totalMatches: 0 });
+  });
+
+  it('stops returning a document once it is deleted or replaced', async () => {
+    await ingest('faq', 'Warranty claims need a receipt.');
+    assert.deepEqual(await rankedIds('warranty'), ['faq']);
+
+    await ingest('faq', 'Opening hours are nine to five.');
+    assert.deepEqual(await rankedIds('warranty'), []);
+    assert.deepEqual(await rankedIds('opening'), ['faq']);
+
+    await deleteDocument('faq');
+    assert.deepEqual(await rankedIds('opening'), []);
+  });
+
+  it('finishes an interrupted delete on the next attempt', async () => {
+    const statsBefore = await getStore().get('searchStats/global');
+    await ingest('crash', 'Loyalty points expire after a year.');
+
+    const restore = crashNextBatch(getStore());
+    try {
+      await assert.rejects(deleteDocument('crash'), /crashed/);
+    } finally {
+      restore();
+    }
+    // Marked as deleting: no longer searched or returned, already out of the stats
+    assert.deepEqual(await rankedIds('loyalty'), []);
+    assert.equal(await getDocument('crash'), null);
+    assert.deepEqual(await getStore().get('searchStats/global'), statsBefore);
+    assert.equal((await getStore().query('documents/crash/chunks')).length, 1);
+
+    assert.equal(await deleteDocument('crash'), true);
+    assert.equal((await getStore().query('documents/crash/chunks')).length, 0);
+    assert.equal((await getStore().query('searchIndex/loyalty/postings')).length, 0);
+    assert.equal(await getStore().get('documents/crash'), null);
+    assert.deepEqual(await getStore().get('searchStats/global'), statsBefore);
+  });
+
+  it('removes chunks left by an interrupted ingest when the document is ingested again', async () => {
+    const statsBefore = await getStore().get('searchStats/global');
+
+    // The first transaction clears the previous version, the second writes metadata and stats
+    const restore = crashTransaction(getStore(), 2);
+    try {
+      await assert.rejects(ingest('partial', 'Gift cards never expire.'), /crashed/);
+    } finally {
+      restore();
+    }
+    assert.equal(await getDocument('partial'), null);
+    assert.deepEqual(await getStore().get('searchStats/global'), statsBefore);
+
+    await ingest('partial', 'Vouchers are valid for six months.');
+    assert.equal((await getStore().query('searchIndex/gift/postings')).length, 0);
+    assert.deepEqual(await rankedIds('vouchers'), ['partial']);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStore } from '../../src/shared/memory-store';
+import type { StoreChange } from '../../src/shared/store';
+
+interface Doc {
+  n: number;
+  tag?: string;
+  nested?: Record<string, unknown>;
+}
+
+/** Let queued watch notifications run */
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('MemoryStore documents', () => {
+  it('copies data in and out and drops undefined fields', async () => {
+    const store = new MemoryStore();
+    const doc: Doc = { n: 1, tag: undefined, nested: { a: 1 } };
+    await store.set('items/a', doc);
+    doc.nested!.a = 2;
+
+    const read = await store.get<Doc>('items/a');
+    assert.deepEqual(read, { n: 1, nested: { a: 1 } });
+    assert.ok(!('tag' in read!));
+    read!.n = 99;
+    assert.equal((await store.get<Doc>('items/a'))?.n, 1);
+  });
+
+  it('merges nested fields on set with merge, and replaces top-level fields on update', async () => {
+    const store = new MemoryStore();
+    await store.set('items/a', { n: 1, nested: { a: 1, b: 1 } });
+    await store.set('items/a', { nested: { b: 2 } }, { merge: true });
+    assert.deepEqual(await store.get('items/a'), { n: 1, nested: { a: 1, b: 2 } });
+
+    await store.update('items/a', { nested: { c: 3 } });
+    assert.deepEqual(await store.get('items/a'), { n: 1, nested: { c: 3 } });
+    await assert.rejects(store.update('items/missing', { n: 1 }), /No document to update/);
+  });
+
+  it('queries one collection level with filters, order, cursor and limit', async () => {
+    const store = new MemoryStore();
+    for (const [id, n, tag] of [['a', 3, 'x'], ['b', 1, 'y'], ['c', 2, 'x'], ['d', 2, 'x']] as const) {
+      await store.set(`items/${id}`, { n, tag });
+    }
+    await store.set('items/a/children/z', { n: 0, tag: 'x' });
+    await store.set('items/e', { tag: 'x' });
+
+    const ids = async (query: Parameters<MemoryStore['query']>[1]): Promise<string[]> =>
+      (await store.query('items', query)).map((d) => d.id);
+
+    assert.deepEqual(await ids({}), ['a', 'b', 'c', 'd', 'e']);
+    assert.deepEqual(await ids({ where: [{ field: 'tag', op: '==', value: 'x' }] }), ['a', 'c', 'd', 'e']);
+    assert.deepEqual(await ids({ where: [{ field: 'n', op: 'in', value: [1, 3] }] }), ['a', 'b']);
+    // Documents without the order field are left out; ties are ordered by id
+    assert.deepEqual(await ids({ orderBy: { field: 'n' } }), ['b', 'c', 'd', 'a']);
+    assert.deepEqual(await ids({ orderBy: { field: 'n', direction: 'desc' }, limit: 2 }), ['a', 'd']);
+    assert.deepEqual(await ids({ orderBy: { field: 'n' }, startAfter: { value: 2, id: 'c' } }), ['d', 'a']);
+  });
+
+  it('applies a batch all or nothing', async () => {
+    const store = new MemoryStore();
+    await store.set('items/a', { n: 1 });
+
+    const batch = store.batch();
+    batch.set('items/b', { n: 2 });
+    batch.delete('items/a');
+    batch.update('items/missing', { n: 3 });
+    await assert.rejects(batch.commit(), /No document to update/);
+
+    assert.deepEqual(await store.get('items/a'), { n: 1 });
+    assert.equal(await store.get('items/b'), null);
+  });
+});
+
+describe('MemoryStore transactions', () => {
+  it('re-runs a transaction whose reads changed before it committed', async () => {
+    const store = new MemoryStore();
+    await store.set('counters/c', { n: 0 });
+
+    let runs = 0;
+    const result = await store.runTransaction(async (tx) => {
+      runs++;
+      const counter = await tx.get<Doc>('counters/c');
+      // A concurrent writer commits between this transaction's read and its commit
+      if (runs === 1) await store.update('counters/c', { n: 10 });
+      tx.update('counters/c', { n: counter!.n + 1 });
+      return counter!.n;
+    });
+
+    assert.equal(runs, 2);
+    assert.equal(result, 10);
+    assert.equal((await store.get<Doc>('counters/c'))?.n, 11);
+  });
+
+  it('serialises concurrent read-modify-write transactions', async () => {
+    const store = new MemoryStore();
+    await store.set('counters/c', { n: 0 });
+
+    await Promise.all(Array.from({ length: 4 }, () => store.runTransaction(async (tx) => {
+      const counter = await tx.get<Doc>('counters/c');
+      tx.update('counters/c', { n: counter!.n + 1 });
+    })));
+
+    assert.equal((await store.get<Doc>('counters/c'))?.n, 4);
+  });
+
+  it('detects a document created after it was read as missing', async () => {
+    const store = new MemoryStore();
+    let runs = 0;
+    const created = await store.runTransaction(async (tx) => {
+      runs++;
+      const existing = await tx.get('claims/x');
+      if (runs === 1) await store.set('claims/x', { n: 1 });
+      if (existing) return false;
+      tx.set('claims/x', { n: 2 });
+      return true;
+    });
+
+    assert.equal(created, false);
+    assert.equal((await store.get<Doc>('claims/x'))?.n, 1);
+  });
+
+  it('gives up after repeated conflicts and writes nothing', async () => {
+    const store = new MemoryStore();
+    await store.set('counters/c', { n: 0 });
+
+    await assert.rejects(store.runTransaction(async (tx) => {
+      const counter = await tx.get<Doc>('counters/c');
+      await store.update('counters/c', { n: counter!.n + 1 });
+      tx.set('counters/other', { n: 1 });
+    }), /changed during transaction/);
+    assert.equal(await store.get('counters/other'), null);
+  });
+
+  it('writes nothing when the transaction function throws', async () => {
+    const store = new MemoryStore();
+    await assert.rejects(store.runTransaction(async (tx) => {
+      tx.set('items/a', { n: 1 });
+      throw new Error('boom');
+    }), /boom/);
+    assert.equal(await store.get('items/a'), null);
+  });
+
+  it('requires all reads before all writes, like Firestore', async () => {
+    const store = new MemoryStore();
+    await assert.rejects(store.runTransaction(async (tx) => {
+      tx.set('items/a', { n: 1 });
+      await tx.get('items/b');
+    }), /reads to be executed before all writes/);
+  });
+});
+
+describe('MemoryStore.watch', () => {
+  it('delivers the current matches, then changes in commit order', async () => {
+    const store = new MemoryStore();
+    await store.set('items/a', { n: 1 });
+    await store.set('items/b', { n: 5 });
+
+    const received: Array<StoreChange<Doc>> = [];
+    const unsubscribe = store.watch<Doc>(
+      'items',
+      { where: [{ field: 'n', op: '<', value: 3 }] },
+      (changes) => received.push(...changes),
+      () => {},
+    );
+    await store.set('items/c', { n: 2 });
+    await store.update('items/a', { n: 4 });       // no longer matches
+    await store.update('items/b', { n: 0 });       // now matches
+    await store.update('items/c', { n: 1 });
+    await settle();
+
+    assert.deepEqual(received.map((c) => [c.type, c.id, c.data.n]), [
+      ['added', 'a', 1],
+      ['added', 'c', 2],
+      ['removed', 'a', 1],
+      ['added', 'b', 0],
+      ['modified', 'c', 1],
+    ]);
+
+    unsubscribe();
+    await store.set('items/d', { n: 0 });
+    await settle();
+    assert.equal(received.length, 5);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Counter,
+  Histogram,
+  recordPublish,
+  recordReceiptClaim,
+  recordToolExecution,
+  recordTransition,
+  renderMetrics,
+} from '../../src/shared/metrics';
+
+describe('Counter', () => {
+  it('keeps one series per label set, whatever the label order', () => {
+    const counter = new Counter('test_total', 'help');
+    counter.inc({ a: '1', b: '2' });
+    counter.inc({ b: '2', a: '1' }, 2);
+    counter.inc();
+
+    assert.deepEqual(counter.render(), ['test_total{a="1",b="2"} 3', 'test_total 1']);
+  });
+
+  it('escapes backslashes, quotes and newlines in label values', () => {
+    const counter = new Counter('test_total', 'help');
+    counter.inc({ path: 'C:\\tmp', quote: 'say "hi"', text: 'two\nlines' });
+
+    assert.deepEqual(counter.render(), ['test_total{path="C:\\\\tmp",quote="say \\"hi\\"",text="two\\nlines"} 1']);
+  });
+});
+
+describe('Histogram', () => {
+  it('renders cumulative buckets ending in +Inf, then the sum and count', () => {
+    const histogram = new Histogram('test_seconds', 'help', [0.1, 1]);
+    for (const value of [0.05, 0.1, 0.5, 3]) histogram.observe({ topic: 't' }, value);
+
+    assert.deepEqual(histogram.render(), [
+      'test_seconds_bucket{topic="t",le="0.1"} 2',
+      'test_seconds_bucket{topic="t",le="1"} 3',
+      'test_seconds_bucket{topic="t",le="+Inf"} 4',
+      'test_seconds_sum{topic="t"} 3.65',
+      'test_seconds_count{topic="t"} 4',
+    ]);
+  });
+
+  it('renders nothing before the first observation', () => {
+    assert.deepEqual(new Histogram('test_seconds', 'help', [1]).render(), []);
+  });
+});
+
+describe('renderMetrics', () => {
+  it('renders every pipeline metric with HELP and TYPE lines, even before any sample', () => {
+    const text = renderMetrics();
+
+    assert.ok(text.endsWith('\n'));
+    for (const [metric, type] of [
+      ['agent_state_transitions_total', 'counter'],
+      ['agent_state_duration_seconds', 'histogram'],
+      ['agent_turn_duration_seconds', 'histogram'],
+      ['agent_receipt_claims_total', 'counter'],
+      ['agent_events_published_total', 'counter'],
+      ['agent_publish_duration_seconds', 'histogram'],
+      ['agent_tool_executions_total', 'counter'],
+      ['agent_tool_duration_seconds', 'histogram'],
+    ]) {
+      assert.match(text, new RegExp(`^# HELP ${metric} \\S.*$`, 'm'));
+      assert.match(text, new RegExp(`^# TYPE ${metric} ${type}$`, 'm'));
+    }
+  });
+
+  it('renders what the record helpers measured, under their labels', () => {
+    const enteredAt = new Date(Date.now() - 2_000).toISOString();
+    recordTransition({ handler: 'executor', from: 'ACTION_REQUESTED', to: 'ACTION_COMPLETED', enteredAt });
+    recordTransition({ handler: 'responder', from: 'ACTION_COMPLETED', to: 'RESPONDED', enteredAt, openedAt: enteredAt });
+    recordReceiptClaim('reasoner', 'duplicate');
+    recordPublish({ handler: 'api', eventType: 'reasoning_requested', topic: 'reasoning-requested', success: false, seconds: 0.02 });
+    recordToolExecution({ action: 'search', success: true, seconds: 0.2 });
+
+    const text = renderMetrics();
+    const samples = text.split('\n');
+    for (const sample of [
+      'agent_state_transitions_total{handler="executor",from="ACTION_REQUESTED",to="ACTION_COMPLETED"} 1',
+      'agent_receipt_claims_total{handler="reasoner",outcome="duplicate"} 1',
+      'agent_events_published_total{handler="api",event_type="reasoning_requested",topic="reasoning-requested",outcome="error"} 1',
+      'agent_publish_duration_seconds_bucket{topic="reasoning-requested",le="0.01"} 0',
+      'agent_publish_duration_seconds_bucket{topic="reasoning-requested",le="0.025"} 1',
+      'agent_publish_duration_seconds_count{topic="reasoning-requested"} 1',
+      'agent_tool_executions_total{action="search",outcome="success",error_code=""} 1',
+      'agent_state_duration_seconds_bucket{state="ACTION_REQUESTED",le="2.5"} 1',
+      'agent_turn_duration_seconds_count{state="RESPONDED"} 1',
+    ]) {
+      assert.ok(samples.includes(sample), `missing sample: ${sample}`);
+    }
+    // Only terminal transitions measure the turn
+    assert.deepEqual(
+      samples.filter((line) => line.startsWith('agent_turn_duration_seconds_count')),
+      ['agent_turn_duration_seconds_count{state="RESPONDED"} 1'],
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { OutboxEntry, OutboxMessage, relayOutbox, stageOutboxEntry, sweepOutbox } from '../../src/shared/outbox';
+import { getEventBus } from '../../src/shared/event-bus';
+import { EVENT_SCHEMA_VERSIONS } from '../../src/shared/event-schemas';
+import {
+  claimReceipt,
+  completeReceipt,
+  createConversation,
+  openTurn,
+  releaseReceipt,
+  transitionState,
+} from '../../src/shared/repository';
+import { getStore } from '../../src/shared/store';
+import type { AgentEvent } from '../../src/shared/types';
+
+const MINUTE_MS = 60_000;
+
+function reasoningRequested(): AgentEvent<'reasoning_requested'> {
+  return {
+    eventId: uuidv4(),
+    eventType: 'reasoning_requested',
+    schemaVersion: EVENT_SCHEMA_VERSIONS.reasoning_requested,
+    tenantId: 't1',
+    conversationId: 'c1',
+    messageId: 'm1',
+    timestamp: new Date().toISOString(),
+    producer: 'api',
+    payload: { content: 'search for refunds' },
+  };
+}
+
+async function stage(...messages: OutboxMessage[]): Promise<void> {
+  await getStore().runTransaction(async (tx) => {
+    for (const message of messages) stageOutboxEntry(tx, message);
+  });
+}
+
+async function entry(eventId: string): Promise<OutboxEntry | null> {
+  return getStore().get<OutboxEntry>(`outbox/${eventId}`);
+}
+
+/** A pending entry committed `ageMs` ago and never published; a `delayed` one became due a second ago */
+async function strandedEntry(ageMs: number, delayed = false): Promise<AgentEvent> {
+  const event = reasoningRequested();
+  const createdAt = new Date(Date.now() - ageMs).toISOString();
+  const stored: OutboxEntry = {
+    eventId: event.eventId,
+    topic: 'reasoning-requested',
+    event,
+    status: 'pending',
+    createdAt,
+    availableAt: delayed ? new Date(Date.now() - 1_000).toISOString() : createdAt,
+    attempts: 0,
+  };
+  await getStore().set(`outbox/${event.eventId}`, stored);
+  return event;
+}
+
+function failPublishes(): void {
+  mock.method(getEventBus(), 'publish', async () => {
+    throw new Error('bus unavailable');
+  });
+}
+
+before(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.EVENT_BUS = 'memory';
+});
+
+beforeEach(async () => {
+  const batch = getStore().batch();
+  for (const { id } of await getStore().query('outbox')) batch.delete(`outbox/${id}`);
+  await batch.commit();
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('relayOutbox', () => {
+  it('publishes staged entries once and marks them sent', async () => {
+    const publish = mock.method(getEventBus(), 'publish');
+    const event = reasoningRequested();
+    await stage({ topic: 'reasoning-requested', event });
+
+    await relayOutbox([event.eventId]);
+    await relayOutbox([event.eventId]);
+
+    assert.equal(publish.mock.callCount(), 1);
+    assert.equal(publish.mock.calls[0].arguments[0], 'reasoning-requested');
+    assert.equal(publish.mock.calls[0].arguments[1].eventId, event.eventId);
+    const sent = await entry(event.eventId);
+    assert.equal(sent?.status, 'sent');
+    assert.equal(sent?.attempts, 1);
+    assert.ok(sent?.pubsubMessageId);
+  });
+
+  it('leaves delayed entries to the sweep', async () => {
+    const event = reasoningRequested();
+    await stage({ topic: 'action-requested', event, availableAt: new Date(Date.now() + MINUTE_MS).toISOString() });
+
+    await relayOutbox([event.eventId]);
+    assert.equal((await entry(event.eventId))?.status, 'pending');
+  });
+
+  it('records a failed publish and keeps the entry pending without throwing', async () => {
+    failPublishes();
+    const event = reasoningRequested();
+    await stage({ topic: 'reasoning-requested', event });
+
+    await relayOutbox([event.eventId, 'missing']);
+
+    const pending = await entry(event.eventId);
+    assert.equal(pending?.status, 'pending');
+    assert.equal(pending?.attempts, 1);
+    assert.equal(pending?.lastError, 'bus unavailable');
+  });
+});
+
+describe('sweepOutbox', () => {
+  it('re-publishes stranded entries and leaves recent ones to the fast path', async () => {
+    const stranded = await strandedEntry(5 * MINUTE_MS);
+    const recent = await strandedEntry(1_000);
+
+    assert.deepEqual(await sweepOutbox(), { published: 1, failed: 0 });
+    assert.equal((await entry(stranded.eventId))?.status, 'sent');
+    assert.equal((await entry(recent.eventId))?.status, 'pending');
+  });
+
+  it('publishes delayed entries once they are due', async () => {
+    // Too recent to count as stranded, so only its due time gets it published
+    const due = await strandedEntry(10_000, true);
+    const later = reasoningRequested();
+    await stage({ topic: 'action-requested', event: later, availableAt: new Date(Date.now() + MINUTE_MS).toISOString() });
+
+    assert.deepEqual(await sweepOutbox(), { published: 1, failed: 0 });
+    assert.equal((await entry(due.eventId))?.status, 'sent');
+    assert.equal((await entry(later.eventId))?.status, 'pending');
+  });
+
+  it('counts failures and retries them on the next sweep', async () => {
+    const stranded = await strandedEntry(5 * MINUTE_MS);
+    failPublishes();
+    assert.deepEqual(await sweepOutbox(), { published: 0, failed: 1 });
+
+    mock.restoreAll();
+    assert.deepEqual(await sweepOutbox(), { published: 1, failed: 0 });
+    assert.equal((await entry(stranded.eventId))?.attempts, 2);
+  });
+});
+
+describe('transitionState with the outbox', () => {
+  it('commits the transition and its events even when publishing fails', async () => {
+    const conversationId = uuidv4();
+    await createConversation(conversationId, 't1');
+    await openTurn(conversationId, 'm1');
+    const event = { ...reasoningRequested(), conversationId };
+
+    failPublishes();
+    await transitionState(conversationId, 'm1', 'REASONING_REQUESTED', {
+      producer: 'api',
+      outbox: [{ topic: 'reasoning-requested', event }],
+    });
+
+    const staged = await getStore().query<OutboxEntry>('outbox', {
+      where: [{ field: 'event.conversationId', op: '==', value: conversationId }],
+    });
+    assert.deepEqual(staged.map((d) => d.data.event.eventType).sort(), ['reasoning_requested', 'state_changed']);
+    assert.ok(staged.every((d) => d.data.status === 'pending' && d.data.attempts === 1));
+
+    // Once the bus is back, the sweep publishes them (here: as if they had been stranded for a while)
+    mock.restoreAll();
+    for (const { id } of staged) {
+      const old = new Date(Date.now() - 5 * MINUTE_MS).toISOString();
+      await getStore().update(`outbox/${id}`, { createdAt: old, availableAt: old });
+    }
+    assert.deepEqual(await sweepOutbox(), { published: 2, failed: 0 });
+  });
+});
+
+describe('claimReceipt', () => {
+  const meta = { handler: 'reasoner', conversationId: 'c1', messageId: 'm1' };
+
+  it('claims an event once and skips duplicates', async () => {
+    const eventId = uuidv4();
+    assert.equal(await claimReceipt(eventId, meta), true);
+    assert.equal(await claimReceipt(eventId, meta), false);            // in flight
+
+    await completeReceipt(eventId);
+    assert.equal(await claimReceipt(eventId, meta), false);            // completed
+  });
+
+  it('lets exactly one of concurrent deliveries claim the event', async () => {
+    const eventId = uuidv4();
+    const claims = await Promise.all([1, 2, 3].map(() => claimReceipt(eventId, meta)));
+    assert.deepEqual(claims.sort(), [false, false, true]);
+  });
+
+  it('reclaims a receipt left processing by a crashed consumer', async () => {
+    const eventId = uuidv4();
+    const claimedAt = new Date(Date.now() - 3 * MINUTE_MS).toISOString();
+    await getStore().set(`receipts/${eventId}`, { eventId, ...meta, status: 'processing', claimedAt });
+
+    assert.equal(await claimReceipt(eventId, meta), true);
+    const receipt = await getStore().get<{ claimedAt: string; retriedAt?: string }>(`receipts/${eventId}`);
+    assert.ok(receipt?.retriedAt);
+    assert.ok(receipt.claimedAt > claimedAt);
+    // The reclaim is fresh again, so a further redelivery is in flight
+    assert.equal(await claimReceipt(eventId, meta), false);
+  });
+
+  it('can be claimed again right after a release', async () => {
+    const eventId = uuidv4();
+    await claimReceipt(eventId, meta);
+    await releaseReceipt(eventId);
+    assert.equal(await claimReceipt(eventId, meta), true);
+  });
+
+  it('completes a receipt whose document was lost', async () => {
+    const eventId = uuidv4();
+    await completeReceipt(eventId);
+    assert.equal(await claimReceipt(eventId, meta), false);
+  });
+});
@@ -0,0 +1,134 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  containsPiiTokens,
+  detectPii,
+  detokenizePii,
+  piiTokenMap,
+  redactFields,
+  redactPii,
+  registerPiiDetector,
+  tokenizePii,
+} from '../../src/shared/pii';
+
+describe('redactPii', () => {
+  it('redacts email addresses', () => {
+    assert.equal(redactPii('Mail jane.doe+work@example.co.uk today'), 'Mail [REDACTED_EMAIL] today');
+  });
+
+  it('redacts card numbers that pass the Luhn check only', () => {
+    assert.equal(redactPii('Card 4111 1111 1111 1111'), 'Card [REDACTED_CARD]');
+    assert.equal(redactPii('Card 4111-1111-1111-1111'), 'Card [REDACTED_CARD]');
+    assert.equal(redactPii('Card 5500000000000004'), 'Card [REDACTED_CARD]');
+    assert.equal(redactPii('Card 4111 1111 1111 1112'), 'Card 4111 1111 1111 1112');
+  });
+
+  it('redacts IBANs that pass the mod-97 check only', () => {
+    assert.equal(redactPii('Pay GB82 WEST 1234 5698 7654 32'), 'Pay [REDACTED_IBAN]');
+    assert.equal(redactPii('Pay DE89370400440532013000'), 'Pay [REDACTED_IBAN]');
+    assert.equal(redactPii('Pay GB82 WEST 1234 5698 7654 33'), 'Pay GB82 WEST 1234 5698 7654 33');
+  });
+
+  it('redacts US social security numbers outside the unassigned ranges', () => {
+    assert.equal(redactPii('SSN 123-45-6789'), 'SSN [REDACTED_NATIONAL_ID]');
+    for (const ssn of ['000-12-3456', '666-12-3456', '900-12-3456', '123-00-4567', '123-45-0000']) {
+      assert.equal(redactPii(`SSN ${ssn}`), `SSN ${ssn}`);
+    }
+  });
+
+  it('redacts UK national insurance numbers with valid prefixes only', () => {
+    assert.equal(redactPii('NI AB 12 34 56 C'), 'NI [REDACTED_NATIONAL_ID]');
+    assert.equal(redactPii('NI AB123456C'), 'NI [REDACTED_NATIONAL_ID]');
+    assert.equal(redactPii('NI DA123456C'), 'NI DA123456C');
+    assert.equal(redactPii('NI AO123456C'), 'NI AO123456C');
+  });
+
+  it('redacts international and North American phone numbers', () => {
+    assert.equal(redactPii('Call +44 20 7946 0958'), 'Call [REDACTED_PHONE]');
+    assert.equal(redactPii('Call (555) 123-4567'), 'Call [REDACTED_PHONE]');
+    assert.equal(redactPii('Call 555.123.4567'), 'Call [REDACTED_PHONE]');
+  });
+
+  it('leaves dates, amounts, arithmetic and short numbers alone', () => {
+    for (const text of ['Due 2024-01-15', 'Total 12345678 EUR', 'What is 1234 * 5678?', 'Order 42', 'Version 1.2.3']) {
+      assert.equal(redactPii(text), text);
+    }
+  });
+});
+
+describe('detectPii', () => {
+  it('names each matching detector once', () => {
+    assert.deepEqual(
+      detectPii('a@example.com, b@example.com, 4111 1111 1111 1111'),
+      ['email', 'card'],
+    );
+    assert.deepEqual(detectPii('Nothing to see'), []);
+  });
+});
+
+describe('redactFields', () => {
+  it('redacts nested strings but not fields named …Id or …Ids', () => {
+    assert.deepEqual(
+      redactFields({
+        messageId: '4111111111111111',
+        relatedIds: ['4111111111111111'],
+        content: 'From a@example.com',
+        nested: { notes: ['Card 4111 1111 1111 1111'], count: 3 },
+      }),
+      {
+        messageId: '4111111111111111',
+        relatedIds: ['4111111111111111'],
+        content: 'From [REDACTED_EMAIL]',
+        nested: { notes: ['Card [REDACTED_CARD]'], count: 3 },
+      },
+    );
+  });
+});
+
+describe('registerPiiDetector', () => {
+  it('rejects patterns without the global flag', () => {
+    assert.throws(() => registerPiiDetector({ name: 'order', pattern: /ORD-\d+/ }), /needs a global pattern/);
+  });
+});
+
+describe('tokenisation', () => {
+  before(() => {
+    process.env.PII_TOKEN_KEY = 'test-key';
+  });
+
+  it('replaces values with stable, tenant-scoped tokens', () => {
+    const token = tokenizePii('a@example.com', 't1');
+    assert.match(token, /^\[EMAIL_[0-9a-f]{12}\]$/);
+    assert.equal(tokenizePii('a@example.com', 't1'), token);
+    assert.notEqual(tokenizePii('b@example.com', 't1'), token);
+    assert.notEqual(tokenizePii('a@example.com', 't2'), token);
+  });
+
+  it('round-trips through piiTokenMap and detokenizePii', () => {
+    const original = 'Send the receipt for 4111 1111 1111 1111 to a@example.com';
+    const tokenized = tokenizePii(original, 't1');
+    assert.ok(containsPiiTokens(tokenized));
+    assert.ok(!containsPiiTokens(original));
+
+    const tokens = piiTokenMap([original], 't1');
+    assert.equal(tokens.size, 2);
+    assert.deepEqual(
+      detokenizePii({ text: tokenized, steps: [tokenized] }, tokens),
+      { text: original, steps: [original] },
+    );
+  });
+
+  it('keeps tokens that are not in the map', () => {
+    const foreign = tokenizePii('a@example.com', 't2');
+    assert.equal(detokenizePii(`To ${foreign}`, piiTokenMap(['a@example.com'], 't1')), `To ${foreign}`);
+  });
+
+  it('requires PII_TOKEN_KEY', () => {
+    delete process.env.PII_TOKEN_KEY;
+    try {
+      assert.throws(() => tokenizePii('a@example.com', 't1'), /PII_TOKEN_KEY must be set/);
+    } finally {
+      process.env.PII_TOKEN_KEY = 'test-key';
+    }
+  });
+});
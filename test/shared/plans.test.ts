@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  PlanReferenceError,
+  advancePlan,
+  parametersWithReferences,
+  referencedSteps,
+  resolveReferences,
+  startPlan,
+} from '../../src/shared/plans';
+import type { ReasoningIntent } from '../../src/shared/types';
+
+const outputs = {
+  find: { action: 'search', result: { results: [{ title: 'Pricing', snippet: 'Plans start at 10 EUR' }], total: 1 } },
+  sum: { action: 'calculate', result: { answer: 42, expression: '6 * 7' } },
+};
+
+describe('referencedSteps', () => {
+  it('collects the step ids of every reference, once', () => {
+    assert.deepEqual(referencedSteps({ a: { $ref: 'find.results.0' }, b: [{ $ref: 'sum' }, { x: { $ref: 'find' } }] }), ['find', 'sum']);
+    assert.deepEqual(referencedSteps({ text: 'plain', n: 1 }), []);
+  });
+
+  it('only treats objects with a single string $ref as references', () => {
+    assert.deepEqual(referencedSteps({ a: { $ref: 'find', extra: 1 }, b: { $ref: 3 } }), []);
+  });
+
+  it('reports the top-level parameters holding references', () => {
+    assert.deepEqual(parametersWithReferences({ text: { $ref: 'find' }, lang: 'de', list: [{ $ref: 'sum' }] }), ['text', 'list']);
+  });
+});
+
+describe('resolveReferences', () => {
+  it('takes the main output of a step without a path', () => {
+    assert.deepEqual(
+      resolveReferences({ text: { $ref: 'find' }, expression: { $ref: 'sum' } }, outputs),
+      { text: 'Plans start at 10 EUR', expression: 42 },
+    );
+  });
+
+  it('follows a path into the result and keeps the value\'s type', () => {
+    assert.deepEqual(
+      resolveReferences({ title: { $ref: 'find.results.0.title' }, hits: { $ref: 'find.results' }, total: { $ref: 'find.total' } }, outputs),
+      { title: 'Pricing', hits: outputs.find.result.results, total: 1 },
+    );
+  });
+
+  it('resolves nested references and leaves other values alone', () => {
+    assert.deepEqual(
+      resolveReferences({ parts: [{ $ref: 'sum' }, 'literal'], lang: 'de' }, outputs),
+      { parts: [42, 'literal'], lang: 'de' },
+    );
+  });
+
+  it('fails for steps without output and paths that do not resolve', () => {
+    assert.throws(() => resolveReferences({ text: { $ref: 'later' } }, outputs), PlanReferenceError);
+    assert.throws(
+      () => resolveReferences({ text: { $ref: 'find.results.3.title' } }, outputs),
+      /Reference "find.results.3.title" did not resolve to a value/,
+    );
+  });
+});
+
+describe('plan progress', () => {
+  const intent = {
+    intentId: 'i1',
+    steps: [
+      { stepId: 'a', action: 'search', parameters: {}, dependsOn: [] },
+      { stepId: 'b', action: 'summarize', parameters: {}, dependsOn: ['a'] },
+      { stepId: 'c', action: 'translate', parameters: {}, dependsOn: ['b'] },
+    ],
+  } as unknown as ReasoningIntent;
+
+  it('runs the steps in order and completes after the last', () => {
+    let progress = startPlan(intent);
+    assert.deepEqual(progress.steps.map((s) => s.status), ['running', 'pending', 'pending']);
+
+    progress = advancePlan(progress, 'a', 'x1', true);
+    progress = advancePlan(progress, 'b', 'x2', true);
+    assert.equal(progress.currentStepId, 'c');
+    assert.equal(progress.completedSteps, 2);
+
+    progress = advancePlan(progress, 'c', 'x3', true);
+    assert.equal(progress.status, 'completed');
+    assert.equal(progress.currentStepId, null);
+    assert.deepEqual(progress.steps.map((s) => s.actionId), ['x1', 'x2', 'x3']);
+  });
+
+  it('skips the remaining steps once one fails', () => {
+    const progress = advancePlan(startPlan(intent), 'a', 'x1', false);
+    assert.equal(progress.status, 'failed');
+    assert.deepEqual(progress.steps.map((s) => s.status), ['failed', 'skipped', 'skipped']);
+    assert.throws(() => advancePlan(progress, 'zzz', 'x2', true), /not part of plan i1/);
+  });
+});
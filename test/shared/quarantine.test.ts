@@ -0,0 +1,84 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { EventContractError } from '../../src/shared/event-schemas';
+import { MessagePublishedData } from '../../src/shared/pubsub';
+import { decodeOrQuarantine, listQuarantinedEvents } from '../../src/shared/quarantine';
+
+function message(data: string | unknown, attributes: Record<string, string> = {}): MessagePublishedData {
+  const encoded = typeof data === 'string' ? data : JSON.stringify(data);
+  return { message: { data: Buffer.from(encoded).toString('base64'), attributes, messageId: uuidv4() } };
+}
+
+function reasoningRequested(fields: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    eventId: uuidv4(),
+    eventType: 'reasoning_requested',
+    schemaVersion: 2,
+    tenantId: 't1',
+    conversationId: 'c1',
+    messageId: 'm1',
+    timestamp: new Date().toISOString(),
+    producer: 'api',
+    payload: { content: 'hello' },
+    ...fields,
+  };
+}
+
+before(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+});
+
+describe('decodeOrQuarantine', () => {
+  it('decodes valid events, upcasting older versions', async () => {
+    const event = await decodeOrQuarantine('reasoner', message(reasoningRequested({ schemaVersion: undefined, payload: {} })), 'reasoning_requested');
+    assert.equal(event?.schemaVersion, 2);
+    assert.equal(event?.payload.content, '');
+  });
+
+  it('quarantines invalid events with their attributes and raw data and returns null', async () => {
+    const handler = `h-${uuidv4()}`;
+    const data = message(reasoningRequested({ payload: { content: 42 } }), { eventId: 'e1', eventType: 'reasoning_requested', conversationId: 'c1' });
+
+    assert.equal(await decodeOrQuarantine(handler, data, 'reasoning_requested'), null);
+
+    const [quarantined] = await listQuarantinedEvents(10, handler);
+    assert.equal(quarantined.quarantineId, `${handler}_${data.message!.messageId}`);
+    assert.equal(quarantined.eventId, 'e1');
+    assert.equal(quarantined.conversationId, 'c1');
+    assert.match(quarantined.reason, /Invalid reasoning_requested event/);
+    assert.deepEqual(quarantined.issues.map((i) => i.split(':')[0]), ['payload.content']);
+    assert.equal(quarantined.data, data.message!.data);
+  });
+
+  it('quarantines data that is not JSON, missing data and event types the topic does not carry', async () => {
+    const handler = `h-${uuidv4()}`;
+    assert.equal(await decodeOrQuarantine(handler, message('not json'), 'reasoning_requested'), null);
+    assert.equal(await decodeOrQuarantine(handler, { message: { messageId: uuidv4() } }, 'reasoning_requested'), null);
+    const response = reasoningRequested({ eventType: 'response_requested', payload: { intentId: 'i1' } });
+    assert.equal(await decodeOrQuarantine(handler, message(response), 'reasoning_requested'), null);
+
+    const reasons = (await listQuarantinedEvents(10, handler)).map((q) => q.reason).sort();
+    assert.equal(reasons.length, 3);
+    assert.match(reasons[0], /^Message data is not JSON/);
+    assert.match(reasons[1], /^Missing Pub\/Sub message data/);
+    assert.match(reasons[2], /^Unexpected event type response_requested/);
+  });
+
+  it('overwrites the record when the same message is redelivered', async () => {
+    const handler = `h-${uuidv4()}`;
+    const data = message('not json');
+    await decodeOrQuarantine(handler, data, 'reasoning_requested');
+    await decodeOrQuarantine(handler, data, 'reasoning_requested');
+    assert.equal((await listQuarantinedEvents(10, handler)).length, 1);
+  });
+
+  it('throws events of a newer schema version so they are nacked, not quarantined', async () => {
+    const handler = `h-${uuidv4()}`;
+    await assert.rejects(
+      decodeOrQuarantine(handler, message(reasoningRequested({ schemaVersion: 3 })), 'reasoning_requested'),
+      (err: unknown) => err instanceof EventContractError && err.retryable,
+    );
+    assert.deepEqual(await listQuarantinedEvents(10, handler), []);
+  });
+});
@@ -0,0 +1,112 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { consumeDailyQuota, refundDailyQuota, takeToken } from '../../src/shared/rate-limits';
+import { getStore } from '../../src/shared/store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** Seconds from now until the next midnight UTC */
+function secondsToMidnight(): number {
+  const now = new Date();
+  return (Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime()) / 1000;
+}
+
+before(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+});
+
+describe('takeToken', () => {
+  it('starts full and refuses once the burst is used up', async () => {
+    const policy = { capacity: 3, refillPerSecond: 1 };
+    const decisions = [];
+    for (let i = 0; i < 4; i++) decisions.push(await takeToken('fresh', policy));
+
+    assert.deepEqual(decisions.map((d) => d.allowed), [true, true, true, false]);
+    assert.deepEqual(decisions.map((d) => d.remaining), [2, 1, 0, 0]);
+    assert.deepEqual(decisions.map((d) => d.limit), [3, 3, 3, 3]);
+    assert.deepEqual(decisions.map((d) => d.resetSeconds), [1, 2, 3, 3]);
+    assert.deepEqual(decisions.map((d) => d.retryAfterSeconds), [0, 0, 0, 1]);
+  });
+
+  it('refills with the time elapsed since the last request', async () => {
+    await getStore().set('rateLimits/refill', { tokens: 0, updatedAt: new Date(Date.now() - 2_500).toISOString() });
+
+    const decision = await takeToken('refill', { capacity: 10, refillPerSecond: 2 });
+    assert.equal(decision.allowed, true);
+    assert.equal(decision.remaining, 4);                 // 0 + 2.5s × 2 − 1
+    assert.equal(decision.resetSeconds, 3);              // 6 tokens missing at 2 per second
+  });
+
+  it('never refills beyond the capacity', async () => {
+    await getStore().set('rateLimits/idle', { tokens: 0, updatedAt: new Date(Date.now() - 3_600_000).toISOString() });
+
+    const decision = await takeToken('idle', { capacity: 5, refillPerSecond: 1 });
+    assert.equal(decision.remaining, 4);
+    assert.equal(decision.resetSeconds, 1);
+  });
+
+  it('reports how long until a whole token is available', async () => {
+    await getStore().set('rateLimits/slow', { tokens: 0.5, updatedAt: new Date().toISOString() });
+
+    const decision = await takeToken('slow', { capacity: 5, refillPerSecond: 0.1 });
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.retryAfterSeconds, 5);         // 0.5 tokens missing at 0.1 per second
+    assert.equal(decision.resetSeconds, 45);
+  });
+
+  it('keeps buckets apart and encodes their ids', async () => {
+    const policy = { capacity: 1, refillPerSecond: 0.001 };
+    assert.equal((await takeToken('ip:10.0.0.1/a', policy)).allowed, true);
+    assert.equal((await takeToken('ip:10.0.0.1/a', policy)).allowed, false);
+    assert.equal((await takeToken('ip:10.0.0.2/a', policy)).allowed, true);
+  });
+});
+
+describe('consumeDailyQuota', () => {
+  it('counts uses up to the limit and does not count refusals', async () => {
+    const decisions = [];
+    for (let i = 0; i < 3; i++) decisions.push(await consumeDailyQuota('q:limit', 2));
+
+    assert.deepEqual(decisions.map((d) => d.allowed), [true, true, false]);
+    assert.deepEqual(decisions.map((d) => d.remaining), [1, 0, 0]);
+    const state = await getStore().get<{ count: number }>(`quotas/q%3Alimit_${isoDay(Date.now())}`);
+    assert.equal(state?.count, 2);
+  });
+
+  it('resets at midnight UTC', async () => {
+    const decision = await consumeDailyQuota('q:reset', 1);
+    const refused = await consumeDailyQuota('q:reset', 1);
+
+    assert.ok(Math.abs(decision.resetSeconds - Math.ceil(secondsToMidnight())) <= 1);
+    assert.equal(refused.retryAfterSeconds, refused.resetSeconds);
+    assert.equal(decision.retryAfterSeconds, 0);
+  });
+
+  it('starts a new count each day', async () => {
+    await getStore().set(`quotas/q%3Aday_${isoDay(Date.now() - DAY_MS)}`, { count: 5, limit: 5, day: isoDay(Date.now() - DAY_MS) });
+
+    const decision = await consumeDailyQuota('q:day', 5);
+    assert.equal(decision.allowed, true);
+    assert.equal(decision.remaining, 4);
+  });
+});
+
+describe('refundDailyQuota', () => {
+  it('gives back one use of today\'s quota', async () => {
+    await consumeDailyQuota('q:refund', 1);
+    assert.equal((await consumeDailyQuota('q:refund', 1)).allowed, false);
+
+    await refundDailyQuota('q:refund');
+    assert.equal((await consumeDailyQuota('q:refund', 1)).allowed, true);
+  });
+
+  it('does nothing for an unused quota', async () => {
+    await refundDailyQuota('q:unused');
+    assert.equal(await getStore().get(`quotas/q%3Aunused_${isoDay(Date.now())}`), null);
+    assert.equal((await consumeDailyQuota('q:unused', 1)).remaining, 0);
+  });
+});
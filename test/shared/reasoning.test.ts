@@ -0,0 +1,101 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { startLlmStubServer } from '../../src/dev/llm-stub-server';
+import { OpenAIReasoningProvider, ReasoningErrorKind, ReasoningProviderError } from '../../src/shared/reasoning';
+
+const TIMEOUT_MS = 300;
+
+function baseUrl(server: Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+}
+
+function closeServer(server: Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+async function assertProviderError(
+  promise: Promise<unknown>,
+  kind: ReasoningErrorKind,
+  retryable: boolean,
+): Promise<void> {
+  await assert.rejects(promise, (err: unknown) => {
+    assert.ok(err instanceof ReasoningProviderError);
+    assert.equal(err.kind, kind);
+    assert.equal(err.retryable, retryable);
+    return true;
+  });
+}
+
+describe('OpenAIReasoningProvider against the LLM stub', () => {
+  let stub: Server;
+  let provider: OpenAIReasoningProvider;
+
+  function reason(content: string): Promise<Record<string, unknown>> {
+    return provider.reason({ content, conversationId: 'c1', messageId: 'm1' });
+  }
+
+  before(async () => {
+    stub = await startLlmStubServer(0);
+    provider = new OpenAIReasoningProvider({ baseUrl: baseUrl(stub), model: 'stub', timeoutMs: TIMEOUT_MS });
+  });
+
+  after(() => closeServer(stub));
+
+  it('returns the model intent with ids assigned by the provider', async () => {
+    const intent = await reason('search for refund policy');
+
+    assert.equal(intent.action, 'search');
+    assert.equal(intent.conversationId, 'c1');
+    assert.equal(intent.messageId, 'm1');
+    assert.match(intent.intentId as string, /^[0-9a-f-]{36}$/);
+  });
+
+  it('composes a plain-text reply', async () => {
+    const reply = await provider.compose({ content: 'search for refunds', results: [{ action: 'search', result: { hits: [] } }] });
+    assert.match(reply, /^Here is what the tools returned\./);
+  });
+
+  it('times out, retryably, when the provider does not answer', async () => {
+    const started = Date.now();
+    await assertProviderError(reason('search [stub:timeout]'), 'timeout', true);
+    assert.ok(Date.now() - started < TIMEOUT_MS * 5);
+  });
+
+  it('treats HTTP 500 as a retryable provider error', async () => {
+    await assertProviderError(reason('search [stub:error]'), 'provider_error', true);
+  });
+
+  it('treats HTTP 400 as a permanent provider error', async () => {
+    await assertProviderError(reason('search [stub:bad-request]'), 'provider_error', false);
+  });
+
+  it('rejects model output that is not JSON as malformed', async () => {
+    await assertProviderError(reason('search [stub:malformed]'), 'malformed_output', false);
+  });
+});
+
+describe('OpenAIReasoningProvider against a provider that stalls mid-body', () => {
+  let server: Server;
+
+  before(async () => {
+    server = createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.write('{"choices": [');                       // never finished
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  after(() => closeServer(server));
+
+  it('times out while reading the body', async () => {
+    const provider = new OpenAIReasoningProvider({ baseUrl: baseUrl(server), model: 'stub', timeoutMs: TIMEOUT_MS });
+    await assertProviderError(
+      provider.reason({ content: 'search for refunds', conversationId: 'c1', messageId: 'm1' }),
+      'timeout',
+      true,
+    );
+  });
+});
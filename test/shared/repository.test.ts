@@ -0,0 +1,256 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  StaleTransitionError,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  createConversation,
+  deleteConversation,
+  getConversation,
+  getTurn,
+  openTurn,
+  releaseIdempotencyKey,
+  transitionState,
+} from '../../src/shared/repository';
+import { getStore } from '../../src/shared/store';
+import type { Conversation, TransitionRecord } from '../../src/shared/types';
+
+async function newConversation(): Promise<string> {
+  const conversationId = uuidv4();
+  await createConversation(conversationId, 't1');
+  return conversationId;
+}
+
+async function transitions(conversationId: string): Promise<TransitionRecord[]> {
+  const docs = await getStore().query<TransitionRecord>(`conversations/${conversationId}/transitions`, {
+    orderBy: { field: 'sequence' },
+  });
+  return docs.map((d) => d.data);
+}
+
+async function conversation(conversationId: string): Promise<Conversation> {
+  return (await getConversation(conversationId))!;
+}
+
+/** Rewrite fields of the stored idempotency key, e.g. to age it */
+async function updateIdempotencyKey(tenantId: string, key: string, fields: Record<string, string>): Promise<void> {
+  const [doc] = await getStore().query('idempotencyKeys', {
+    where: [{ field: 'tenantId', op: '==', value: tenantId }, { field: 'key', op: '==', value: key }],
+  });
+  await getStore().update(`idempotencyKeys/${doc.id}`, fields);
+}
+
+before(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.EVENT_BUS = 'memory';
+});
+
+describe('openTurn', () => {
+  it('numbers turns and marks the conversation active', async () => {
+    const conversationId = await newConversation();
+    const first = await openTurn(conversationId, 'm1');
+    const second = await openTurn(conversationId, 'm2');
+
+    assert.equal(first.turnNumber, 1);
+    assert.equal(second.turnNumber, 2);
+    const conv = await conversation(conversationId);
+    assert.equal(conv.status, 'ACTIVE');
+    assert.equal(conv.turnCount, 2);
+    assert.equal(conv.openTurns, 2);
+    assert.equal(conv.lastMessageId, 'm2');
+    assert.deepEqual((await transitions(conversationId)).map((r) => [r.sequence, r.messageId, r.from, r.to]), [
+      [1, 'm1', null, 'RECEIVED'],
+      [2, 'm2', null, 'RECEIVED'],
+    ]);
+  });
+
+  it('gives concurrent messages distinct turn numbers', async () => {
+    const conversationId = await newConversation();
+    const turns = await Promise.all(['a', 'b', 'c', 'd'].map((id) => openTurn(conversationId, id)));
+
+    assert.deepEqual(turns.map((t) => t.turnNumber).sort(), [1, 2, 3, 4]);
+    assert.equal((await conversation(conversationId)).openTurns, 4);
+  });
+
+  it('refuses missing and deleted conversations', async () => {
+    await assert.rejects(openTurn('missing', 'm1'), /not found/);
+
+    const conversationId = await newConversation();
+    assert.equal(await deleteConversation(conversationId), true);
+    await assert.rejects(openTurn(conversationId, 'm1'), /not found/);
+  });
+});
+
+describe('transitionState', () => {
+  it('follows the state machine and records every transition', async () => {
+    const conversationId = await newConversation();
+    await openTurn(conversationId, 'm1');
+    await transitionState(conversationId, 'm1', 'REASONING_REQUESTED', { producer: 'api' });
+    await transitionState(conversationId, 'm1', ['INTENT_VALIDATED', 'ACTION_REQUESTED'], { producer: 'reasoner' });
+
+    assert.equal((await getTurn(conversationId, 'm1'))?.state, 'ACTION_REQUESTED');
+    // A path of states is stored as one transition
+    assert.deepEqual((await transitions(conversationId)).map((r) => [r.from, r.to, r.producer]), [
+      [null, 'RECEIVED', 'api'],
+      ['RECEIVED', 'REASONING_REQUESTED', 'api'],
+      ['REASONING_REQUESTED', 'ACTION_REQUESTED', 'reasoner'],
+    ]);
+    assert.equal((await conversation(conversationId)).sequence, 3);
+  });
+
+  it('rejects invalid transitions, including any step of a path, without writing', async () => {
+    const conversationId = await newConversation();
+    await openTurn(conversationId, 'm1');
+
+    await assert.rejects(
+      transitionState(conversationId, 'm1', 'ACTION_COMPLETED', { producer: 'executor' }),
+      /Invalid state transition: RECEIVED → ACTION_COMPLETED/,
+    );
+    await assert.rejects(
+      transitionState(conversationId, 'm1', ['REASONING_REQUESTED', 'ACTION_REQUESTED'], { producer: 'reasoner' }),
+      /REASONING_REQUESTED → ACTION_REQUESTED/,
+    );
+    assert.equal((await getTurn(conversationId, 'm1'))?.state, 'RECEIVED');
+    assert.equal((await transitions(conversationId)).length, 1);
+  });
+
+  it('throws StaleTransitionError when the turn moved on since it was read', async () => {
+    const conversationId = await newConversation();
+    await openTurn(conversationId, 'm1');
+    await transitionState(conversationId, 'm1', 'REASONING_REQUESTED', { producer: 'api' });
+
+    await assert.rejects(
+      transitionState(conversationId, 'm1', 'TIMED_OUT', { producer: 'watchdog', expectedState: 'RECEIVED' }),
+      (err: unknown) => {
+        assert.ok(err instanceof StaleTransitionError);
+        assert.equal(err.actual, 'REASONING_REQUESTED');
+        assert.equal(err.expected, 'RECEIVED');
+        return true;
+      },
+    );
+    assert.equal((await getTurn(conversationId, 'm1'))?.state, 'REASONING_REQUESTED');
+
+    await transitionState(conversationId, 'm1', 'TIMED_OUT', { producer: 'watchdog', expectedState: 'REASONING_REQUESTED' });
+    assert.equal((await getTurn(conversationId, 'm1'))?.state, 'TIMED_OUT');
+  });
+
+  it('lets only one of two racing transitions with the same expected state win', async () => {
+    const conversationId = await newConversation();
+    await openTurn(conversationId, 'm1');
+
+    const results = await Promise.allSettled([
+      transitionState(conversationId, 'm1', 'REASONING_REQUESTED', { producer: 'api', expectedState: 'RECEIVED' }),
+      transitionState(conversationId, 'm1', 'TIMED_OUT', { producer: 'watchdog', expectedState: 'RECEIVED' }),
+    ]);
+
+    assert.deepEqual(results.map((r) => r.status).sort(), ['fulfilled', 'rejected']);
+    const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    assert.ok(rejected?.reason instanceof StaleTransitionError);
+    assert.equal((await transitions(conversationId)).length, 2);
+  });
+
+  it('mirrors the latest turn and goes IDLE once every turn has ended', async () => {
+    const conversationId = await newConversation();
+    await openTurn(conversationId, 'm1');
+    await openTurn(conversationId, 'm2');
+    await transitionState(conversationId, 'm2', 'REASONING_REQUESTED', { producer: 'api' });
+
+    // The earlier turn ending neither changes the mirrored state nor idles the conversation
+    await transitionState(conversationId, 'm1', 'TIMED_OUT', { producer: 'watchdog' });
+    let conv = await conversation(conversationId);
+    assert.equal(conv.state, 'REASONING_REQUESTED');
+    assert.equal(conv.status, 'ACTIVE');
+    assert.equal(conv.openTurns, 1);
+
+    await transitionState(conversationId, 'm2', 'FAILED_VALIDATION', { producer: 'reasoner' });
+    conv = await conversation(conversationId);
+    assert.equal(conv.state, 'FAILED_VALIDATION');
+    assert.equal(conv.status, 'IDLE');
+    assert.equal(conv.openTurns, 0);
+
+    // A follow-up message opens the next turn
+    const next = await openTurn(conversationId, 'm3');
+    assert.equal(next.turnNumber, 3);
+    assert.equal((await conversation(conversationId)).status, 'ACTIVE');
+  });
+
+  it('refuses transitions out of a terminal state', async () => {
+    const conversationId = await newConversation();
+    await openTurn(conversationId, 'm1');
+    await transitionState(conversationId, 'm1', 'TIMED_OUT', { producer: 'watchdog' });
+
+    await assert.rejects(
+      transitionState(conversationId, 'm1', 'REASONING_REQUESTED', { producer: 'api' }),
+      /Allowed from TIMED_OUT: \[\]/,
+    );
+    assert.equal((await conversation(conversationId)).openTurns, 0);
+  });
+});
+
+describe('claimIdempotencyKey', () => {
+  const response = { status: 201, body: { conversationId: 'c1', messageId: 'm1' } };
+
+  it('replays the stored response to retries with the same body', async () => {
+    assert.deepEqual(await claimIdempotencyKey('t1', 'replay', 'fp', 'm1'), { outcome: 'claimed' });
+    await completeIdempotencyKey('t1', 'replay', response);
+
+    assert.deepEqual(await claimIdempotencyKey('t1', 'replay', 'fp', 'm2'), { outcome: 'completed', response });
+  });
+
+  it('reports a key reused with another body as a mismatch, whatever its status', async () => {
+    await claimIdempotencyKey('t1', 'mismatch', 'fp', 'm1');
+    assert.deepEqual(await claimIdempotencyKey('t1', 'mismatch', 'other', 'm2'), { outcome: 'mismatch' });
+
+    await completeIdempotencyKey('t1', 'mismatch', response);
+    assert.deepEqual(await claimIdempotencyKey('t1', 'mismatch', 'other', 'm2'), { outcome: 'mismatch' });
+  });
+
+  it('reports a request still being processed as in flight until it is abandoned', async () => {
+    await claimIdempotencyKey('t1', 'in-flight', 'fp', 'm1');
+    assert.deepEqual(await claimIdempotencyKey('t1', 'in-flight', 'fp', 'm2'), { outcome: 'in_flight' });
+
+    // The original request died without completing or releasing the key
+    await updateIdempotencyKey('t1', 'in-flight', { createdAt: new Date(Date.now() - 61_000).toISOString() });
+    assert.deepEqual(await claimIdempotencyKey('t1', 'in-flight', 'fp', 'm2'), { outcome: 'claimed' });
+  });
+
+  it('lets only one of concurrent requests claim a key', async () => {
+    const claims = await Promise.all([1, 2, 3].map((n) => claimIdempotencyKey('t1', 'race', 'fp', `m${n}`)));
+    assert.deepEqual(claims.map((c) => c.outcome).sort(), ['claimed', 'in_flight', 'in_flight']);
+  });
+
+  it('forgets keys once they expire', async () => {
+    await claimIdempotencyKey('t1', 'expired', 'fp', 'm1');
+    await completeIdempotencyKey('t1', 'expired', response);
+    await updateIdempotencyKey('t1', 'expired', { expiresAt: new Date(Date.now() - 1_000).toISOString() });
+
+    // Even another body may use it again
+    assert.deepEqual(await claimIdempotencyKey('t1', 'expired', 'other', 'm2'), { outcome: 'claimed' });
+  });
+
+  it('keeps keys to 24 hours by default', async () => {
+    const before = Date.now();
+    await claimIdempotencyKey('t1', 'ttl', 'fp', 'm1');
+
+    const [doc] = await getStore().query<{ expiresAt: string }>('idempotencyKeys', {
+      where: [{ field: 'key', op: '==', value: 'ttl' }],
+    });
+    const ttl = Date.parse(doc.data.expiresAt) - before;
+    assert.ok(ttl >= 24 * 3_600_000 && ttl < 24 * 3_600_000 + 1_000, `ttl ${ttl}`);
+  });
+
+  it('scopes keys to the tenant', async () => {
+    await claimIdempotencyKey('t1', 'shared', 'fp', 'm1');
+    await completeIdempotencyKey('t1', 'shared', response);
+
+    assert.deepEqual(await claimIdempotencyKey('t2', 'shared', 'other', 'm2'), { outcome: 'claimed' });
+  });
+
+  it('can be claimed again after a release', async () => {
+    await claimIdempotencyKey('t1', 'released', 'fp', 'm1');
+    await releaseIdempotencyKey('t1', 'released');
+
+    assert.deepEqual(await claimIdempotencyKey('t1', 'released', 'fp', 'm2'), { outcome: 'claimed' });
+  });
+});
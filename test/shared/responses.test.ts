@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import type { ActionResult, ReasoningIntent } from '../../src/shared/types';
+
+type Responses = typeof import('../../src/shared/responses');
+
+const EMAIL = 'jane.doe@example.com';
+const CARD = '4111 1111 1111 1111';
+
+const intent: ReasoningIntent = {
+  intentId: 'i1',
+  conversationId: 'c1',
+  messageId: 'm1',
+  action: 'search',
+  parameters: { query: 'orders' },
+  confidence: 0.9,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  valid: true,
+};
+
+const results: ActionResult[] = [{
+  actionId: 'a1',
+  conversationId: 'c1',
+  intentId: 'i1',
+  messageId: 'm1',
+  result: { hits: [{ snippet: `Card on file: ${CARD}` }] },
+  executedAt: '2024-01-01T00:00:01.000Z',
+  success: true,
+  attempt: 1,
+}];
+
+describe('composeReply with RESPONSE_COMPOSER=provider and PII_TOKENIZE=true', () => {
+  /** Request bodies received by the fake provider */
+  const requests: string[] = [];
+  let server: Server;
+  let composeReply: Responses['composeReply'];
+
+  before(async () => {
+    // The fake provider quotes the user message and the tool results back
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks).toString('utf-8');
+        requests.push(body);
+        const [message, toolResults] = (JSON.parse(body).messages as Array<{ role: string; content: string }>)
+          .filter((m) => m.role === 'user');
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          choices: [{ message: { content: `You wrote: ${message.content} ${toolResults.content}` } }],
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    // Read when the modules load
+    process.env.RESPONSE_COMPOSER = 'provider';
+    process.env.PII_TOKENIZE = 'true';
+    process.env.PII_TOKEN_KEY = 'test-key';
+    process.env.REASONING_PROVIDER = 'openai';
+    process.env.LLM_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    ({ composeReply } = await import('../../src/shared/responses'));
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('sends only tokens to the provider', async () => {
+    await composeReply(`Where is my order? Mail me at ${EMAIL}`, 't1', intent, results);
+
+    const sent = requests[requests.length - 1];
+    assert.ok(!sent.includes(EMAIL));
+    assert.ok(!sent.includes(CARD));
+    assert.match(sent, /\[EMAIL_[0-9a-f]{12}\]/);
+    assert.match(sent, /\[CARD_[0-9a-f]{12}\]/);
+  });
+
+  it('resolves the tokens in the reply', async () => {
+    const reply = await composeReply(`Where is my order? Mail me at ${EMAIL}`, 't1', intent, results);
+
+    assert.equal(reply.composedBy, 'provider');
+    assert.ok(reply.content.includes(`Mail me at ${EMAIL}`));
+    assert.ok(reply.content.includes(`Card on file: ${CARD}`));
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { validateIntent } from '../../src/shared/schema';
+import { PLAN_MAX_STEPS } from '../../src/shared/plans';
+
+function plan(steps: Array<Record<string, unknown>>): Record<string, unknown> {
+  return { intentId: uuidv4(), conversationId: 'c1', messageId: 'm1', confidence: 0.9, steps };
+}
+
+function errorOf(raw: unknown): string {
+  const result = validateIntent(raw);
+  assert.equal(result.valid, false);
+  return result.error!;
+}
+
+describe('validateIntent', () => {
+  it('checks single-action parameters against the tool and applies its defaults', () => {
+    const result = validateIntent({
+      intentId: uuidv4(), conversationId: 'c1', messageId: 'm1', action: 'search', parameters: { query: 'refunds' }, confidence: 0.9,
+    });
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.data?.parameters, { query: 'refunds', limit: 5 });
+
+    assert.match(errorOf({
+      intentId: uuidv4(), conversationId: 'c1', messageId: 'm1', action: 'search', parameters: { limit: 99 }, confidence: 0.9,
+    }), /parameters\.query: Required; parameters\.limit: /);
+    assert.match(errorOf({
+      intentId: uuidv4(), conversationId: 'c1', messageId: 'm1', action: 'delete_everything', parameters: {}, confidence: 0.9,
+    }), /action: Unknown action "delete_everything"/);
+  });
+});
+
+describe('validateIntent for plans', () => {
+  it('accepts references to earlier steps and adds them to dependsOn', () => {
+    const result = validateIntent(plan([
+      { stepId: 'find', action: 'search', parameters: { query: 'pricing' } },
+      { stepId: 'short', action: 'summarize', parameters: { text: { $ref: 'find.results.0.snippet' } } },
+      { stepId: 'de', action: 'translate', parameters: { text: { $ref: 'short' }, targetLang: 'de' }, dependsOn: ['find'] },
+    ]));
+
+    assert.equal(result.valid, true, result.error);
+    const steps = result.data!.steps!;
+    assert.deepEqual(steps.map((s) => s.dependsOn), [[], ['find'], ['find', 'short']]);
+    // References are kept for the executor to resolve; the rest is parsed with defaults
+    assert.deepEqual(steps[0].parameters, { query: 'pricing', limit: 5 });
+    assert.deepEqual(steps[1].parameters, { text: { $ref: 'find.results.0.snippet' } });
+    // The envelope repeats the first step
+    assert.equal(result.data!.action, 'search');
+    assert.deepEqual(result.data!.parameters, steps[0].parameters);
+  });
+
+  it('still validates the parameters that are not references', () => {
+    assert.equal(
+      errorOf(plan([
+        { stepId: 'find', action: 'search', parameters: { query: 'pricing' } },
+        { stepId: 'de', action: 'translate', parameters: { text: { $ref: 'find' }, targetLang: 'German' } },
+      ])),
+      'steps.1.parameters.targetLang: Expected an ISO 639-1 language code',
+    );
+  });
+
+  it('refuses references and dependencies on later or unknown steps, so plans have no cycles', () => {
+    assert.equal(
+      errorOf(plan([
+        { stepId: 'a', action: 'summarize', parameters: { text: { $ref: 'b' } } },
+        { stepId: 'b', action: 'summarize', parameters: { text: { $ref: 'a' } } },
+      ])),
+      'steps.0.dependsOn: "b" is not an earlier step',
+    );
+    assert.equal(
+      errorOf(plan([
+        { stepId: 'a', action: 'search', parameters: { query: 'x' }, dependsOn: ['a'] },
+      ])),
+      'steps.0.dependsOn: "a" is not an earlier step',
+    );
+    assert.equal(
+      errorOf(plan([
+        { stepId: 'a', action: 'search', parameters: { query: 'x' } },
+        { stepId: 'b', action: 'summarize', parameters: { text: { $ref: 'missing.summary' } } },
+      ])),
+      'steps.1.dependsOn: "missing" is not an earlier step',
+    );
+  });
+
+  it('finds references nested in arrays and objects', () => {
+    assert.match(
+      errorOf(plan([
+        { stepId: 'a', action: 'search', parameters: { query: 'x' } },
+        { stepId: 'b', action: 'summarize', parameters: { text: { parts: [{ $ref: 'a' }, { $ref: 'z' }] } } },
+      ])),
+      /steps\.1\.dependsOn: "z" is not an earlier step/,
+    );
+  });
+
+  it('refuses duplicate step ids and reports every problem at once', () => {
+    assert.equal(
+      errorOf(plan([
+        { stepId: 'a', action: 'search', parameters: { query: 'x' } },
+        { stepId: 'a', action: 'search', parameters: {} },
+      ])),
+      'steps.1.stepId: Duplicate step id "a"; steps.1.parameters.query: Required',
+    );
+  });
+
+  it('checks the envelope: step ids, known actions and the number of steps', () => {
+    assert.match(errorOf(plan([{ stepId: 'not valid!', action: 'search', parameters: { query: 'x' } }])), /steps\.0\.stepId: Expected 1-32/);
+    assert.match(errorOf(plan([{ stepId: 'a', action: 'nope', parameters: {} }])), /steps\.0\.action: Unknown action "nope"/);
+    assert.match(errorOf(plan([])), /^steps: /);
+
+    const tooMany = Array.from({ length: PLAN_MAX_STEPS + 1 }, (_, i) => (
+      { stepId: `s${i}`, action: 'search', parameters: { query: 'x' } }
+    ));
+    assert.match(errorOf(plan(tooMany)), /^steps: /);
+  });
+});
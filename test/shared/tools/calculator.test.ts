@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalculationError, CalculationErrorCode, evaluate, extractExpression } from '../../../src/shared/tools/calculator';
+
+function valueOf(expression: string): number {
+  return evaluate(expression).value;
+}
+
+function assertFails(expression: string, code: CalculationErrorCode, position?: number): void {
+  assert.throws(() => evaluate(expression), (err: unknown) => {
+    assert.ok(err instanceof CalculationError);
+    assert.equal(err.code, code);
+    if (position !== undefined) assert.equal(err.position, position);
+    return true;
+  });
+}
+
+describe('evaluate', () => {
+  it('applies operator precedence', () => {
+    assert.equal(valueOf('2 + 3 * 4'), 14);
+    assert.equal(valueOf('(2 + 3) * 4'), 20);
+    assert.equal(valueOf('10 - 4 - 3'), 3);
+    assert.equal(valueOf('2 * 3 ^ 2'), 18);
+  });
+
+  it('evaluates powers right to left', () => {
+    assert.equal(valueOf('2 ^ 3 ^ 2'), 512);
+  });
+
+  it('binds unary minus looser than powers', () => {
+    assert.equal(valueOf('-2 ^ 2'), -4);
+    assert.equal(valueOf('(-2) ^ 2'), 4);
+    assert.equal(valueOf('2 * -3'), -6);
+    assert.equal(valueOf('--2'), 2);
+  });
+
+  it('treats % as a percentage, relative to the left operand of + and -', () => {
+    assert.equal(valueOf('15%'), 0.15);
+    assert.equal(valueOf('50% * 8'), 4);
+    assert.equal(valueOf('200 + 10%'), 220);
+    assert.equal(valueOf('200 - 10%'), 180);
+  });
+
+  it('multiplies implicit products', () => {
+    assert.equal(valueOf('2(3 + 4)'), 14);
+    assert.equal(valueOf('2pi'), valueOf('2 * pi'));
+  });
+
+  it('evaluates functions and constants', () => {
+    assert.equal(valueOf('sqrt(16)'), 4);
+    assert.equal(valueOf('log(8, 2)'), 3);
+    assert.equal(valueOf('max(1, 5, 3)'), 5);
+    assert.equal(valueOf('round(2.345, 2)'), 2.35);
+  });
+
+  it('hides binary float noise and rounds to the requested precision', () => {
+    assert.equal(valueOf('0.1 + 0.2'), 0.3);
+    assert.equal(evaluate('2 / 3', 2).value, 0.67);
+  });
+
+  it('rejects division by zero', () => {
+    assertFails('1 / 0', 'DIVISION_BY_ZERO');
+    assertFails('5 / (2 - 2)', 'DIVISION_BY_ZERO');
+  });
+
+  it('rejects identifiers that are not functions or constants', () => {
+    assertFails('foo + 1', 'UNKNOWN_IDENTIFIER', 0);
+    assertFails('alert(1)', 'UNKNOWN_IDENTIFIER', 0);
+    assertFails('toString', 'UNKNOWN_IDENTIFIER');
+  });
+
+  it('does not resolve names inherited from Object.prototype', () => {
+    assertFails('constructor(1)', 'UNKNOWN_IDENTIFIER', 0);
+    assertFails('__proto__ + 1', 'UNKNOWN_IDENTIFIER', 0);
+  });
+
+  it('reports parse, domain and size errors', () => {
+    assertFails('1 +', 'PARSE_ERROR', 3);
+    assertFails('sqrt(1, 2)', 'PARSE_ERROR');
+    assertFails('sqrt(-1)', 'DOMAIN_ERROR');
+    assertFails('1'.repeat(501), 'EXPRESSION_TOO_COMPLEX');
+  });
+});
+
+describe('extractExpression', () => {
+  it('turns operator words into operators', () => {
+    assert.equal(extractExpression('calculate 15% of 240'), '15 % * 240');
+    assert.equal(extractExpression('what is 2 to the power of 10?'), '2 ^ 10');
+    assert.equal(extractExpression('3 squared plus 1'), '3 ^ 2 + 1');
+    assert.equal(extractExpression('5 x 3'), '5 * 3');
+  });
+
+  it('drops thousands separators outside function calls', () => {
+    assert.equal(extractExpression('compute 1,000 divided by 8'), '1000 / 8');
+    assert.equal(extractExpression('max(1,000, 2)'), 'max ( 1 , 000 , 2 )');
+  });
+
+  it('drops unknown words but keeps unknown function calls', () => {
+    assert.equal(extractExpression('the sum of 2 and 3'), '2 3');
+    assert.equal(extractExpression('run foo(2)'), 'foo ( 2 )');
+  });
+
+  it('leaves a plain expression as it is', () => {
+    assert.equal(extractExpression('(2 + 3) * 4'), '( 2 + 3 ) * 4');
+  });
+});
@@ -0,0 +1,193 @@
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import type { CloudEvent } from '@google-cloud/functions-framework';
+import {
+  SpanRecord,
+  currentSpan,
+  currentTraceparent,
+  formatTraceparent,
+  parseTraceparent,
+  runInSpan,
+  setSpanExporter,
+  startSpan,
+  traceHandler,
+  withSpan,
+} from '../../src/shared/tracing';
+import { getEventBus } from '../../src/shared/event-bus';
+import { InMemoryEventBus } from '../../src/shared/memory-event-bus';
+import { MessagePublishedData } from '../../src/shared/pubsub';
+import { relayOutbox, stageOutboxEntry } from '../../src/shared/outbox';
+import { getStore } from '../../src/shared/store';
+import type { AgentEvent } from '../../src/shared/types';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+const exported: SpanRecord[] = [];
+
+function exportedSpan(name: string): SpanRecord {
+  const span = exported.find((s) => s.name === name);
+  assert.ok(span, `span ${name} was not exported`);
+  return span;
+}
+
+before(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.EVENT_BUS = 'memory';
+  setSpanExporter({ name: 'test', export: (span) => exported.push(span) });
+});
+
+beforeEach(() => {
+  exported.length = 0;
+});
+
+describe('parseTraceparent', () => {
+  it('parses version 00 headers, ignoring case and surrounding space', () => {
+    assert.deepEqual(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`), { traceId: TRACE_ID, spanId: SPAN_ID, sampled: true });
+    assert.deepEqual(parseTraceparent(` 00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-00 `), { traceId: TRACE_ID, spanId: SPAN_ID, sampled: false });
+    // Only the sampled bit of the flags counts
+    assert.equal(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-03`)?.sampled, true);
+  });
+
+  it('rejects malformed headers and all-zero ids', () => {
+    for (const header of [
+      undefined,
+      '',
+      `01-${TRACE_ID}-${SPAN_ID}-01`,
+      `00-${TRACE_ID}-${SPAN_ID}`,
+      `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`,
+      `00-${TRACE_ID}-${SPAN_ID}-01-extra`,
+      `00-${'0'.repeat(32)}-${SPAN_ID}-01`,
+      `00-${TRACE_ID}-${'0'.repeat(16)}-01`,
+    ]) {
+      assert.equal(parseTraceparent(header), undefined, String(header));
+    }
+  });
+
+  it('round-trips with formatTraceparent', () => {
+    for (const header of [`00-${TRACE_ID}-${SPAN_ID}-01`, `00-${TRACE_ID}-${SPAN_ID}-00`]) {
+      assert.equal(formatTraceparent(parseTraceparent(header)!), header);
+    }
+  });
+});
+
+describe('spans', () => {
+  it('continue a traceparent header as their parent', () => {
+    const span = startSpan('request', { parent: `00-${TRACE_ID}-${SPAN_ID}-01` });
+    assert.equal(span.context.traceId, TRACE_ID);
+    assert.equal(span.parentSpanId, SPAN_ID);
+    assert.notEqual(span.context.spanId, SPAN_ID);
+
+    // An invalid header starts a new trace
+    const root = startSpan('request', { parent: 'garbage' });
+    assert.notEqual(root.context.traceId, TRACE_ID);
+    assert.equal(root.parentSpanId, undefined);
+  });
+
+  it('nest under the active span and export when they end', async () => {
+    await withSpan('outer', {}, async (outer) => {
+      assert.equal(currentSpan(), outer);
+      assert.equal(currentTraceparent(), formatTraceparent(outer.context));
+      await withSpan('inner', { attributes: { n: 1 } }, async () => {});
+    });
+    assert.equal(currentSpan(), undefined);
+
+    const outer = exportedSpan('outer');
+    const inner = exportedSpan('inner');
+    assert.equal(inner.traceId, outer.traceId);
+    assert.equal(inner.parentSpanId, outer.spanId);
+    assert.deepEqual(inner.attributes, { n: 1 });
+    assert.deepEqual(exported.map((s) => s.name), ['inner', 'outer']);
+  });
+
+  it('record the first error of a rejected span', async () => {
+    await assert.rejects(withSpan('failing', {}, async (span) => {
+      span.fail(new Error('first'));
+      throw new Error('second');
+    }), /second/);
+    assert.equal(exportedSpan('failing').status, 'error');
+    assert.equal(exportedSpan('failing').error, 'first');
+  });
+
+  it('propagate unsampled traces without exporting them', async () => {
+    await withSpan('unsampled', { parent: `00-${TRACE_ID}-${SPAN_ID}-00` }, async () => {
+      assert.equal(currentTraceparent()?.endsWith('-00'), true);
+      await withSpan('child', {}, async () => {});
+    });
+    assert.deepEqual(exported, []);
+  });
+
+  it('export once even when ended twice', () => {
+    const span = startSpan('twice');
+    runInSpan(span, () => span.end());
+    span.end();
+    assert.equal(exported.length, 1);
+  });
+});
+
+describe('trace propagation through the event bus', () => {
+  function event(): AgentEvent<'reasoning_requested'> {
+    return {
+      eventId: uuidv4(),
+      eventType: 'reasoning_requested',
+      schemaVersion: 2,
+      tenantId: 't1',
+      conversationId: 'c1',
+      messageId: 'm1',
+      timestamp: new Date().toISOString(),
+      producer: 'api',
+      payload: { content: 'hello' },
+    };
+  }
+
+  /** Subscribe a traced handler to a fresh topic; resolves with its active span context once a message arrives */
+  function consume(handler: string): { topic: string; received: Promise<{ traceparent?: string; attributes: Record<string, string> }> } {
+    const topic = `topic-${uuidv4()}`;
+    const received = new Promise<{ traceparent?: string; attributes: Record<string, string> }>((resolve) => {
+      (getEventBus() as InMemoryEventBus).subscribe(topic, handler, traceHandler(handler, async (e: CloudEvent<MessagePublishedData>) => {
+        resolve({ traceparent: currentTraceparent(), attributes: e.data?.message?.attributes ?? {} });
+      }));
+    });
+    return { topic, received };
+  }
+
+  it('continues the trace of the transaction that staged an outbox entry in the consumer', async () => {
+    const { topic, received } = consume('consumer');
+    const staged = event();
+
+    // The request commits the entry; the relay may publish it after the request's span has ended
+    await withSpan('POST /messages', { kind: 'server' }, () => getStore().runTransaction(async (tx) => {
+      stageOutboxEntry(tx, { topic, event: staged });
+    }));
+    await relayOutbox([staged.eventId]);
+    const { traceparent, attributes } = await received;
+
+    const request = exportedSpan('POST /messages');
+    const transaction = exportedSpan('store.transaction');
+    const publish = exportedSpan(`publish ${topic}`);
+    assert.equal(transaction.parentSpanId, request.spanId);
+    // The entry was staged inside the transaction's span
+    assert.equal(publish.kind, 'producer');
+    assert.equal(publish.parentSpanId, transaction.spanId);
+    // The message carries the producer span, which the consumer span continues
+    assert.equal(attributes.traceparent, formatTraceparent({ traceId: request.traceId, spanId: publish.spanId, sampled: true }));
+
+    const consumer = parseTraceparent(traceparent)!;
+    assert.equal(consumer.traceId, request.traceId);
+    await new Promise((resolve) => setImmediate(resolve));
+    const consumerSpan = exportedSpan('consumer');
+    assert.equal(consumerSpan.kind, 'consumer');
+    assert.equal(consumerSpan.parentSpanId, publish.spanId);
+    assert.equal(consumerSpan.attributes.eventId, staged.eventId);
+  });
+
+  it('starts a new trace for messages without a traceparent', async () => {
+    const { topic, received } = consume('untraced');
+    await getEventBus().publish(topic, event());
+
+    const { traceparent, attributes } = await received;
+    assert.equal(attributes.traceparent, undefined);
+    assert.ok(parseTraceparent(traceparent));
+  });
+});
@@ -0,0 +1,249 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  SIGNATURE_HEADER,
+  Webhook,
+  createWebhook,
+  dispatchStateChange,
+  invalidWebhookUrl,
+  listDeliveries,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../../src/shared/webhooks';
+import { EVENT_SCHEMA_VERSIONS } from '../../src/shared/event-schemas';
+import type { AgentEvent } from '../../src/shared/types';
+
+function stateChanged(tenantId: string): AgentEvent<'state_changed'> {
+  const conversationId = uuidv4();
+  const messageId = uuidv4();
+  const at = new Date().toISOString();
+  return {
+    eventId: uuidv4(),
+    eventType: 'state_changed',
+    schemaVersion: EVENT_SCHEMA_VERSIONS.state_changed,
+    tenantId,
+    conversationId,
+    messageId,
+    timestamp: at,
+    producer: 'executor',
+    payload: {
+      sequence: 3,
+      conversationId,
+      messageId,
+      turnNumber: 1,
+      from: 'ACTION_REQUESTED',
+      to: 'ACTION_COMPLETED',
+      conversationStatus: 'IDLE',
+      producer: 'executor',
+      eventTypes: ['action_executed'],
+      at,
+    },
+  };
+}
+
+before(() => {
+  process.env.STORAGE_BACKEND = 'memory';
+  process.env.EVENT_BUS = 'memory';
+});
+
+afterEach(() => {
+  delete process.env.WEBHOOK_ALLOW_HTTP;
+  delete process.env.WEBHOOK_ALLOW_PRIVATE;
+});
+
+describe('invalidWebhookUrl', () => {
+  it('accepts https URLs of public hosts', async () => {
+    assert.equal(await invalidWebhookUrl('https://93.184.216.34/hooks'), null);
+    assert.equal(await invalidWebhookUrl('https://[2606:4700::1111]/hooks'), null);
+  });
+
+  it('requires https unless WEBHOOK_ALLOW_HTTP=true', async () => {
+    assert.equal(await invalidWebhookUrl('not a url'), '"url" must be an absolute URL');
+    assert.equal(await invalidWebhookUrl('http://93.184.216.34/'), '"url" must use https');
+    assert.equal(await invalidWebhookUrl('ftp://93.184.216.34/'), '"url" must use https');
+
+    process.env.WEBHOOK_ALLOW_HTTP = 'true';
+    assert.equal(await invalidWebhookUrl('http://93.184.216.34/'), null);
+  });
+
+  for (const url of [
+    'https://127.0.0.1/',
+    'https://localhost:8443/',
+    'https://10.1.2.3/',
+    'https://172.16.0.1/',
+    'https://192.168.1.1/',
+    'https://169.254.169.254/latest/meta-data/',
+    'https://100.64.0.1/',
+    'https://0.0.0.0/',
+    'https://2130706433/',                // 127.0.0.1 in decimal
+    'https://[::1]/',
+    'https://[::ffff:169.254.169.254]/',
+    'https://[fd00::1]/',
+    'https://[fe80::1]/',
+  ]) {
+    it(`refuses ${url}`, async () => {
+      assert.match(await invalidWebhookUrl(url) ?? '', /must not point to a private or reserved address/);
+    });
+  }
+
+  it('refuses hosts that do not resolve', async () => {
+    assert.match(await invalidWebhookUrl('https://webhooks.invalid/') ?? '', /does not resolve/);
+  });
+
+  it('accepts private addresses with WEBHOOK_ALLOW_PRIVATE=true', async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE = 'true';
+    assert.equal(await invalidWebhookUrl('https://127.0.0.1/'), null);
+  });
+});
+
+describe('signWebhookPayload', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 'd1', type: 'conversation.state_changed' });
+
+  it('formats the header as t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">', () => {
+    const expected = createHmac('sha256', secret).update(`1760870400.${body}`).digest('hex');
+    assert.equal(signWebhookPayload(secret, 1760870400, body), `t=1760870400,v1=${expected}`);
+  });
+
+  it('depends on the secret, the timestamp and every byte of the body', () => {
+    const header = signWebhookPayload(secret, 1760870400, body);
+    assert.notEqual(signWebhookPayload('whsec_other', 1760870400, body), header);
+    assert.notEqual(signWebhookPayload(secret, 1760870401, body), header);
+    assert.notEqual(signWebhookPayload(secret, 1760870400, `${body} `), header);
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const secret = 'whsec_test';
+  const body = '{"id":"d1"}';
+  const now = Date.UTC(2025, 9, 19, 12, 0, 0);
+  const t = now / 1000;
+
+  it('accepts a fresh signature of the raw body', () => {
+    assert.equal(verifyWebhookSignature(secret, signWebhookPayload(secret, t, body), body, 300, now), true);
+  });
+
+  it('rejects another body or secret', () => {
+    assert.equal(verifyWebhookSignature(secret, signWebhookPayload(secret, t, body), '{"id":"d2"}', 300, now), false);
+    assert.equal(verifyWebhookSignature('whsec_other', signWebhookPayload(secret, t, body), body, 300, now), false);
+  });
+
+  it('rejects timestamps outside the tolerance, so captured requests cannot be replayed', () => {
+    assert.equal(verifyWebhookSignature(secret, signWebhookPayload(secret, t - 300, body), body, 300, now), true);
+    assert.equal(verifyWebhookSignature(secret, signWebhookPayload(secret, t - 301, body), body, 300, now), false);
+    assert.equal(verifyWebhookSignature(secret, signWebhookPayload(secret, t + 301, body), body, 300, now), false);
+  });
+
+  it('rejects a timestamp changed after signing', () => {
+    const digest = signWebhookPayload(secret, t - 3600, body).split(',')[1];
+    assert.equal(verifyWebhookSignature(secret, `t=${t},${digest}`, body, 300, now), false);
+  });
+
+  for (const header of ['', 'v1=abc', `t=${t}`, `t=soon,v1=00`, `t=${t},v1=not-hex`, `t=${t},v1=00`]) {
+    it(`rejects the malformed header ${JSON.stringify(header)}`, () => {
+      assert.equal(verifyWebhookSignature(secret, header, body, 300, now), false);
+    });
+  }
+});
+
+describe('attemptDelivery', () => {
+  /** Requests received by the fake receiver, which answers with `status` */
+  const received: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+  let status = 200;
+  let server: Server;
+  let receiverUrl: string;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf-8') });
+        res.writeHead(status, status === 302 ? { Location: 'http://169.254.169.254/' } : {});
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  /** A webhook of its own tenant, so other tests' webhooks do not receive its deliveries */
+  async function dispatchTo(url: string): Promise<Webhook> {
+    const tenantId = `t-${uuidv4()}`;
+    const webhook = await createWebhook({ url, tenantId });
+    await dispatchStateChange(stateChanged(tenantId));
+    return webhook;
+  }
+
+  /** The receiver runs on localhost over plain http */
+  function allowLocalReceiver(): void {
+    process.env.WEBHOOK_ALLOW_HTTP = 'true';
+    process.env.WEBHOOK_ALLOW_PRIVATE = 'true';
+  }
+
+  it('POSTs the payload with a verifiable signature', async () => {
+    allowLocalReceiver();
+    status = 200;
+    const before = Date.now();
+    const webhook = await dispatchTo(receiverUrl);
+
+    const request = received[received.length - 1];
+    const [delivery] = await listDeliveries(webhook.webhookId, 10);
+    assert.equal(delivery.status, 'delivered');
+    assert.equal(delivery.attempts[0].statusCode, 200);
+    assert.equal(request.headers['x-webhook-id'], webhook.webhookId);
+    assert.equal(request.headers['x-webhook-delivery'], delivery.deliveryId);
+    assert.equal(request.headers['content-type'], 'application/json');
+    assert.deepEqual(JSON.parse(request.body), delivery.payload);
+    assert.equal(JSON.parse(request.body).data.to, 'ACTION_COMPLETED');
+
+    const header = request.headers[SIGNATURE_HEADER.toLowerCase()] as string;
+    assert.match(header, /^t=\d+,v1=[0-9a-f]{64}$/);
+    const t = Number(/^t=(\d+)/.exec(header)?.[1]);
+    assert.ok(t >= Math.floor(before / 1000) && t <= Math.ceil(Date.now() / 1000));
+    assert.equal(verifyWebhookSignature(webhook.secret, header, request.body), true);
+  });
+
+  it('schedules a retry with backoff when the receiver fails', async () => {
+    allowLocalReceiver();
+    status = 503;
+    const before = Date.now();
+    const webhook = await dispatchTo(receiverUrl);
+
+    const [delivery] = await listDeliveries(webhook.webhookId, 10);
+    assert.equal(delivery.status, 'retrying');
+    assert.equal(delivery.attempts[0].error, 'HTTP 503');
+    // First retry after between half and all of WEBHOOK_RETRY_BASE_DELAY_MS (30s)
+    const delay = Date.parse(delivery.nextAttemptAt ?? '') - before;
+    assert.ok(delay >= 15_000 && delay <= 30_000 + (Date.now() - before), `delay ${delay}`);
+  });
+
+  it('does not follow redirects', async () => {
+    allowLocalReceiver();
+    status = 302;
+    const requests = received.length;
+    const webhook = await dispatchTo(receiverUrl);
+
+    const [delivery] = await listDeliveries(webhook.webhookId, 10);
+    assert.equal(received.length, requests + 1);
+    assert.equal(delivery.status, 'retrying');
+    assert.equal(delivery.attempts[0].error, 'HTTP 302');
+  });
+
+  it('refuses a private target at delivery time and schedules a retry', async () => {
+    // Stored directly, as if the host resolved to a public address when the webhook was created
+    const webhook = await dispatchTo('https://169.254.169.254/hooks');
+
+    const [delivery] = await listDeliveries(webhook.webhookId, 10);
+    assert.equal(delivery.status, 'retrying');
+    assert.equal(delivery.attempts.length, 1);
+    assert.equal(delivery.attempts[0].statusCode, undefined);
+    assert.match(delivery.attempts[0].error ?? '', /must not point to a private or reserved address \(169\.254\.169\.254\)/);
+  });
+});